@@ -2,10 +2,13 @@ import type { ActionFunctionArgs } from "react-router";
 import { data } from "react-router";
 import { authenticate } from "../shopify.server";
 import { isAutomationEnabled, getAutomation, getOrCreateShop } from "../services/automation/automation.service";
-import { processTemplate, formatPhoneForWhatsApp } from "../services/automation/template.service";
+import { buildConditionContext, shouldRunAutomation } from "../services/automation/conditions.service";
+import { type TemplateData, toTemplateLineItems, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
+import { getAbandonedCheckoutSettings } from "../services/automation/automation.constants";
+import { startRecoverySequence, stopRecoverySequence, cancelQueuedRecoverySteps } from "../services/recovery/recovery-sequence.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { topic, shop, payload } = await authenticate.webhook(request);
+  const { topic, shop, payload, admin } = await authenticate.webhook(request);
 
   if (!payload) {
     return new Response("No payload", { status: 400 });
@@ -14,7 +17,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   console.log(`Received ${topic} webhook for ${shop}`);
 
   // Ensure shop exists
-  await getOrCreateShop(shop);
+  const shopId = await getOrCreateShop(shop);
 
   // Check if automation is enabled
   const isEnabled = await isAutomationEnabled(shop, 'abandoned_checkout');
@@ -27,33 +30,56 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     id?: string;
     token?: string;
     abandoned_checkout_url?: string;
+    total_price?: string;
+    subtotal_price?: string;
+    currency?: string;
+    gateway?: string;
     customer?: { 
+      id?: string | number;
+      tags?: string;
       phone?: string; 
       first_name?: string;
+      last_name?: string;
       email?: string;
     };
     shipping_address?: { 
       phone?: string;
       first_name?: string;
+      country_code?: string;
     };
     billing_address?: { 
       phone?: string;
       first_name?: string;
+      country_code?: string;
     };
     line_items?: Array<{
       name?: string;
       title?: string;
       quantity?: number;
+      product_id?: string | number | null;
+      price?: string;
+      variant_title?: string | null;
+      sku?: string | null;
     }>;
     completed_at?: string;
   };
 
-  // Skip if checkout was completed
+  const checkoutToken = checkout.token || checkout.id?.toString();
+
+  // Skip if checkout was completed - and stop the sequence and any reminder still waiting for it
   if (checkout.completed_at) {
     console.log(`Checkout ${checkout.id} was completed, skipping abandoned checkout notification`);
+    if (checkoutToken) {
+      await stopRecoverySequence(shopId, checkoutToken, 'converted');
+      await cancelQueuedRecoverySteps(shop, checkoutToken);
+    }
     return data({ success: true, skipped: "checkout_completed" }, { status: 200 });
   }
 
+  if (!checkoutToken) {
+    return data({ success: false, reason: "no_checkout_token" }, { status: 200 });
+  }
+
   const phone = checkout.shipping_address?.phone || checkout.billing_address?.phone || checkout.customer?.phone;
   const customerName = checkout.shipping_address?.first_name || checkout.billing_address?.first_name || checkout.customer?.first_name || 'Customer';
 
@@ -76,31 +102,40 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return data({ success: false, reason: "no_template" }, { status: 200 });
     }
 
-    const message = processTemplate(automation.template, {
+    if (!(await shouldRunAutomation(automation, buildConditionContext(checkout, 'checkout'), admin?.graphql))) {
+      return data({ success: true, skipped: "conditions_not_met" }, { status: 200 });
+    }
+
+    // Snapshot the checkout - every step of the sequence is rendered from it
+    const templateData: TemplateData = {
       customerName,
+      firstName: checkout.customer?.first_name || customerName,
+      lastName: checkout.customer?.last_name,
+      billingFirstName: checkout.billing_address?.first_name || customerName,
+      shippingFirstName: checkout.shipping_address?.first_name || customerName,
+      customerPhone: phone,
+      customerEmail: checkout.customer?.email,
       checkoutUrl: checkout.abandoned_checkout_url || '',
+      orderTotal: checkout.total_price ? formatCurrency(checkout.total_price, checkout.currency) : '',
+      subtotal: checkout.subtotal_price ? formatCurrency(checkout.subtotal_price, checkout.currency) : '',
+      currency: checkout.currency,
+      lineItems: toTemplateLineItems(checkout.line_items),
       productList,
       productName,
       shopName
-    });
-
-    const { queueMessage } = await import("../services/queue/message-queue.service");
-
-    // Calculate scheduled time with delay (default 2 hours)
-    const delayMinutes = automation.delayMinutes || 120;
-    const scheduledAt = new Date(Date.now() + delayMinutes * 60 * 1000);
+    };
 
-    await queueMessage({
-      shopId: shop,
+    // Step 1 delay (default 2 hours); later steps are scheduled by the dispatcher
+    const { steps } = getAbandonedCheckoutSettings(automation);
+    const sequence = await startRecoverySequence(shopId, {
+      checkoutToken,
+      checkoutId: checkout.id?.toString(),
       phone: formatPhoneForWhatsApp(phone),
-      message,
-      messageType: 'abandoned_checkout',
-      scheduledAt,
-      priority: 5 // Lower priority than order notifications
-    });
-
-    console.log(`Abandoned checkout notification scheduled for ${checkout.id} at ${scheduledAt.toISOString()}`);
-    return data({ success: true, queued: true, scheduledAt: scheduledAt.toISOString() });
+      templateData
+    }, steps[0].delayMinutes);
+
+    console.log(`Abandoned checkout sequence for ${checkout.id}: ${sequence.status}, next step at ${sequence.nextStepAt?.toISOString() ?? 'n/a'}`);
+    return data({ success: true, queued: true, scheduledAt: sequence.nextStepAt?.toISOString() ?? null });
 
   } catch (error) {
     console.error("Failed to process checkout webhook:", error);
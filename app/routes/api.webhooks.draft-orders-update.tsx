@@ -2,10 +2,11 @@ import type { ActionFunctionArgs } from "react-router";
 import { data } from "react-router";
 import { authenticate } from "../shopify.server";
 import { isAutomationEnabled, getAutomation, getOrCreateShop } from "../services/automation/automation.service";
-import { processTemplate, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
+import { buildConditionContext, shouldRunAutomation } from "../services/automation/conditions.service";
+import { processTemplate, toTemplateLineItems, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { topic, shop, payload } = await authenticate.webhook(request);
+  const { topic, shop, payload, admin } = await authenticate.webhook(request);
 
   if (!payload) {
     return new Response("No payload", { status: 400 });
@@ -29,24 +30,35 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     invoice_url?: string;
     status?: string;
     total_price?: string;
+    subtotal_price?: string;
     currency?: string;
+    tags?: string;
     customer?: { 
+      id?: string | number;
+      tags?: string;
       phone?: string; 
       first_name?: string;
+      last_name?: string;
       email?: string;
     };
     shipping_address?: { 
       phone?: string;
       first_name?: string;
+      country_code?: string;
     };
     billing_address?: { 
       phone?: string;
       first_name?: string;
+      country_code?: string;
     };
     line_items?: Array<{
       name?: string;
       title?: string;
       quantity?: number;
+      product_id?: string | number | null;
+      price?: string;
+      variant_title?: string | null;
+      sku?: string | null;
     }>;
   };
 
@@ -79,11 +91,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return data({ success: false, reason: "no_template" }, { status: 200 });
     }
 
+    if (!(await shouldRunAutomation(automation, buildConditionContext(draftOrder, 'draft_order'), admin?.graphql))) {
+      return data({ success: true, skipped: "conditions_not_met" }, { status: 200 });
+    }
+
     const message = processTemplate(automation.template, {
       customerName,
+      firstName: draftOrder.customer?.first_name || customerName,
+      lastName: draftOrder.customer?.last_name,
+      customerPhone: phone,
+      customerEmail: draftOrder.customer?.email,
       orderNumber: draftOrder.name || '',
       orderTotal,
       orderUrl: draftOrder.invoice_url || '',
+      subtotal: draftOrder.subtotal_price ? formatCurrency(draftOrder.subtotal_price, draftOrder.currency) : '',
+      currency: draftOrder.currency,
+      lineItems: toTemplateLineItems(draftOrder.line_items),
       productList,
       productName,
       shopName
@@ -100,6 +123,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       phone: formatPhoneForWhatsApp(phone),
       message,
       messageType: 'draft_order_recovery',
+      mediaId: automation.mediaId || undefined,
       orderId: draftOrder.id?.toString(),
       orderNumber: draftOrder.name,
       scheduledAt,
@@ -2,10 +2,11 @@ import type { ActionFunctionArgs } from "react-router";
 import { data } from "react-router";
 import { authenticate } from "../shopify.server";
 import { isAutomationEnabled, getAutomation, getOrCreateShop } from "../services/automation/automation.service";
-import { processTemplate, formatPhoneForWhatsApp } from "../services/automation/template.service";
+import { getAutomationConditions, loadOrderConditionContext, shouldRunAutomation } from "../services/automation/conditions.service";
+import { processTemplate, toTemplateLineItems, formatPhoneForWhatsApp } from "../services/automation/template.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { topic, shop, payload } = await authenticate.webhook(request);
+  const { topic, shop, payload, admin } = await authenticate.webhook(request);
 
   if (!payload) {
     return new Response("No payload", { status: 400 });
@@ -26,7 +27,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const fulfillment = payload as {
     id?: string;
     order_id?: string | number;
+    name?: string;
     status?: string;
+    tracking_company?: string;
     tracking_number?: string;
     tracking_numbers?: string[];
     tracking_url?: string;
@@ -34,11 +37,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     destination?: { 
       phone?: string; 
       first_name?: string;
+      last_name?: string;
+      address1?: string;
+      address2?: string;
+      city?: string;
     };
     line_items?: Array<{
       name?: string;
       title?: string;
       quantity?: number;
+      price?: string;
+      variant_title?: string | null;
+      sku?: string | null;
     }>;
   };
 
@@ -68,14 +78,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return data({ success: false, reason: "no_template" }, { status: 200 });
     }
 
+    // Fulfillment payloads don't carry order details - load them only when rules need them
+    if (getAutomationConditions(automation.conditions).rules.length > 0) {
+      const orderContext = admin && fulfillment.order_id
+        ? await loadOrderConditionContext(admin.graphql, fulfillment.order_id.toString())
+        : null;
+
+      if (!orderContext || !(await shouldRunAutomation(automation, orderContext, admin?.graphql))) {
+        if (!orderContext) {
+          console.log(`Could not load order ${fulfillment.order_id} to check automation conditions`);
+        }
+        return data({ success: true, skipped: "conditions_not_met" }, { status: 200 });
+      }
+    }
+
     const message = processTemplate(automation.template, {
       customerName,
+      lastName: fulfillment.destination?.last_name,
+      shippingFirstName: customerName,
+      customerPhone: phone,
+      carrier: fulfillment.tracking_company || '',
       trackingNumber,
       trackingUrl,
+      lineItems: toTemplateLineItems(fulfillment.line_items),
+      address: [fulfillment.destination?.address1, fulfillment.destination?.address2].filter(Boolean).join(', '),
+      city: fulfillment.destination?.city,
       productList,
       productName,
       shopName,
-      orderNumber: fulfillment.order_id?.toString()
+      orderId: fulfillment.order_id?.toString(),
+      orderNumber: fulfillment.name?.split('.')[0] || fulfillment.order_id?.toString()
     });
 
     const { queueMessage } = await import("../services/queue/message-queue.service");
@@ -85,6 +117,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       phone: formatPhoneForWhatsApp(phone),
       message,
       messageType: 'order_fulfillment',
+      mediaId: automation.mediaId || undefined,
       orderId: fulfillment.order_id?.toString(),
       priority: 1
     });
@@ -0,0 +1,86 @@
+import type { ActionFunctionArgs } from "react-router";
+import { data } from "react-router";
+import { authenticate } from "../shopify.server";
+import { isAutomationEnabled, getOrCreateShop } from "../services/automation/automation.service";
+import { handleStockUpdate } from "../services/back-in-stock/back-in-stock.service";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop, payload, admin } = await authenticate.webhook(request);
+
+  if (!payload) {
+    return new Response("No payload", { status: 400 });
+  }
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Ensure shop exists
+  await getOrCreateShop(shop);
+
+  // Check if automation is enabled
+  const isEnabled = await isAutomationEnabled(shop, 'back_in_stock');
+  if (!isEnabled) {
+    return data({ success: true, skipped: "automation_disabled" }, { status: 200 });
+  }
+
+  const inventoryLevel = payload as {
+    inventory_item_id?: string | number;
+    location_id?: string | number;
+    available?: number | null;
+  };
+
+  if (!inventoryLevel.inventory_item_id) {
+    return data({ success: false, reason: "no_inventory_item" }, { status: 200 });
+  }
+
+  if (!admin) {
+    console.log(`No admin session for ${shop}, cannot resolve inventory item ${inventoryLevel.inventory_item_id}`);
+    return data({ success: false, reason: "no_session" }, { status: 200 });
+  }
+
+  try {
+    // The payload is per location - look up the variant's total stock instead
+    const response = await admin.graphql(
+      `
+        query inventoryItemVariant($id: ID!) {
+          inventoryItem(id: $id) {
+            variant {
+              id
+              inventoryQuantity
+              product {
+                id
+                title
+                handle
+                onlineStoreUrl
+              }
+            }
+          }
+        }
+      `,
+      { variables: { id: `gid://shopify/InventoryItem/${inventoryLevel.inventory_item_id}` } }
+    );
+
+    const result = await response.json();
+    const variant = result.data?.inventoryItem?.variant;
+
+    if (!variant) {
+      return data({ success: false, reason: "variant_not_found" }, { status: 200 });
+    }
+
+    const variantId = variant.id.split('/').pop();
+    const productUrl = `${variant.product.onlineStoreUrl || `https://${shop}/products/${variant.product.handle}`}?variant=${variantId}`;
+
+    const queued = await handleStockUpdate(shop, {
+      inventoryItemId: String(inventoryLevel.inventory_item_id),
+      variantId,
+      productTitle: variant.product.title,
+      productUrl,
+      available: variant.inventoryQuantity ?? 0
+    });
+
+    return data({ success: true, queued });
+
+  } catch (error) {
+    console.error("Failed to process inventory_levels/update webhook:", error);
+    return data({ success: false, error: "internal_error" }, { status: 200 });
+  }
+};
@@ -2,10 +2,11 @@ import type { ActionFunctionArgs } from "react-router";
 import { data } from "react-router";
 import { authenticate } from "../shopify.server";
 import { isAutomationEnabled, getAutomation, getOrCreateShop } from "../services/automation/automation.service";
-import { processTemplate, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
+import { buildConditionContext, shouldRunAutomation } from "../services/automation/conditions.service";
+import { processTemplate, toTemplateLineItems, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { topic, shop, payload } = await authenticate.webhook(request);
+  const { topic, shop, payload, admin } = await authenticate.webhook(request);
 
   if (!payload) {
     return new Response("No payload", { status: 400 });
@@ -28,15 +29,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     name?: string;
     order_number?: string | number;
     total_price?: string;
+    subtotal_price?: string;
     currency?: string;
+    created_at?: string;
+    tags?: string;
+    payment_gateway_names?: string[];
     cancel_reason?: string;
-    shipping_address?: { phone?: string; first_name?: string };
-    billing_address?: { phone?: string; first_name?: string };
-    customer?: { phone?: string; first_name?: string; email?: string };
+    shipping_address?: { phone?: string; first_name?: string; address1?: string; address2?: string; city?: string; country_code?: string };
+    billing_address?: { phone?: string; first_name?: string; country_code?: string };
+    customer?: { id?: string | number; phone?: string; first_name?: string; last_name?: string; email?: string; tags?: string };
     line_items?: Array<{
       name?: string;
       title?: string;
       quantity?: number;
+      product_id?: string | number | null;
+      price?: string;
+      variant_title?: string | null;
+      sku?: string | null;
     }>;
   };
 
@@ -66,12 +75,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return data({ success: false, reason: "no_template" }, { status: 200 });
     }
 
+    if (!(await shouldRunAutomation(automation, buildConditionContext(order, 'order'), admin?.graphql))) {
+      return data({ success: true, skipped: "conditions_not_met" }, { status: 200 });
+    }
+
     const message = processTemplate(automation.template, {
       customerName,
+      firstName: order.customer?.first_name || customerName,
+      lastName: order.customer?.last_name,
+      billingFirstName: order.billing_address?.first_name || customerName,
+      shippingFirstName: order.shipping_address?.first_name || customerName,
+      customerPhone: phone,
+      customerEmail: order.customer?.email,
+      orderId,
       orderNumber,
       orderTotal,
+      orderDate: order.created_at,
+      subtotal: order.subtotal_price ? formatCurrency(order.subtotal_price, order.currency) : '',
+      currency: order.currency,
+      lineItems: toTemplateLineItems(order.line_items),
       productList,
       productName,
+      address: [order.shipping_address?.address1, order.shipping_address?.address2].filter(Boolean).join(', '),
+      city: order.shipping_address?.city,
       shopName
     });
 
@@ -82,6 +108,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       phone: formatPhoneForWhatsApp(phone),
       message,
       messageType: 'order_cancellation',
+      mediaId: automation.mediaId || undefined,
       orderId,
       orderNumber,
       priority: 2
@@ -2,10 +2,17 @@ import type { ActionFunctionArgs } from "react-router";
 import { data } from "react-router";
 import { authenticate } from "../shopify.server";
 import { isAutomationEnabled, getAutomation, getOrCreateShop } from "../services/automation/automation.service";
-import { processTemplate, extractProductInfo, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
+import { buildConditionContext, getAutomationConditions, isCodGateway, shouldRunAutomation } from "../services/automation/conditions.service";
+import { getOrderConfirmationSettings } from "../services/automation/automation.constants";
+import { createOrderConfirmation, requiresConfirmation, withConfirmationOptions } from "../services/cod/cod-confirmation.service";
+import { attributeRecoveredOrder, cancelQueuedRecoverySteps } from "../services/recovery/recovery-sequence.service";
+import { attributeOrder } from "../services/attribution/attribution.service";
+import { createOrderInvoice, deleteOrderInvoice, fetchShopBranding } from "../services/invoice/invoice.service";
+import type { InvoiceOrder } from "../services/invoice/invoice-pdf.service";
+import { type TemplateData, processTemplate, extractProductInfo, toTemplateLineItems, formatPhoneForWhatsApp, formatCurrency } from "../services/automation/template.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { topic, shop, payload } = await authenticate.webhook(request);
+  const { topic, shop, payload, admin } = await authenticate.webhook(request);
 
   if (!payload) {
     return new Response("No payload", { status: 400 });
@@ -14,32 +21,80 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   console.log(`Received ${topic} webhook for ${shop}`);
 
   // Ensure shop exists in database
-  await getOrCreateShop(shop);
+  const shopId = await getOrCreateShop(shop);
 
   const order = payload as {
     id?: string | number;
     name?: string;
     order_number?: string | number;
+    checkout_token?: string | null;
+    discount_codes?: Array<{ code: string }>;
     total_price?: string;
+    subtotal_price?: string;
+    tags?: string;
+    payment_gateway_names?: string[];
     currency?: string;
-    shipping_address?: { phone?: string; first_name?: string };
-    billing_address?: { phone?: string; first_name?: string };
-    customer?: { phone?: string; first_name?: string; email?: string };
+    created_at?: string;
+    order_status_url?: string;
+    landing_site?: string | null;
+    shipping_address?: { phone?: string; first_name?: string; address1?: string; address2?: string; city?: string; country_code?: string };
+    billing_address?: { phone?: string; first_name?: string; country_code?: string };
+    customer?: { id?: string | number; phone?: string; first_name?: string; last_name?: string; email?: string; tags?: string };
     line_items?: Array<{
       name?: string;
       title?: string;
       quantity?: number;
+      price?: string;
+      variant_title?: string | null;
+      sku?: string | null;
       product_id?: string | number;
     }>;
   };
 
   const orderId = order.id?.toString();
   const orderNumber = order.name || `#${order.order_number}`;
+
+  // The checkout converted - stop its reminders and credit the step that recovered it
+  if (order.checkout_token) {
+    try {
+      if (await cancelQueuedRecoverySteps(shop, order.checkout_token) > 0) {
+        console.log(`Cancelled abandoned checkout reminder for ${orderNumber}`);
+      }
+      await attributeRecoveredOrder(shopId, {
+        checkoutToken: order.checkout_token,
+        orderId: orderId || orderNumber,
+        revenue: parseFloat(order.total_price || '0'),
+        discountCodes: (order.discount_codes || []).map(discount => discount.code)
+      });
+    } catch (error) {
+      console.error(`Failed to stop abandoned checkout reminders for ${orderNumber}:`, error);
+    }
+  }
   
   // Try to find customer phone and name
   const phone = order.shipping_address?.phone || order.billing_address?.phone || order.customer?.phone;
   const customerName = order.shipping_address?.first_name || order.billing_address?.first_name || order.customer?.first_name || 'Customer';
 
+  // Credit the order to the WhatsApp message that drove it, if any
+  if (orderId) {
+    try {
+      const attribution = await attributeOrder(shopId, {
+        orderId,
+        orderNumber,
+        phone: phone ? formatPhoneForWhatsApp(phone) : undefined,
+        revenue: parseFloat(order.total_price || '0'),
+        currency: order.currency,
+        createdAt: order.created_at ? new Date(order.created_at) : new Date(),
+        landingSite: order.landing_site
+      });
+      if (attribution) {
+        console.log(`Order ${orderNumber} attributed to ${attribution.messageType} (${attribution.method})`);
+      }
+    } catch (error) {
+      console.error(`Failed to attribute order ${orderNumber}:`, error);
+    }
+  }
+
   if (!phone) {
     console.log(`No phone number found for order ${orderNumber}. Skipping WhatsApp notification.`);
     return data({ success: false, reason: "no_phone" }, { status: 200 });
@@ -52,6 +107,31 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   // Clean shop name (remove .myshopify.com)
   const shopName = shop.replace('.myshopify.com', '');
 
+  const templateData: TemplateData = {
+    customerName,
+    firstName: order.customer?.first_name || customerName,
+    lastName: order.customer?.last_name,
+    billingFirstName: order.billing_address?.first_name || customerName,
+    shippingFirstName: order.shipping_address?.first_name || customerName,
+    customerPhone: phone,
+    customerEmail: order.customer?.email,
+    orderId,
+    orderNumber,
+    orderTotal,
+    orderUrl: order.order_status_url,
+    orderDate: order.created_at,
+    subtotal: order.subtotal_price ? formatCurrency(order.subtotal_price, order.currency) : '',
+    currency: order.currency,
+    lineItems: toTemplateLineItems(order.line_items),
+    productList,
+    productName,
+    address: [order.shipping_address?.address1, order.shipping_address?.address2].filter(Boolean).join(', '),
+    city: order.shipping_address?.city,
+    shopName
+  };
+
+  const conditionContext = buildConditionContext(order, 'order');
+
   try {
     const { queueMessage } = await import("../services/queue/message-queue.service");
     
@@ -59,27 +139,60 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const orderConfirmationEnabled = await isAutomationEnabled(shop, 'order_confirmation');
     if (orderConfirmationEnabled) {
       const automation = await getAutomation(shop, 'order_confirmation');
-      if (automation?.template) {
-        const message = processTemplate(automation.template, {
-          customerName,
-          orderNumber,
-          orderTotal,
-          productList,
-          productName,
-          shopName
-        });
+      if (automation?.template && await shouldRunAutomation(automation, conditionContext, admin?.graphql)) {
+        const settings = getOrderConfirmationSettings(automation.settings);
+        const isCod = isCodGateway(conditionContext.gateways);
+        const askToConfirm = !!orderId && requiresConfirmation(settings, isCod);
+
+        let message = processTemplate(automation.template, templateData);
+        if (askToConfirm) {
+          message = withConfirmationOptions(message, settings);
+        }
 
-        await queueMessage({
+        // A failed invoice shouldn't hold up the confirmation itself
+        let invoiceId: string | undefined;
+        if (settings.sendInvoice && orderId) {
+          try {
+            const branding = await fetchShopBranding(admin?.graphql, shopName);
+            const invoice = await createOrderInvoice(shopId, payload as InvoiceOrder, formatPhoneForWhatsApp(phone), settings.invoice, branding);
+            invoiceId = invoice.id;
+          } catch (error) {
+            console.error(`Failed to create invoice for ${orderNumber}:`, error);
+          }
+        }
+
+        const queued = await queueMessage({
           shopId: shop,
           phone: formatPhoneForWhatsApp(phone),
           message,
           messageType: 'order_confirmation',
+          mediaId: automation.mediaId || undefined,
+          invoiceId,
           orderId,
           orderNumber,
           priority: 1
         });
 
-        console.log(`Order confirmation queued for ${orderNumber}`);
+        // Only wait for a reply (and remind about it) when the confirmation went out
+        if ('skipped' in queued) {
+          console.log(`Order confirmation for ${orderNumber} not sent (${queued.skipped})`);
+          // The invoice was made for this message only
+          if (invoiceId) {
+            await deleteOrderInvoice(shopId, invoiceId);
+          }
+        } else {
+          if (askToConfirm && orderId) {
+            await createOrderConfirmation(shopId, {
+              orderId,
+              orderNumber,
+              phone: formatPhoneForWhatsApp(phone),
+              isCod,
+              templateData
+            }, settings);
+          }
+
+          console.log(`Order confirmation queued for ${orderNumber}${askToConfirm ? ' (awaiting reply)' : ''}`);
+        }
       }
     }
 
@@ -87,21 +200,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const orderNotificationEnabled = await isAutomationEnabled(shop, 'order_notification');
     if (orderNotificationEnabled) {
       const automation = await getAutomation(shop, 'order_notification');
-      if (automation?.template) {
-        const message = processTemplate(automation.template, {
-          customerName,
-          orderNumber,
-          orderTotal,
-          productList,
-          productName,
-          shopName
-        });
+      if (automation?.template && await shouldRunAutomation(automation, conditionContext, admin?.graphql)) {
+        const message = processTemplate(automation.template, templateData);
 
         await queueMessage({
           shopId: shop,
           phone: formatPhoneForWhatsApp(phone),
           message,
           messageType: 'order_notification',
+          mediaId: automation.mediaId || undefined,
           orderId,
           orderNumber,
           priority: 2
@@ -117,16 +224,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const automation = await getAutomation(shop, 'admin_notification');
       if (automation?.template && automation.conditions) {
         // Admin phone is stored in conditions as { adminPhone: "..." }
-        const conditions = automation.conditions as { adminPhone?: string };
-        if (conditions.adminPhone) {
-          const message = processTemplate(automation.template, {
-            customerName,
-            orderNumber,
-            orderTotal,
-            productList,
-            productName,
-            shopName
-          });
+        const conditions = getAutomationConditions(automation.conditions);
+        if (conditions.adminPhone && await shouldRunAutomation(automation, conditionContext, admin?.graphql)) {
+          const message = processTemplate(automation.template, templateData);
 
           await queueMessage({
             shopId: shop,
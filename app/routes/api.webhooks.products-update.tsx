@@ -0,0 +1,59 @@
+import type { ActionFunctionArgs } from "react-router";
+import { data } from "react-router";
+import { authenticate } from "../shopify.server";
+import { isAutomationEnabled, getOrCreateShop } from "../services/automation/automation.service";
+import { handleStockUpdate } from "../services/back-in-stock/back-in-stock.service";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop, payload } = await authenticate.webhook(request);
+
+  if (!payload) {
+    return new Response("No payload", { status: 400 });
+  }
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Ensure shop exists
+  await getOrCreateShop(shop);
+
+  // Check if automation is enabled
+  const isEnabled = await isAutomationEnabled(shop, 'back_in_stock');
+  if (!isEnabled) {
+    return data({ success: true, skipped: "automation_disabled" }, { status: 200 });
+  }
+
+  const product = payload as {
+    id?: string | number;
+    title?: string;
+    handle?: string;
+    variants?: Array<{
+      id?: string | number;
+      inventory_item_id?: string | number;
+      inventory_quantity?: number;
+    }>;
+  };
+
+  try {
+    let queued = 0;
+
+    for (const variant of product.variants || []) {
+      if (!variant.id || !variant.inventory_item_id) {
+        continue;
+      }
+
+      queued += await handleStockUpdate(shop, {
+        inventoryItemId: String(variant.inventory_item_id),
+        variantId: String(variant.id),
+        productTitle: product.title,
+        productUrl: product.handle ? `https://${shop}/products/${product.handle}?variant=${variant.id}` : undefined,
+        available: variant.inventory_quantity ?? 0
+      });
+    }
+
+    return data({ success: true, queued });
+
+  } catch (error) {
+    console.error("Failed to process products/update webhook:", error);
+    return data({ success: false, error: "internal_error" }, { status: 200 });
+  }
+};
@@ -369,6 +369,11 @@ export default function AppHome() {
               </Text>
               <InlineStack gap="200">
                 <Button url="/app/dashboard" variant="primary">Messages Dashboard</Button>
+                <Button url="/app/campaigns">Campaigns</Button>
+                <Button url="/app/inbox">Inbox</Button>
+                <Button url="/app/widgets">Widgets</Button>
+                <Button url="/app/media">Media</Button>
+                <Button url="/app/opt-outs">Opt-outs</Button>
                 <Button url="/app/plans">Plans & Usage</Button>
               </InlineStack>
             </BlockStack>
@@ -13,9 +13,12 @@ import {
   Box,
   Badge,
   Divider,
-  Checkbox
+  Checkbox,
+  Select,
+  ChoiceList
 } from "@shopify/polaris";
 import { useState, useEffect } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
 import { 
   getAutomation, 
@@ -26,11 +29,37 @@ import {
 } from "../services/automation/automation.service";
 import { 
   type AutomationType,
+  type AutoReplierSettings,
+  type AutoReplyMode,
+  type AutomationConditions,
+  type ConditionRule,
+  type ConditionRuleType,
   DEFAULT_DELAYS,
-  AUTOMATION_META 
+  AUTOMATION_META,
+  getAutoReplierSettings,
+  DEFAULT_AUTOMATION_CONDITIONS,
+  CONDITION_AUTOMATION_TYPES,
+  CONDITION_RULE_LABELS,
+  MEDIA_AUTOMATION_TYPES,
+  type RecoveryStep,
+  MAX_RECOVERY_STEPS,
+  DEFAULT_RECOVERY_DISCOUNT,
+  getAbandonedCheckoutSettings,
+  type OrderConfirmationSettings,
+  type InvoiceLayout,
+  getOrderConfirmationSettings
 } from "../services/automation/automation.constants";
-import { TEMPLATE_VARIABLES } from "../services/automation/template.service";
+import { getAutomationConditions } from "../services/automation/conditions.service";
+import { TEMPLATE_VARIABLES, SAMPLE_TEMPLATE_DATA, processTemplate, validateTemplate } from "../services/automation/template.service";
+import type { TemplatePreview } from "../services/automation/template-preview.service";
 import { queueMessage } from "../services/queue/message-queue.service";
+import { canSendMessages } from "../services/billing/billing.service";
+import { type RecoveryStepStats, getRecoveryStepStats } from "../services/recovery/recovery-sequence.service";
+import { type ConfirmationStats, getConfirmationStats } from "../services/cod/cod-confirmation.service";
+import { listMedia, isShopMedia } from "../services/media/media.service";
+import { type MediaAssetSummary, MEDIA_TYPES, formatFileSize } from "../services/media/media.constants";
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
 
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -44,11 +73,19 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
 
   try {
     // Ensure shop exists
-    await getOrCreateShop(shop);
+    const shopId = await getOrCreateShop(shop);
 
     // Get automation settings
     const automation = await getAutomation(shop, type);
     const meta = AUTOMATION_META[type];
+
+    const recoveryStats: RecoveryStepStats[] = type === 'abandoned_checkout'
+      ? await getRecoveryStepStats(shopId)
+      : [];
+    const confirmationStats: ConfirmationStats | null = type === 'order_confirmation'
+      ? await getConfirmationStats(shopId)
+      : null;
+    const media = MEDIA_AUTOMATION_TYPES.includes(type) ? await listMedia(shopId) : [];
     
     // These may fail if testPhone column doesn't exist
     let testPhone: string | null = null;
@@ -69,7 +106,10 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       meta,
       templateVariables: TEMPLATE_VARIABLES,
       testPhone,
-      isConnected
+      isConnected,
+      recoveryStats,
+      confirmationStats,
+      media
     });
   } catch (error) {
     console.error('Error in automation loader:', error);
@@ -84,12 +124,17 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         template: '',
         delayMinutes: 0,
         sendProductImages: false,
-        conditions: null
+        mediaId: null,
+        conditions: null,
+        settings: null
       },
       meta,
       templateVariables: TEMPLATE_VARIABLES,
       testPhone: null,
-      isConnected: false
+      isConnected: false,
+      recoveryStats: [] as RecoveryStepStats[],
+      confirmationStats: null as ConfirmationStats | null,
+      media: [] as MediaAssetSummary[]
     });
   }
 };
@@ -108,16 +153,98 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const delayMinutes = parseInt(formData.get("delayMinutes") as string) || 0;
     const adminPhone = formData.get("adminPhone") as string;
     const sendProductImages = formData.get("sendProductImages") === "true";
+    const mediaId = (formData.get("mediaId") as string) || null;
+    const settingsJson = formData.get("settings") as string | null;
+    const conditionsJson = formData.get("conditions") as string | null;
+
+    // Build conditions object if admin phone or rules provided
+    let conditions: AutomationConditions | null | undefined = adminPhone
+      ? { ...DEFAULT_AUTOMATION_CONDITIONS, adminPhone }
+      : undefined;
+    if (conditionsJson) {
+      try {
+        const { match, rules } = getAutomationConditions(JSON.parse(conditionsJson));
+        // Every rule removed and no admin phone - clear what was stored
+        conditions = rules.length > 0 || adminPhone
+          ? { match, rules, ...(adminPhone ? { adminPhone } : {}) }
+          : null;
+      } catch {
+        return data({ error: "Invalid automation conditions" }, { status: 400 });
+      }
+    }
+
+    if (mediaId && (!MEDIA_AUTOMATION_TYPES.includes(type) || !(await isShopMedia(await getOrCreateShop(shop), mediaId)))) {
+      return data({ error: "The attachment no longer exists" }, { status: 400 });
+    }
+
+    let settings: object | undefined;
+    if (settingsJson) {
+      try {
+        settings = JSON.parse(settingsJson);
+      } catch {
+        return data({ error: "Invalid automation settings" }, { status: 400 });
+      }
+    }
 
-    // Build conditions object if admin phone provided
-    const conditions = adminPhone ? { adminPhone } : undefined;
+    // An invoice goes out as a document with the message as its caption
+    const sendsInvoice = type === 'order_confirmation' && getOrderConfirmationSettings(settings).sendInvoice;
+    const validation = validateTemplate(template, { withMedia: sendProductImages || !!mediaId || sendsInvoice });
+    if (!validation.valid) {
+      return data({
+        error: "Fix the template errors before saving.",
+        validationErrors: validation.errors.map(issue => issue.message)
+      }, { status: 400 });
+    }
+
+    // Step 1 of the sequence always follows the template and delay above
+    if (type === 'abandoned_checkout' && settings) {
+      const sequence = getAbandonedCheckoutSettings({ template, delayMinutes, settings });
+      const stepErrors = sequence.steps.slice(1).flatMap((step, index) =>
+        validateTemplate(step.template).errors.map(issue => `Step ${index + 2}: ${issue.message}`)
+      );
+      if (stepErrors.length > 0) {
+        return data({ error: "Fix the sequence step errors before saving.", validationErrors: stepErrors }, { status: 400 });
+      }
+      settings = sequence;
+    }
+
+    if (type === 'auto_replier' && settings) {
+      const autoReplier = getAutoReplierSettings(settings);
+      const ruleErrors = autoReplier.keywordRules.flatMap((rule, index) =>
+        validateTemplate(rule.reply).errors.map(issue => `Keyword rule ${index + 1}: ${issue.message}`)
+      );
+      if (ruleErrors.length > 0) {
+        return data({ error: "Fix the keyword rule errors before saving.", validationErrors: ruleErrors }, { status: 400 });
+      }
+      settings = autoReplier;
+    }
+
+    if (type === 'order_confirmation' && settings) {
+      const confirmation = getOrderConfirmationSettings(settings);
+      const replyErrors = [
+        ['Reminder', confirmation.reminderTemplate],
+        ['Confirmed reply', confirmation.confirmedReply],
+        ['Cancelled reply', confirmation.cancelledReply]
+      ].flatMap(([label, text]) =>
+        validateTemplate(text).errors.map(issue => `${label}: ${issue.message}`)
+      );
+      if (replyErrors.length > 0) {
+        return data({ error: "Fix the confirmation message errors before saving.", validationErrors: replyErrors }, { status: 400 });
+      }
+      if (!HEX_COLOR.test(confirmation.invoice.accentColor)) {
+        return data({ error: "The invoice color must be a hex value like #25D366" }, { status: 400 });
+      }
+      settings = { ...confirmation, reminderMinutes: Math.max(0, Math.round(confirmation.reminderMinutes) || 0) };
+    }
 
     await updateAutomation(shop, type, {
       enabled,
       template,
       delayMinutes,
       sendProductImages,
-      conditions
+      mediaId,
+      conditions,
+      settings
     });
 
     return data({ success: true, message: "Settings saved!" });
@@ -137,6 +264,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const testPhone = await getTestPhone(shop);
     const connectionStatus = await getShopConnectionStatus(shop);
     const template = formData.get("template") as string;
+    const testMediaId = (formData.get("mediaId") as string) || '';
     
     // Validation: No test phone
     if (!testPhone) {
@@ -154,6 +282,15 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       });
     }
     
+    // Validation: Out of messages on the current plan
+    const quota = await canSendMessages(shop, 1);
+    if (!quota.allowed) {
+      return data({ 
+        testError: quota.reason,
+        testSuccess: false 
+      });
+    }
+    
     // Validation: Empty template
     if (!template || template.trim() === '') {
       return data({ 
@@ -162,61 +299,15 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       });
     }
     
-    // Comprehensive sample values for testing
-    const sampleValues = {
-      // Customer info
-      customer_name: 'Rahul Sharma',
-      first_name: 'Rahul',
-      last_name: 'Sharma',
-      phone: testPhone,
-      
-      // Shop info
-      shop_name: 'Your Store',
-      shopName: 'Your Store',
-      
-      // Order info
-      order_number: '#1234',
-      orderId: '1234',
-      order_total: '₹2,999.00',
-      order_date: new Date().toLocaleDateString('en-IN'),
-      order_url: 'https://yourstore.myshopify.com/orders/1234',
-      
-      // Products
-      product_list: '1x Premium T-Shirt (Size: L, Color: Blue)\n1x Cotton Pants (Size: 32)',
-      product_name: 'Premium T-Shirt',
-      product_url: 'https://yourstore.myshopify.com/products/premium-tshirt',
-      itemsXquantity: '2 items',
-      
-      // Fulfillment
-      tracking_number: 'AWB123456789',
-      trackingNumber: 'AWB123456789',
-      tracking_url: 'https://tracking.example.com/AWB123456789',
-      carrier_name: 'BlueDart',
-      estimated_delivery: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toLocaleDateString('en-IN'),
-      
-      // Checkout recovery
-      checkout_url: 'https://yourstore.myshopify.com/checkout/recover/abc123',
-      cart_total: '₹2,999.00',
-      cart_items: '2 items in your cart',
-      
-      // Payment/COD
-      payment_method: 'Cash on Delivery',
-      cod_amount: '₹2,999.00',
-    };
-    
-    // Replace all placeholders with sample values
-    let sampleMessage = template;
-    for (const [key, value] of Object.entries(sampleValues)) {
-      const regex = new RegExp(`\\{\\{${key}\\}\\}|\\{${key}\\}`, 'gi');
-      sampleMessage = sampleMessage.replace(regex, String(value));
-    }
-    
-    // Clean up any remaining conditionals
-    sampleMessage = sampleMessage
-      .replace(/\{\{#if.*?\}\}/g, '')
-      .replace(/\{\{\/if\}\}/g, '')
-      .replace(/\{\{.*?\}\}/g, '[sample]'); // Replace any remaining placeholders
+    // Render with the same engine as live sends, using sample order data
+    const sampleMessage = processTemplate(template, {
+      ...SAMPLE_TEMPLATE_DATA,
+      customerPhone: testPhone
+    });
     
+    // Test the attachment picked in the form, even before it's saved
+    const attachTestMedia = !!testMediaId && await isShopMedia(await getOrCreateShop(shop), testMediaId);
+
     try {
       // Queue the actual message for sending
       await queueMessage({
@@ -224,6 +315,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         phone: testPhone,
         message: sampleMessage,
         messageType: 'test_message',
+        mediaId: attachTestMedia ? testMediaId : undefined,
         orderId: 'TEST-' + Date.now(),
         orderNumber: '#TEST'
       });
@@ -244,11 +336,657 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   return data({ error: "Unknown action" }, { status: 400 });
 };
 
+const WEEKDAY_CHOICES = [
+  { label: 'Sunday', value: '0' },
+  { label: 'Monday', value: '1' },
+  { label: 'Tuesday', value: '2' },
+  { label: 'Wednesday', value: '3' },
+  { label: 'Thursday', value: '4' },
+  { label: 'Friday', value: '5' },
+  { label: 'Saturday', value: '6' },
+];
+
+const REPLY_MODE_OPTIONS = [
+  { label: 'Always reply', value: 'always' },
+  { label: 'Only outside business hours', value: 'outside_business_hours' },
+  { label: 'Only during business hours', value: 'during_business_hours' },
+];
+
+// Auto Replier rules editor - business hours, cooldown and keyword triggers
+function AutoReplierRulesCard({
+  settings,
+  onChange
+}: {
+  settings: AutoReplierSettings;
+  onChange: (settings: AutoReplierSettings) => void;
+}) {
+  const updateHours = (changes: Partial<AutoReplierSettings['businessHours']>) => {
+    onChange({ ...settings, businessHours: { ...settings.businessHours, ...changes } });
+  };
+
+  const updateRule = (index: number, changes: Partial<AutoReplierSettings['keywordRules'][number]>) => {
+    onChange({
+      ...settings,
+      keywordRules: settings.keywordRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">Reply Rules</Text>
+
+        <Select
+          label="When to reply"
+          options={REPLY_MODE_OPTIONS}
+          value={settings.replyMode}
+          onChange={(value) => onChange({ ...settings, replyMode: value as AutoReplyMode })}
+        />
+
+        {settings.replyMode !== 'always' && (
+          <BlockStack gap="300">
+            <InlineStack gap="300">
+              <TextField
+                label="Opens at"
+                type="time"
+                value={settings.businessHours.start}
+                onChange={(start) => updateHours({ start })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Closes at"
+                type="time"
+                value={settings.businessHours.end}
+                onChange={(end) => updateHours({ end })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Timezone"
+                value={settings.businessHours.timezone}
+                onChange={(timezone) => updateHours({ timezone })}
+                autoComplete="off"
+                helpText="IANA name, e.g. Asia/Kolkata"
+              />
+            </InlineStack>
+            <ChoiceList
+              title="Business days"
+              allowMultiple
+              choices={WEEKDAY_CHOICES}
+              selected={settings.businessHours.days.map(String)}
+              onChange={(days) => updateHours({ days: days.map(Number) })}
+            />
+          </BlockStack>
+        )}
+
+        <TextField
+          label="Cooldown per contact"
+          type="number"
+          value={String(settings.cooldownMinutes)}
+          onChange={(value) => onChange({ ...settings, cooldownMinutes: parseInt(value) || 0 })}
+          autoComplete="off"
+          suffix="minutes"
+          helpText="Don't auto-reply to the same customer again within this time."
+        />
+
+        <Divider />
+
+        <Text as="h3" variant="headingSm">Keyword Triggers</Text>
+        <Text as="p" variant="bodySm" tone="subdued">
+          When a message contains one of the keywords, the matching reply is sent instead of the template above.
+        </Text>
+
+        {settings.keywordRules.map((rule, index) => (
+          <BlockStack key={index} gap="200">
+            <TextField
+              label="Keywords"
+              value={rule.keywords}
+              onChange={(keywords) => updateRule(index, { keywords })}
+              autoComplete="off"
+              placeholder="price, cost, how much"
+              helpText="Comma-separated"
+            />
+            <TextField
+              label="Reply"
+              value={rule.reply}
+              onChange={(reply) => updateRule(index, { reply })}
+              multiline={3}
+              autoComplete="off"
+            />
+            <InlineStack>
+              <Button
+                variant="plain"
+                tone="critical"
+                onClick={() => onChange({
+                  ...settings,
+                  keywordRules: settings.keywordRules.filter((_, i) => i !== index)
+                })}
+              >
+                Remove trigger
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        ))}
+
+        <InlineStack>
+          <Button onClick={() => onChange({
+            ...settings,
+            keywordRules: [...settings.keywordRules, { keywords: '', reply: '' }]
+          })}>
+            Add keyword trigger
+          </Button>
+        </InlineStack>
+
+        <Checkbox
+          label="Only reply when a keyword matches"
+          checked={settings.keywordsOnly}
+          onChange={(keywordsOnly) => onChange({ ...settings, keywordsOnly })}
+        />
+      </BlockStack>
+    </Card>
+  );
+}
+
+const RULE_TYPE_OPTIONS = (Object.keys(CONDITION_RULE_LABELS) as ConditionRuleType[]).map(value => ({
+  label: CONDITION_RULE_LABELS[value],
+  value
+}));
+
+const NEW_RULES: Record<ConditionRuleType, ConditionRule> = {
+  order_total: { type: 'order_total' },
+  country: { type: 'country', operator: 'in', countries: [] },
+  tag: { type: 'tag', operator: 'any', tags: [] },
+  payment: { type: 'payment', method: 'cod' },
+  product: { type: 'product', operator: 'any', products: [] },
+  collection: { type: 'collection', operator: 'any', collections: [] },
+  customer: { type: 'customer', value: 'first_time' },
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trimStart());
+
+// Rule builder for Automation.conditions
+function AutomationConditionsCard({
+  conditions,
+  onChange
+}: {
+  conditions: AutomationConditions;
+  onChange: (conditions: AutomationConditions) => void;
+}) {
+  const shopify = useAppBridge();
+
+  const updateRule = (index: number, rule: ConditionRule) => {
+    onChange({ ...conditions, rules: conditions.rules.map((r, i) => i === index ? rule : r) });
+  };
+
+  const pickResources = async (index: number, rule: Extract<ConditionRule, { type: 'product' | 'collection' }>) => {
+    const current = rule.type === 'product' ? rule.products : rule.collections;
+    const selection = await shopify.resourcePicker({
+      type: rule.type,
+      multiple: true,
+      selectionIds: current.map(({ id }) => ({ id }))
+    });
+    if (!selection) {
+      return;
+    }
+    const picked = selection.map(({ id, title }) => ({ id, title }));
+    updateRule(index, rule.type === 'product' ? { ...rule, products: picked } : { ...rule, collections: picked });
+  };
+
+  const renderRuleFields = (rule: ConditionRule, index: number) => {
+    switch (rule.type) {
+      case 'order_total':
+        return (
+          <InlineStack gap="300" wrap={false}>
+            <TextField
+              label="Minimum"
+              type="number"
+              value={rule.min !== undefined ? String(rule.min) : ''}
+              onChange={(value) => updateRule(index, { ...rule, min: value === '' ? undefined : parseFloat(value) })}
+              autoComplete="off"
+            />
+            <TextField
+              label="Maximum"
+              type="number"
+              value={rule.max !== undefined ? String(rule.max) : ''}
+              onChange={(value) => updateRule(index, { ...rule, max: value === '' ? undefined : parseFloat(value) })}
+              autoComplete="off"
+            />
+          </InlineStack>
+        );
+      case 'country':
+        return (
+          <InlineStack gap="300" wrap={false}>
+            <Select
+              label="Operator"
+              options={[{ label: 'Is one of', value: 'in' }, { label: 'Is not one of', value: 'not_in' }]}
+              value={rule.operator}
+              onChange={(operator) => updateRule(index, { ...rule, operator: operator as 'in' | 'not_in' })}
+            />
+            <TextField
+              label="Country codes"
+              value={rule.countries.join(',')}
+              onChange={(value) => updateRule(index, { ...rule, countries: splitList(value.toUpperCase()) })}
+              autoComplete="off"
+              placeholder="IN, AE, US"
+            />
+          </InlineStack>
+        );
+      case 'tag':
+        return (
+          <InlineStack gap="300" wrap={false}>
+            <Select
+              label="Operator"
+              options={[{ label: 'Has any of', value: 'any' }, { label: 'Has none of', value: 'none' }]}
+              value={rule.operator}
+              onChange={(operator) => updateRule(index, { ...rule, operator: operator as 'any' | 'none' })}
+            />
+            <TextField
+              label="Tags"
+              value={rule.tags.join(',')}
+              onChange={(value) => updateRule(index, { ...rule, tags: splitList(value) })}
+              autoComplete="off"
+              placeholder="vip, wholesale"
+            />
+          </InlineStack>
+        );
+      case 'payment':
+        return (
+          <Select
+            label="Payment"
+            options={[{ label: 'Cash on Delivery', value: 'cod' }, { label: 'Prepaid', value: 'prepaid' }]}
+            value={rule.method}
+            onChange={(method) => updateRule(index, { ...rule, method: method as 'cod' | 'prepaid' })}
+          />
+        );
+      case 'product':
+      case 'collection': {
+        const selected = rule.type === 'product' ? rule.products : rule.collections;
+        return (
+          <BlockStack gap="200">
+            <InlineStack gap="300" blockAlign="end">
+              <Select
+                label="Operator"
+                options={[{ label: 'Contains any of', value: 'any' }, { label: 'Contains none of', value: 'none' }]}
+                value={rule.operator}
+                onChange={(operator) => updateRule(index, { ...rule, operator: operator as 'any' | 'none' })}
+              />
+              <Button onClick={() => pickResources(index, rule)}>
+                {rule.type === 'product' ? 'Select products' : 'Select collections'}
+              </Button>
+            </InlineStack>
+            <Text as="p" variant="bodySm" tone="subdued">
+              {selected.length > 0 ? selected.map(({ title }) => title).join(', ') : 'Nothing selected'}
+            </Text>
+          </BlockStack>
+        );
+      }
+      case 'customer':
+        return (
+          <Select
+            label="Customer"
+            options={[{ label: 'First-time customer', value: 'first_time' }, { label: 'Returning customer', value: 'returning' }]}
+            value={rule.value}
+            onChange={(value) => updateRule(index, { ...rule, value: value as 'first_time' | 'returning' })}
+          />
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="100">
+          <Text as="h2" variant="headingMd">Conditions</Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Only send this message when the order matches these rules. Leave empty to send for every order.
+          </Text>
+        </BlockStack>
+
+        {conditions.rules.length > 1 && (
+          <Select
+            label="Send when"
+            options={[{ label: 'All rules match', value: 'all' }, { label: 'Any rule matches', value: 'any' }]}
+            value={conditions.match}
+            onChange={(match) => onChange({ ...conditions, match: match as AutomationConditions['match'] })}
+          />
+        )}
+
+        {conditions.rules.map((rule, index) => (
+          <BlockStack key={index} gap="200">
+            <Divider />
+            <Select
+              label="Rule"
+              options={RULE_TYPE_OPTIONS}
+              value={rule.type}
+              onChange={(ruleType) => updateRule(index, NEW_RULES[ruleType as ConditionRuleType])}
+            />
+            {renderRuleFields(rule, index)}
+            <InlineStack>
+              <Button
+                variant="plain"
+                tone="critical"
+                onClick={() => onChange({ ...conditions, rules: conditions.rules.filter((_, i) => i !== index) })}
+              >
+                Remove rule
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        ))}
+
+        <InlineStack>
+          <Button onClick={() => onChange({ ...conditions, rules: [...conditions.rules, NEW_RULES.order_total] })}>
+            Add rule
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
+
+// Follow-up steps and per-step discounts for abandoned_checkout
+function RecoverySequenceCard({
+  steps,
+  stats,
+  onChange
+}: {
+  steps: RecoveryStep[];
+  stats: RecoveryStepStats[];
+  onChange: (steps: RecoveryStep[]) => void;
+}) {
+  const updateStep = (index: number, changes: Partial<RecoveryStep>) => {
+    onChange(steps.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const addStep = () => {
+    const last = steps[steps.length - 1];
+    onChange([...steps, { delayMinutes: (last?.delayMinutes || 0) + 24 * 60, template: '', discount: null }]);
+  };
+
+  const renderDiscount = (step: RecoveryStep, index: number) => (
+    <BlockStack gap="200">
+      <Checkbox
+        label="Include a single-use discount code"
+        helpText="Created in Shopify when the step is sent. Use {{discount_code}} in the message."
+        checked={Boolean(step.discount)}
+        onChange={(checked) => updateStep(index, { discount: checked ? { ...DEFAULT_RECOVERY_DISCOUNT } : null })}
+      />
+      {step.discount && (
+        <InlineStack gap="300" wrap={false}>
+          <Select
+            label="Discount type"
+            options={[{ label: 'Percentage', value: 'percentage' }, { label: 'Fixed amount', value: 'fixed_amount' }]}
+            value={step.discount.type}
+            onChange={(value) => updateStep(index, { discount: { ...step.discount!, type: value as 'percentage' | 'fixed_amount' } })}
+          />
+          <TextField
+            label="Value"
+            type="number"
+            value={String(step.discount.value)}
+            onChange={(value) => updateStep(index, { discount: { ...step.discount!, value: parseFloat(value) || 0 } })}
+            suffix={step.discount.type === 'percentage' ? '%' : undefined}
+            autoComplete="off"
+          />
+          <TextField
+            label="Expires after"
+            type="number"
+            value={String(step.discount.expiresInHours)}
+            onChange={(value) => updateStep(index, { discount: { ...step.discount!, expiresInHours: parseInt(value) || 1 } })}
+            suffix="hours"
+            autoComplete="off"
+          />
+        </InlineStack>
+      )}
+    </BlockStack>
+  );
+
+  const renderStats = (index: number) => {
+    const row = stats.find(s => s.step === index);
+    if (!row) {
+      return null;
+    }
+    return (
+      <Text as="p" variant="bodySm" tone="subdued">
+        Sent {row.sent} · Recovered {row.recovered} · Revenue {row.revenue.toFixed(2)}
+      </Text>
+    );
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="100">
+          <Text as="h2" variant="headingMd">Recovery Sequence</Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Send up to {MAX_RECOVERY_STEPS} reminders per checkout. The sequence stops as soon as the checkout is
+            completed or the customer replies on WhatsApp.
+          </Text>
+        </BlockStack>
+
+        <BlockStack gap="200">
+          <Text as="h3" variant="headingSm">Step 1 · uses the message template and delay below</Text>
+          {renderStats(0)}
+          {renderDiscount(steps[0], 0)}
+        </BlockStack>
+
+        {steps.slice(1).map((step, offset) => {
+          const index = offset + 1;
+          return (
+            <BlockStack key={index} gap="200">
+              <Divider />
+              <Text as="h3" variant="headingSm">Step {index + 1}</Text>
+              {renderStats(index)}
+              <TextField
+                label="Send after"
+                type="number"
+                value={String(Math.round(step.delayMinutes / 60))}
+                onChange={(value) => updateStep(index, { delayMinutes: (parseInt(value) || 0) * 60 })}
+                suffix="hours"
+                helpText="Counted from when the checkout was abandoned."
+                autoComplete="off"
+              />
+              <TextField
+                label="Message"
+                value={step.template}
+                onChange={(template) => updateStep(index, { template })}
+                multiline={4}
+                autoComplete="off"
+              />
+              {renderDiscount(step, index)}
+              <InlineStack>
+                <Button
+                  variant="plain"
+                  tone="critical"
+                  onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                >
+                  Remove step
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          );
+        })}
+
+        {steps.length < MAX_RECOVERY_STEPS && (
+          <InlineStack>
+            <Button onClick={addStep}>Add follow-up step</Button>
+          </InlineStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+function OrderConfirmationCard({
+  settings,
+  stats,
+  onChange
+}: {
+  settings: OrderConfirmationSettings;
+  stats: ConfirmationStats | null;
+  onChange: (settings: OrderConfirmationSettings) => void;
+}) {
+  const update = (changes: Partial<OrderConfirmationSettings>) => onChange({ ...settings, ...changes });
+  const updateInvoice = (changes: Partial<InvoiceLayout>) => update({ invoice: { ...settings.invoice, ...changes } });
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="100">
+          <Text as="h2" variant="headingMd">Order Confirmation Replies</Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Ask customers to reply 1 to confirm or 2 to cancel. Their answer tags the order, adds a note
+            and can cancel it in Shopify, which cuts return-to-origin losses on Cash on Delivery orders.
+          </Text>
+          {stats && (
+            <Text as="p" variant="bodySm" tone="subdued">
+              Confirmed {stats.confirmed} · Cancelled {stats.cancelled} · Awaiting reply {stats.pending}
+            </Text>
+          )}
+        </BlockStack>
+
+        <Checkbox
+          label="Ask customers to confirm their order"
+          checked={settings.requestConfirmation}
+          onChange={(requestConfirmation) => update({ requestConfirmation })}
+        />
+
+        {settings.requestConfirmation && (
+          <BlockStack gap="300">
+            <Checkbox
+              label="Only Cash on Delivery orders"
+              helpText="Prepaid orders get the confirmation message without the reply options."
+              checked={settings.codOnly}
+              onChange={(codOnly) => update({ codOnly })}
+            />
+            <TextField
+              label="Reply options"
+              value={settings.optionsText}
+              onChange={(optionsText) => update({ optionsText })}
+              helpText="Added to the end of the confirmation message."
+              autoComplete="off"
+            />
+            <InlineStack gap="300" wrap={false}>
+              <TextField
+                label="Tag confirmed orders"
+                value={settings.confirmTag}
+                onChange={(confirmTag) => update({ confirmTag })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Tag cancelled orders"
+                value={settings.cancelTag}
+                onChange={(cancelTag) => update({ cancelTag })}
+                autoComplete="off"
+              />
+            </InlineStack>
+            <Checkbox
+              label="Cancel the order in Shopify when the customer replies 2"
+              helpText="Items are restocked. No refund is issued, since COD orders are unpaid."
+              checked={settings.cancelOrder}
+              onChange={(cancelOrder) => update({ cancelOrder })}
+            />
+
+            <Divider />
+            <TextField
+              label="Send a reminder after"
+              type="number"
+              value={String(Math.round(settings.reminderMinutes / 60))}
+              onChange={(value) => update({ reminderMinutes: (parseInt(value) || 0) * 60 })}
+              suffix="hours"
+              helpText="Set to 0 to skip the reminder."
+              autoComplete="off"
+            />
+            {settings.reminderMinutes > 0 && (
+              <TextField
+                label="Reminder message"
+                value={settings.reminderTemplate}
+                onChange={(reminderTemplate) => update({ reminderTemplate })}
+                multiline={3}
+                autoComplete="off"
+              />
+            )}
+            <TextField
+              label="Reply when confirmed"
+              value={settings.confirmedReply}
+              onChange={(confirmedReply) => update({ confirmedReply })}
+              multiline={2}
+              helpText="Leave empty to send nothing."
+              autoComplete="off"
+            />
+            <TextField
+              label="Reply when cancelled"
+              value={settings.cancelledReply}
+              onChange={(cancelledReply) => update({ cancelledReply })}
+              multiline={2}
+              helpText="Leave empty to send nothing."
+              autoComplete="off"
+            />
+          </BlockStack>
+        )}
+
+        <Divider />
+        <Checkbox
+          label="Send a PDF invoice"
+          helpText="Built from the order with its line items, taxes and totals, and sent as a document with the confirmation message as its caption. It replaces the attachment, if one is selected."
+          checked={settings.sendInvoice}
+          onChange={(sendInvoice) => update({ sendInvoice })}
+        />
+
+        {settings.sendInvoice && (
+          <BlockStack gap="300">
+            <InlineStack gap="300" wrap={false}>
+              <TextField
+                label="Invoice title"
+                value={settings.invoice.title}
+                onChange={(title) => updateInvoice({ title })}
+                autoComplete="off"
+              />
+              <TextField
+                label="Accent color"
+                value={settings.invoice.accentColor}
+                onChange={(accentColor) => updateInvoice({ accentColor })}
+                error={HEX_COLOR.test(settings.invoice.accentColor) ? undefined : 'Use a hex color like #25D366'}
+                autoComplete="off"
+              />
+            </InlineStack>
+            <Checkbox
+              label="Show the shop logo"
+              helpText="Uses the logo from Settings > Brand in Shopify. Without one, the shop name is shown instead."
+              checked={settings.invoice.showLogo}
+              onChange={(showLogo) => updateInvoice({ showLogo })}
+            />
+            <TextField
+              label="Seller details"
+              value={settings.invoice.sellerDetails}
+              onChange={(sellerDetails) => updateInvoice({ sellerDetails })}
+              multiline={3}
+              helpText="Printed under the logo - e.g. business address and tax registration number."
+              autoComplete="off"
+            />
+            <Checkbox
+              label="List each tax separately"
+              helpText="Otherwise taxes are shown as a single total."
+              checked={settings.invoice.showTaxBreakdown}
+              onChange={(showTaxBreakdown) => updateInvoice({ showTaxBreakdown })}
+            />
+            <TextField
+              label="Footer note"
+              value={settings.invoice.footerNote}
+              onChange={(footerNote) => updateInvoice({ footerNote })}
+              autoComplete="off"
+            />
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
 export default function AutomationSettingsPage() {
-  const { type, automation, meta, templateVariables, testPhone, isConnected } = useLoaderData<typeof loader>();
+  const { type, automation, meta, templateVariables, testPhone, isConnected, recoveryStats, confirmationStats, media } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<{ 
     success?: boolean; 
     message?: string; 
+    error?: string;
+    validationErrors?: string[];
     toggled?: boolean; 
     testSuccess?: boolean;
     testError?: string;
@@ -264,15 +1002,41 @@ export default function AutomationSettingsPage() {
   const [sendProductImages, setSendProductImages] = useState(
     (automation as { sendProductImages?: boolean } | null)?.sendProductImages || false
   );
+  const [mediaId, setMediaId] = useState(
+    (automation as { mediaId?: string | null } | null)?.mediaId || ''
+  );
+
+  const [conditions, setConditions] = useState<AutomationConditions>(() => {
+    const { match, rules } = getAutomationConditions(automation?.conditions);
+    return { match, rules };
+  });
+  const [recoverySteps, setRecoverySteps] = useState<RecoveryStep[]>(() =>
+    getAbandonedCheckoutSettings({
+      template: automation?.template || '',
+      delayMinutes: automation?.delayMinutes ?? DEFAULT_DELAYS.abandoned_checkout,
+      settings: automation?.settings
+    }).steps
+  );
+  const [confirmationSettings, setConfirmationSettings] = useState<OrderConfirmationSettings>(() =>
+    getOrderConfirmationSettings(automation?.settings)
+  );
+  const [autoReplierSettings, setAutoReplierSettings] = useState<AutoReplierSettings>(() =>
+    getAutoReplierSettings(automation?.settings)
+  );
 
   const isLoading = fetcher.state === "submitting";
   const isComingSoon = meta.comingSoon;
+  const showAutoReplierRules = type === 'auto_replier';
+  const showConditions = CONDITION_AUTOMATION_TYPES.includes(type);
+  const showRecoverySequence = type === 'abandoned_checkout';
+  const showOrderConfirmation = type === 'order_confirmation';
   // Show delay for all automations (user requested)
   const showDelay = !isComingSoon;
   const showAdminPhone = type === 'admin_notification';
   
   // Show product images option for customer-facing automations
   const showProductImages = type === 'order_confirmation' || type === 'order_fulfillment' || type === 'abandoned_checkout';
+  const showAttachment = !isComingSoon && MEDIA_AUTOMATION_TYPES.includes(type);
 
   // Update local state when toggle completes
   useEffect(() => {
@@ -288,9 +1052,26 @@ export default function AutomationSettingsPage() {
     );
   };
 
+  // Validate and re-render the preview shortly after the merchant stops typing
+  const previewFetcher = useFetcher<TemplatePreview>();
+  const submitPreview = previewFetcher.submit;
+  useEffect(() => {
+    if (isComingSoon) {
+      return;
+    }
+    const timeout = setTimeout(() => {
+      submitPreview(
+        { template, sendProductImages: String(sendProductImages || !!mediaId) },
+        { method: "POST", action: "/app/template-preview" }
+      );
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [template, sendProductImages, mediaId, isComingSoon, submitPreview]);
+  const preview = previewFetcher.data;
+
   const handleTest = () => {
     fetcher.submit(
-      { intent: "test", template },
+      { intent: "test", template, mediaId },
       { method: "POST" }
     );
   };
@@ -418,6 +1199,30 @@ export default function AutomationSettingsPage() {
                 </Card>
               )}
 
+              {showAttachment && (
+                <Card>
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">Attachment</Text>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Send an image, document, video or audio file with every message. The message becomes its caption.
+                    </Text>
+                    <Select
+                      label="File"
+                      options={[
+                        { label: 'No attachment', value: '' },
+                        ...media.map(asset => ({
+                          label: `${asset.fileName} (${MEDIA_TYPES[asset.mediaType]?.label || asset.mediaType}, ${formatFileSize(asset.sizeBytes)})`,
+                          value: asset.id
+                        }))
+                      ]}
+                      onChange={setMediaId}
+                      value={mediaId}
+                      helpText="Upload files on the Media page."
+                    />
+                  </BlockStack>
+                </Card>
+              )}
+
               {/* Delay Settings Card */}
               {showDelay && (
                 <Card>
@@ -446,13 +1251,60 @@ export default function AutomationSettingsPage() {
                 </Card>
               )}
 
+              {/* Auto Replier Rules */}
+              {showAutoReplierRules && (
+                <AutoReplierRulesCard
+                  settings={autoReplierSettings}
+                  onChange={setAutoReplierSettings}
+                />
+              )}
+
+              {/* Abandoned Checkout Sequence */}
+              {showRecoverySequence && (
+                <RecoverySequenceCard
+                  steps={recoverySteps}
+                  stats={recoveryStats}
+                  onChange={setRecoverySteps}
+                />
+              )}
+
+              {/* COD Confirmation */}
+              {showOrderConfirmation && (
+                <OrderConfirmationCard
+                  settings={confirmationSettings}
+                  stats={confirmationStats}
+                  onChange={setConfirmationSettings}
+                />
+              )}
+
+              {/* Conditions */}
+              {showConditions && (
+                <AutomationConditionsCard
+                  conditions={conditions}
+                  onChange={setConditions}
+                />
+              )}
+
               {/* Settings Form */}
               <Card>
                 <fetcher.Form method="post">
                   <input type="hidden" name="intent" value="save" />
                   <input type="hidden" name="enabled" value={String(enabled)} />
                   <input type="hidden" name="sendProductImages" value={String(sendProductImages)} />
+                  <input type="hidden" name="mediaId" value={mediaId} />
                   <input type="hidden" name="delayMinutes" value={delayMinutes} />
+                  {showAutoReplierRules && (
+                    <input type="hidden" name="settings" value={JSON.stringify(autoReplierSettings)} />
+                  )}
+                  {showConditions && (
+                    <input type="hidden" name="conditions" value={JSON.stringify(conditions)} />
+                  )}
+                  {showRecoverySequence && (
+                    <input type="hidden" name="settings" value={JSON.stringify({ steps: recoverySteps })} />
+                  )}
+                  {showOrderConfirmation && (
+                    <input type="hidden" name="settings" value={JSON.stringify(confirmationSettings)} />
+                  )}
                   
                   <BlockStack gap="400">
                     <Text as="h2" variant="headingMd">Message Template</Text>
@@ -480,13 +1332,64 @@ export default function AutomationSettingsPage() {
                       />
                     )}
 
-                    <Button submit variant="primary" loading={isLoading && fetcher.formData?.get('intent') === 'save'}>
+                    {fetcher.data?.error && (
+                      <Banner tone="critical">
+                        <p>{fetcher.data.error}</p>
+                        {fetcher.data.validationErrors && (
+                          <ul>
+                            {fetcher.data.validationErrors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </Banner>
+                    )}
+
+                    <Button
+                      submit
+                      variant="primary"
+                      loading={isLoading && fetcher.formData?.get('intent') === 'save'}
+                      disabled={preview ? !preview.validation.valid : false}
+                    >
                       Save Settings
                     </Button>
                   </BlockStack>
                 </fetcher.Form>
               </Card>
 
+              {/* Live Preview */}
+              {preview && (
+                <Card>
+                  <BlockStack gap="300">
+                    <InlineStack align="space-between" blockAlign="center">
+                      <Text as="h2" variant="headingMd">Preview</Text>
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {preview.source === 'order' ? `Using order ${preview.orderName}` : 'Using sample data'} · {preview.length} characters
+                      </Text>
+                    </InlineStack>
+
+                    {preview.validation.errors.length > 0 && (
+                      <Banner tone="critical" title="Template errors">
+                        <ul>
+                          {preview.validation.errors.map(issue => <li key={issue.message}>{issue.message}</li>)}
+                        </ul>
+                      </Banner>
+                    )}
+                    {preview.validation.warnings.length > 0 && (
+                      <Banner tone="warning">
+                        <ul>
+                          {preview.validation.warnings.map(issue => <li key={issue.message}>{issue.message}</li>)}
+                        </ul>
+                      </Banner>
+                    )}
+
+                    <Box padding="300" background="bg-surface-secondary" borderRadius="200">
+                      <Text as="p" variant="bodyMd">
+                        <span style={{ whiteSpace: 'pre-wrap' }}>{preview.message}</span>
+                      </Text>
+                    </Box>
+                  </BlockStack>
+                </Card>
+              )}
+
               {/* Available Variables */}
               <Card>
                 <BlockStack gap="300">
@@ -494,6 +1397,11 @@ export default function AutomationSettingsPage() {
                   <Text as="p" variant="bodySm" tone="subdued">
                     Use these variables in your templates. They will be replaced with actual values when the message is sent.
                   </Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Add filters like <code>{'{{customer_name | uppercase}}'}</code>, <code>{'{{customer_name | default:"there"}}'}</code>,{' '}
+                    <code>{'{{order_date | date:"long"}}'}</code> or <code>{'{{price | currency}}'}</code>, and branch with{' '}
+                    <code>{'{{#if tracking_url}}...{{else}}...{{/if}}'}</code>.
+                  </Text>
                   
                   <Divider />
                   
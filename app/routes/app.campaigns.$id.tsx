@@ -0,0 +1,497 @@
+import { useLoaderData, useRevalidator, useFetcher, useNavigate, data, redirect } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Banner,
+  ProgressBar,
+  DataTable,
+  Pagination,
+  Select,
+  Button
+} from "@shopify/polaris";
+import { useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import { getOrCreateShop } from "../services/automation/automation.service";
+import { getCampaign, getCampaignRecipients } from "../services/campaign/campaign.service";
+import {
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+  deleteCampaign
+} from "../services/campaign/campaign-lifecycle.service";
+import { getVariantResults, chooseWinner } from "../services/campaign/campaign-ab-test.service";
+import { getMediaAsset } from "../services/media/media.service";
+import { canSendMessages } from "../services/billing/billing.service";
+import { MEDIA_TYPES, formatFileSize } from "../services/media/media.constants";
+import {
+  CONSENT_MODE_OPTIONS,
+  EXCLUSION_LABELS,
+  CAMPAIGN_STATUS_META,
+  DELETABLE_CAMPAIGN_STATUSES,
+  AB_TEST_METRIC_OPTIONS,
+  canTransition
+} from "../services/campaign/campaign.constants";
+import type { AudienceExclusions, CampaignStatus } from "../services/campaign/campaign.constants";
+
+// Refresh interval while the campaign is still moving
+const REFRESH_MS = 5000;
+
+const RECIPIENTS_PAGE_SIZE = 50;
+
+const RECIPIENT_STATUS_OPTIONS = [
+  { label: 'All recipients', value: '' },
+  { label: 'Pending', value: 'pending' },
+  { label: 'Waiting for A/B test', value: 'held' },
+  { label: 'Sending', value: 'processing' },
+  { label: 'Sent', value: 'sent' },
+  { label: 'Failed', value: 'failed' },
+  { label: 'Opted out', value: 'suppressed' },
+  { label: 'Cancelled', value: 'cancelled' }
+];
+
+const RECIPIENT_STATUS_BADGES: Record<string, { label: string; tone?: 'info' | 'success' | 'attention' | 'critical' }> = {
+  pending: { label: 'Pending' },
+  held: { label: 'Waiting for A/B test', tone: 'info' },
+  processing: { label: 'Sending', tone: 'info' },
+  sent: { label: 'Sent', tone: 'success' },
+  failed: { label: 'Failed', tone: 'critical' },
+  suppressed: { label: 'Opted out', tone: 'attention' },
+  cancelled: { label: 'Cancelled' }
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const campaign = await getCampaign(shopId, params.id || '');
+  if (!campaign) {
+    throw new Response("Campaign not found", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1);
+  const recipientStatus = url.searchParams.get('status') || '';
+  const [recipients, variantResults, attachment, quota] = await Promise.all([
+    getCampaignRecipients(campaign.id, {
+      page,
+      pageSize: RECIPIENTS_PAGE_SIZE,
+      status: recipientStatus || undefined
+    }),
+    campaign.abTestPercent !== null ? getVariantResults(campaign.id) : Promise.resolve([]),
+    campaign.mediaId ? getMediaAsset(shopId, campaign.mediaId) : Promise.resolve(null),
+    canSendMessages(session.shop, 1)
+  ]);
+
+  return data({
+    page,
+    recipientStatus,
+    totalRecipientRows: recipients.total,
+    recipients: recipients.rows.map(row => ({
+      id: row.id,
+      phone: row.recipientPhone,
+      name: row.recipientName,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.lastError,
+      sentAt: row.sentAt?.toISOString() || null
+    })),
+    variantResults,
+    attachment,
+    // Campaigns pause themselves when the plan's messages run out
+    quotaError: quota.allowed ? null : quota.reason || null,
+    campaign: {
+      id: campaign.id,
+      name: campaign.name,
+      message: campaign.message,
+      status: campaign.status,
+      consentMode: campaign.consentMode,
+      consentOverrideReason: campaign.consentOverrideReason,
+      consentOverrideBy: campaign.consentOverrideBy,
+      consentOverrideAt: campaign.consentOverrideAt?.toISOString() || null,
+      audienceExclusions: campaign.audienceExclusions as AudienceExclusions | null,
+      audienceTotal: campaign.audienceTotal,
+      audienceProcessed: campaign.audienceProcessed,
+      audienceError: campaign.audienceError,
+      totalRecipients: campaign.totalRecipients,
+      sentCount: campaign.sentCount,
+      failedCount: campaign.failedCount,
+      scheduledAt: campaign.scheduledAt?.toISOString() || null,
+      localSendTime: campaign.localSendTime,
+      timeZone: campaign.timeZone,
+      sendInRecipientTimeZone: campaign.sendInRecipientTimeZone,
+      quietHoursStart: campaign.quietHoursStart,
+      quietHoursEnd: campaign.quietHoursEnd,
+      abTestPercent: campaign.abTestPercent,
+      abTestMetric: campaign.abTestMetric,
+      abTestAutoWinner: campaign.abTestAutoWinner,
+      abTestEndsAt: campaign.abTestEndsAt?.toISOString() || null,
+      winnerVariantId: campaign.winnerVariantId,
+      winnerChosenAt: campaign.winnerChosenAt?.toISOString() || null,
+      createdAt: campaign.createdAt.toISOString(),
+      completedAt: campaign.completedAt?.toISOString() || null
+    }
+  });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+  const campaignId = params.id || '';
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  switch (intent) {
+    case "pause":
+      return data(await pauseCampaign(shopId, campaignId));
+    case "resume":
+      return data(await resumeCampaign(shopId, campaignId));
+    case "cancel":
+      return data(await cancelCampaign(shopId, campaignId));
+    case "chooseWinner":
+      return data(await chooseWinner(shopId, campaignId, (formData.get("variantId") as string) || ''));
+    case "delete": {
+      const result = await deleteCampaign(shopId, campaignId);
+      return result.success ? redirect("/app/campaigns") : data(result);
+    }
+    default:
+      return data({ success: false, error: "Unknown action" }, { status: 400 });
+  }
+};
+
+const ACTIVE_STATUSES: CampaignStatus[] = ['building', 'scheduled', 'processing'];
+
+export default function CampaignPage() {
+  const { campaign, recipients, page, recipientStatus, totalRecipientRows, variantResults, attachment, quotaError } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const navigate = useNavigate();
+  const revalidator = useRevalidator();
+  const isActive = ACTIVE_STATUSES.includes(campaign.status as CampaignStatus);
+
+  // Keep progress fresh until the campaign settles
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const interval = setInterval(() => {
+      if (revalidator.state === "idle") {
+        revalidator.revalidate();
+      }
+    }, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isActive, revalidator]);
+
+  const formatDate = (isoString: string) => new Date(isoString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+  // Wall-clock "YYYY-MM-DDTHH:mm" as entered - formatted without shifting zones
+  const formatLocalTime = (local: string) => new Date(`${local}:00Z`).toLocaleString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+  const status = campaign.status as CampaignStatus;
+  const badge = CAMPAIGN_STATUS_META[status] || { label: campaign.status };
+  const isBusy = fetcher.state !== "idle";
+  const runAction = (intent: string) => fetcher.submit({ intent }, { method: "post" });
+
+  const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+  const formatMoney = (amount: number) => amount.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+  // Winners can be picked while the rest of the audience is still waiting
+  const canPickWinner = !campaign.winnerVariantId && ['scheduled', 'processing', 'paused'].includes(status);
+  const winner = variantResults.find(result => result.variantId === campaign.winnerVariantId);
+  const metricLabel = AB_TEST_METRIC_OPTIONS.find(option => option.value === campaign.abTestMetric)?.label || 'Click-through rate';
+  const pickWinner = (variantId: string, label: string) => {
+    if (confirm(`Send variant ${label} to everyone outside the test group?`)) {
+      fetcher.submit({ intent: 'chooseWinner', variantId }, { method: "post" });
+    }
+  };
+
+  const variantRows = variantResults.map(result => [
+    `${result.label}${result.variantId === campaign.winnerVariantId ? ' (winner)' : ''}`,
+    result.sent.toLocaleString(),
+    formatRate(result.readRate),
+    formatRate(result.clickRate),
+    result.orders.toLocaleString(),
+    formatMoney(result.revenue),
+    canPickWinner ? (
+      <Button key={`${result.variantId}-pick`} size="slim" disabled={isBusy} onClick={() => pickWinner(result.variantId, result.label)}>
+        Send to the rest
+      </Button>
+    ) : ''
+  ]);
+
+  let testStatus: string;
+  if (winner) {
+    testStatus = `Variant ${winner.label} won${campaign.winnerChosenAt ? ` on ${formatDate(campaign.winnerChosenAt)}` : ''} and goes to the rest of the audience.`;
+  } else if (!campaign.abTestEndsAt) {
+    testStatus = `${campaign.abTestPercent}% of recipients are split between the variants once the audience is ready.`;
+  } else if (new Date(campaign.abTestEndsAt) > new Date()) {
+    testStatus = `Testing until ${formatDate(campaign.abTestEndsAt)}. ${campaign.abTestAutoWinner
+      ? `The variant with the best ${metricLabel.toLowerCase()} is then sent to the rest.`
+      : 'Pick a winner to send it to the rest.'}`;
+  } else {
+    testStatus = campaign.abTestAutoWinner
+      ? 'The test has ended - the winner is being picked.'
+      : 'The test has ended. Pick a winner to send it to the rest of the audience.';
+  }
+
+  const secondaryActions = [
+    ...(canTransition(status, 'paused') ? [{ content: 'Pause', onAction: () => runAction('pause'), disabled: isBusy }] : []),
+    ...(status === 'paused' ? [{ content: 'Resume', onAction: () => runAction('resume'), disabled: isBusy }] : []),
+    ...(canTransition(status, 'cancelled') ? [{
+      content: 'Cancel campaign',
+      destructive: true,
+      disabled: isBusy,
+      onAction: () => {
+        if (confirm('Cancel this campaign? Recipients who have not been sent the message yet will not get it.')) {
+          runAction('cancel');
+        }
+      }
+    }] : []),
+    { content: 'Duplicate', url: `/app/campaigns/new?from=${campaign.id}` },
+    ...(DELETABLE_CAMPAIGN_STATUSES.includes(status) ? [{
+      content: 'Delete',
+      destructive: true,
+      disabled: isBusy,
+      onAction: () => {
+        if (confirm('Delete this campaign and its recipient list? Reports keep the messages already sent.')) {
+          runAction('delete');
+        }
+      }
+    }] : [])
+  ];
+
+  const pageCount = Math.max(1, Math.ceil(totalRecipientRows / RECIPIENTS_PAGE_SIZE));
+  const recipientsUrl = (nextPage: number, nextStatus: string) => {
+    const params = new URLSearchParams();
+    if (nextPage > 1) params.set('page', String(nextPage));
+    if (nextStatus) params.set('status', nextStatus);
+    const query = params.toString();
+    return `/app/campaigns/${campaign.id}${query ? `?${query}` : ''}`;
+  };
+
+  const recipientRows = recipients.map(row => {
+    const rowBadge = RECIPIENT_STATUS_BADGES[row.status] || { label: row.status };
+    return [
+      row.name || '-',
+      `+${row.phone.replace(/\D/g, '')}`,
+      <Badge key={`${row.id}-status`} tone={rowBadge.tone}>{rowBadge.label}</Badge>,
+      row.sentAt ? formatDate(row.sentAt) : '-',
+      row.lastError || '-'
+    ];
+  });
+  const buildPercent = campaign.audienceTotal
+    ? Math.min(100, Math.round((campaign.audienceProcessed / campaign.audienceTotal) * 100))
+    : 0;
+  const done = campaign.sentCount + campaign.failedCount;
+  const sendPercent = campaign.totalRecipients > 0 ? Math.round((done / campaign.totalRecipients) * 100) : 0;
+  const consentLabel = CONSENT_MODE_OPTIONS.find(option => option.value === campaign.consentMode)?.label || campaign.consentMode;
+
+  return (
+    <Page
+      backAction={{ content: 'Campaigns', url: '/app/campaigns' }}
+      title={campaign.name}
+      titleMetadata={<Badge tone={badge.tone}>{badge.label}</Badge>}
+      subtitle={`Created ${formatDate(campaign.createdAt)}`}
+      secondaryActions={secondaryActions}
+    >
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {fetcher.data?.error && (
+              <Banner tone="critical">
+                <p>{fetcher.data.error}</p>
+              </Banner>
+            )}
+
+            {quotaError && ['scheduled', 'processing', 'paused'].includes(campaign.status) && (
+              <Banner tone="warning" title="Sending is on hold">
+                <p>{quotaError} The remaining messages go out once you resume the campaign with messages left on your plan.</p>
+              </Banner>
+            )}
+
+            {campaign.audienceError && (
+              <Banner tone={campaign.status === 'failed' ? 'critical' : 'warning'}>
+                <p>
+                  {campaign.status === 'failed'
+                    ? `Couldn't load the segment's customers: ${campaign.audienceError}`
+                    : `Loading customers hit an error and will retry shortly: ${campaign.audienceError}`}
+                </p>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Progress</Text>
+
+                {campaign.status === 'building' ? (
+                  <BlockStack gap="200">
+                    <Text as="p" variant="bodyMd">
+                      Scanned {campaign.audienceProcessed.toLocaleString()}
+                      {campaign.audienceTotal ? ` of ${campaign.audienceTotal.toLocaleString()}` : ''} customers,
+                      {' '}{campaign.totalRecipients.toLocaleString()} queued so far
+                    </Text>
+                    <ProgressBar progress={buildPercent} size="small" tone="primary" />
+                  </BlockStack>
+                ) : (
+                  <BlockStack gap="200">
+                    <Text as="p" variant="bodyMd">
+                      {campaign.sentCount.toLocaleString()} sent, {campaign.failedCount.toLocaleString()} failed
+                      of {campaign.totalRecipients.toLocaleString()} recipients
+                    </Text>
+                    <ProgressBar progress={sendPercent} size="small" tone={campaign.status === 'failed' ? 'critical' : 'primary'} />
+                  </BlockStack>
+                )}
+                {campaign.completedAt && (
+                  <Text as="p" variant="bodySm" tone="subdued">Finished {formatDate(campaign.completedAt)}</Text>
+                )}
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="200">
+                <Text as="h2" variant="headingMd">Schedule</Text>
+                <Text as="p" variant="bodyMd">
+                  {campaign.localSendTime
+                    ? `${formatLocalTime(campaign.localSendTime)} ${campaign.sendInRecipientTimeZone
+                      ? "in each customer's time zone"
+                      : `(${campaign.timeZone || 'store time'})`}`
+                    : 'Sent as soon as the audience was ready'}
+                </Text>
+                {campaign.quietHoursStart && campaign.quietHoursEnd && (
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Quiet hours {campaign.quietHoursStart} to {campaign.quietHoursEnd}, in the customer&apos;s local time
+                  </Text>
+                )}
+              </BlockStack>
+            </Card>
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Audience</Text>
+                <InlineStack gap="200">
+                  <Text as="span" variant="bodyMd" tone="subdued">Consent:</Text>
+                  <Text as="span" variant="bodyMd">{consentLabel}</Text>
+                </InlineStack>
+                {campaign.audienceExclusions && (Object.keys(EXCLUSION_LABELS) as Array<keyof AudienceExclusions>)
+                  .filter(reason => (campaign.audienceExclusions?.[reason] || 0) > 0)
+                  .map(reason => (
+                    <Text key={reason} as="p" variant="bodySm" tone="subdued">
+                      {campaign.audienceExclusions?.[reason].toLocaleString()} excluded: {EXCLUSION_LABELS[reason]}
+                    </Text>
+                  ))}
+                {campaign.consentOverrideAt && (
+                  <Banner tone="warning">
+                    <p>
+                      Sent without a marketing consent check. Approved by {campaign.consentOverrideBy} on
+                      {' '}{formatDate(campaign.consentOverrideAt)}: {campaign.consentOverrideReason}
+                    </p>
+                  </Banner>
+                )}
+              </BlockStack>
+            </Card>
+
+            {attachment && (
+              <Card>
+                <BlockStack gap="200">
+                  <Text as="h2" variant="headingMd">Attachment</Text>
+                  <InlineStack gap="200" blockAlign="center">
+                    <Badge>{MEDIA_TYPES[attachment.mediaType]?.label || attachment.mediaType}</Badge>
+                    <Text as="span" variant="bodyMd">{attachment.fileName}</Text>
+                    <Text as="span" variant="bodySm" tone="subdued">{formatFileSize(attachment.sizeBytes)}</Text>
+                  </InlineStack>
+                </BlockStack>
+              </Card>
+            )}
+
+            {variantResults.length > 0 ? (
+              <Card>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">A/B Test</Text>
+                  <Text as="p" variant="bodyMd">{testStatus}</Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {campaign.abTestPercent}% test group, winner by {metricLabel.toLowerCase()}
+                  </Text>
+                  <DataTable
+                    columnContentTypes={['text', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric', 'text']}
+                    headings={['Variant', 'Sent', 'Read rate', 'Click rate', 'Orders', 'Revenue', '']}
+                    rows={variantRows}
+                  />
+                  {variantResults.map(result => (
+                    <BlockStack key={result.variantId} gap="100">
+                      <Text as="p" variant="bodySm" fontWeight="semibold">Variant {result.label}</Text>
+                      <Text as="p" variant="bodyMd">{result.message}</Text>
+                    </BlockStack>
+                  ))}
+                </BlockStack>
+              </Card>
+            ) : (
+              <Card>
+                <BlockStack gap="200">
+                  <Text as="h2" variant="headingMd">Message</Text>
+                  <Text as="p" variant="bodyMd">{campaign.message}</Text>
+                </BlockStack>
+              </Card>
+            )}
+
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">Recipients</Text>
+                  <Select
+                    label="Status"
+                    labelHidden
+                    options={RECIPIENT_STATUS_OPTIONS}
+                    value={recipientStatus}
+                    onChange={value => navigate(recipientsUrl(1, value))}
+                  />
+                </InlineStack>
+
+                {recipientRows.length === 0 ? (
+                  <Text as="p" variant="bodyMd" tone="subdued">
+                    {campaign.status === 'building' ? 'Recipients appear here as they are found.' : 'No recipients.'}
+                  </Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                    headings={['Name', 'Phone', 'Status', 'Sent', 'Error']}
+                    rows={recipientRows}
+                  />
+                )}
+
+                {pageCount > 1 && (
+                  <InlineStack align="center">
+                    <Pagination
+                      hasPrevious={page > 1}
+                      onPrevious={() => navigate(recipientsUrl(page - 1, recipientStatus))}
+                      hasNext={page < pageCount}
+                      onNext={() => navigate(recipientsUrl(page + 1, recipientStatus))}
+                      label={`Page ${page} of ${pageCount}`}
+                    />
+                  </InlineStack>
+                )}
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
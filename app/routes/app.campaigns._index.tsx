@@ -0,0 +1,95 @@
+import { useLoaderData, data } from "react-router";
+import type { LoaderFunctionArgs } from "react-router";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  Badge,
+  DataTable,
+  EmptyState,
+  Link
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { getOrCreateShop } from "../services/automation/automation.service";
+import { listCampaigns } from "../services/campaign/campaign.service";
+import { CAMPAIGN_STATUS_META } from "../services/campaign/campaign.constants";
+import type { CampaignStatus } from "../services/campaign/campaign.constants";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const campaigns = await listCampaigns(shopId);
+
+  return data({
+    campaigns: campaigns.map(campaign => ({
+      id: campaign.id,
+      name: campaign.name,
+      status: campaign.status,
+      totalRecipients: campaign.totalRecipients,
+      sentCount: campaign.sentCount,
+      failedCount: campaign.failedCount,
+      createdAt: campaign.createdAt.toISOString()
+    }))
+  });
+};
+
+export default function CampaignsPage() {
+  const { campaigns } = useLoaderData<typeof loader>();
+
+  const formatDate = (isoString: string) => new Date(isoString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  const rows = campaigns.map(campaign => {
+    const meta = CAMPAIGN_STATUS_META[campaign.status as CampaignStatus] || { label: campaign.status };
+    const progress = campaign.totalRecipients > 0
+      ? Math.round(((campaign.sentCount + campaign.failedCount) / campaign.totalRecipients) * 100)
+      : 0;
+
+    return [
+      <Link key={`${campaign.id}-name`} url={`/app/campaigns/${campaign.id}`} removeUnderline>
+        {campaign.name}
+      </Link>,
+      <Badge key={`${campaign.id}-status`} tone={meta.tone}>{meta.label}</Badge>,
+      campaign.totalRecipients.toLocaleString(),
+      campaign.sentCount.toLocaleString(),
+      campaign.failedCount.toLocaleString(),
+      `${progress}%`,
+      formatDate(campaign.createdAt)
+    ];
+  });
+
+  return (
+    <Page
+      backAction={{ content: 'Back', url: '/app' }}
+      title="Campaigns"
+      primaryAction={{ content: 'Create campaign', url: '/app/campaigns/new' }}
+    >
+      <Layout>
+        <Layout.Section>
+          <Card padding={rows.length === 0 ? undefined : '0'}>
+            {rows.length === 0 ? (
+              <EmptyState
+                heading="No campaigns yet"
+                action={{ content: 'Create campaign', url: '/app/campaigns/new' }}
+                image=""
+              >
+                <Text as="p" variant="bodyMd">Send a WhatsApp message to a customer segment.</Text>
+              </EmptyState>
+            ) : (
+              <DataTable
+                columnContentTypes={['text', 'text', 'numeric', 'numeric', 'numeric', 'numeric', 'text']}
+                headings={['Campaign', 'Status', 'Recipients', 'Sent', 'Failed', 'Progress', 'Created']}
+                rows={rows}
+              />
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
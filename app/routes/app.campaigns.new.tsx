@@ -1,4 +1,4 @@
-import { useLoaderData, useNavigation, useSubmit, data, redirect } from "react-router";
+import { useLoaderData, useActionData, useNavigation, useSubmit, useFetcher, data, redirect } from "react-router";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { 
   Page, 
@@ -11,24 +11,67 @@ import {
   Select,
   Banner,
   Box,
-  InlineStack
+  InlineStack,
+  Checkbox,
+  Spinner,
+  Link
 } from "@shopify/polaris";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { authenticate } from "../shopify.server";
-import { getSegments, createCampaign } from "../services/campaign/campaign.service";
+import { getSegments, getCampaign, getCampaignVariants, createCampaign, getShopTimeZone } from "../services/campaign/campaign.service";
+import { parseQuietHours } from "../services/campaign/campaign-schedule.service";
+import { previewCampaignAudience } from "../services/campaign/campaign-audience.service";
+import {
+  CONSENT_MODE_OPTIONS,
+  EXCLUSION_LABELS,
+  DEFAULT_QUIET_HOURS,
+  MAX_CAMPAIGN_VARIANTS,
+  AB_TEST_METRIC_OPTIONS,
+  DEFAULT_AB_TEST,
+  variantLabel
+} from "../services/campaign/campaign.constants";
+import type { AbTestMetric, AudienceExclusions, AudienceSummary, CampaignConsentMode } from "../services/campaign/campaign.constants";
 import { getOrCreateShop } from "../services/automation/automation.service";
+import { listMedia } from "../services/media/media.service";
+import { MEDIA_TYPES, formatFileSize } from "../services/media/media.constants";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
 
-  await getOrCreateShop(shop);
+  const shopId = await getOrCreateShop(shop);
   
   // Fetch available segments
-  const segments = await getSegments(admin.graphql);
+  const [segments, timeZone, media] = await Promise.all([
+    getSegments(admin.graphql),
+    getShopTimeZone(admin.graphql),
+    listMedia(shopId)
+  ]);
+
+  // Duplicating a campaign pre-fills the form. A consent override is never
+  // copied - it has to be approved again for the new campaign.
+  const fromId = new URL(request.url).searchParams.get('from');
+  const source = fromId ? await getCampaign(shopId, fromId) : null;
+  const sourceVariants = source ? await getCampaignVariants(source.id) : [];
 
   return data({
-    segments
+    segments,
+    timeZone,
+    media,
+    initial: source ? {
+      name: `${source.name} (copy)`,
+      segmentId: source.segmentId,
+      messages: sourceVariants.length > 0 ? sourceVariants.map((variant: { message: string }) => variant.message) : [source.message],
+      abTestPercent: source.abTestPercent,
+      abTestMetric: source.abTestMetric as AbTestMetric | null,
+      abTestDurationHours: source.abTestDurationHours,
+      abTestAutoWinner: source.abTestAutoWinner,
+      mediaId: source.mediaId,
+      consentMode: source.consentMode as CampaignConsentMode,
+      sendInRecipientTimeZone: source.sendInRecipientTimeZone,
+      quietHoursStart: source.quietHoursStart,
+      quietHoursEnd: source.quietHoursEnd
+    } : null
   });
 };
 
@@ -45,11 +88,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const shop = await getOrCreateShop(shopId); // This returns ID string based on my previous view of automation.service.ts
   
   const formData = await request.formData();
+  const intent = formData.get("intent");
   const name = formData.get("name") as string;
   const segmentId = formData.get("segmentId") as string;
-  const message = formData.get("message") as string;
+  // Message variants arrive as a JSON array
+  let messages: string[] = [];
+  try {
+    const parsed = JSON.parse((formData.get("variants") as string) || "[]");
+    messages = Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return data({ error: "Invalid message variants" }, { status: 400 });
+  }
+  const consentMode = (formData.get("consentMode") as CampaignConsentMode) || 'sms';
 
-  if (!name || !segmentId || !message) {
+  if (!CONSENT_MODE_OPTIONS.some(option => option.value === consentMode)) {
+    return data({ error: "Invalid consent setting" }, { status: 400 });
+  }
+
+  if (intent !== "preview" && (!name || !segmentId || messages.length === 0)) {
     return data({ error: "Please fill in all fields" }, { status: 400 });
   }
 
@@ -61,6 +117,42 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return data({ error: "Invalid segment selected" }, { status: 400 });
   }
 
+  // Audience check for the form - who would receive the campaign and who is left out
+  if (intent === "preview") {
+    const summary = await previewCampaignAudience(shop, selectedSegment.query, consentMode, admin.graphql);
+    return data({ summary });
+  }
+
+  let consentOverride;
+  if (consentMode === 'transactional') {
+    if (formData.get("overrideAcknowledged") !== "true") {
+      return data({ error: "Confirm that this campaign only contains transactional messages" }, { status: 400 });
+    }
+    consentOverride = {
+      reason: (formData.get("overrideReason") as string) || '',
+      // Online sessions know the staff member; offline ones only the shop
+      approvedBy: session.onlineAccessInfo?.associated_user?.email || session.shop
+    };
+  }
+
+  const scheduled = formData.get("sendTiming") === "scheduled";
+  const sendDate = (formData.get("sendDate") as string) || '';
+  const sendTime = (formData.get("sendTime") as string) || '';
+  if (scheduled && (!sendDate || !sendTime)) {
+    return data({ error: "Pick a date and time to send the campaign" }, { status: 400 });
+  }
+
+  const quietHoursEnabled = formData.get("quietHoursEnabled") === "true";
+  const quietHours = parseQuietHours(formData.get("quietHoursStart") as string, formData.get("quietHoursEnd") as string);
+  if (quietHoursEnabled && !quietHours) {
+    return data({ error: "Quiet hours need a start and end time that differ" }, { status: 400 });
+  }
+
+  const abTestMetric = formData.get("abTestMetric") as AbTestMetric;
+  if (messages.length > 1 && !AB_TEST_METRIC_OPTIONS.some(option => option.value === abTestMetric)) {
+    return data({ error: "Invalid A/B test metric" }, { status: 400 });
+  }
+
   const result = await createCampaign(
     shop, // Passing DB ID
     session.shop, // Shop domain for billing check
@@ -68,7 +160,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       name,
       segmentId,
       segmentQuery: selectedSegment.query,
-      message
+      messages,
+      mediaId: (formData.get("mediaId") as string) || undefined,
+      abTest: messages.length > 1 ? {
+        percent: Number(formData.get("abTestPercent")),
+        metric: abTestMetric,
+        durationHours: Number(formData.get("abTestDurationHours")),
+        autoWinner: formData.get("abTestAutoWinner") === "true"
+      } : undefined,
+      consentMode,
+      consentOverride,
+      schedule: {
+        sendAt: scheduled ? `${sendDate}T${sendTime}` : undefined,
+        // The shop's zone is re-read here rather than trusted from the form
+        timeZone: await getShopTimeZone(admin.graphql),
+        sendInRecipientTimeZone: formData.get("sendInRecipientTimeZone") === "true",
+        quietHours: quietHoursEnabled ? quietHours : null
+      }
     },
     admin.graphql
   );
@@ -77,19 +185,51 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return data({ error: result.error || "Failed to create campaign" }, { status: 400 });
   }
 
-  return redirect("/app"); // Redirect to home or campaigns list
+  // The campaign page shows the audience build and send progress
+  return redirect(`/app/campaigns/${result.campaign?.id}`);
 };
 
 export default function NewCampaignPage() {
-  const { segments } = useLoaderData<typeof loader>();
+  const { segments, timeZone, media, initial } = useLoaderData<typeof loader>();
+  const actionData = useActionData<{ error?: string }>();
   const nav = useNavigation();
   const submit = useSubmit();
+  const audienceFetcher = useFetcher<{ summary?: AudienceSummary & { estimated: boolean }; error?: string }>();
   
-  const [name, setName] = useState("");
-  const [segmentId, setSegmentId] = useState("");
-  const [message, setMessage] = useState("");
+  const [name, setName] = useState(initial?.name || "");
+  const [segmentId, setSegmentId] = useState(initial?.segmentId || "");
+  const [messages, setMessages] = useState<string[]>(initial?.messages || [""]);
+  const [mediaId, setMediaId] = useState(initial?.mediaId || "");
+  const [abTestPercent, setAbTestPercent] = useState(String(initial?.abTestPercent ?? DEFAULT_AB_TEST.percent));
+  const [abTestMetric, setAbTestMetric] = useState<AbTestMetric>(initial?.abTestMetric || DEFAULT_AB_TEST.metric);
+  const [abTestDurationHours, setAbTestDurationHours] = useState(String(initial?.abTestDurationHours ?? DEFAULT_AB_TEST.durationHours));
+  const [abTestAutoWinner, setAbTestAutoWinner] = useState(initial?.abTestAutoWinner ?? DEFAULT_AB_TEST.autoWinner);
+  const [consentMode, setConsentMode] = useState<CampaignConsentMode>(initial?.consentMode || "sms");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [overrideAcknowledged, setOverrideAcknowledged] = useState(false);
+  const [sendTiming, setSendTiming] = useState("now");
+  const [sendDate, setSendDate] = useState("");
+  const [sendTime, setSendTime] = useState("10:00");
+  const [sendInRecipientTimeZone, setSendInRecipientTimeZone] = useState(initial?.sendInRecipientTimeZone || false);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(initial ? !!initial.quietHoursStart : true);
+  const [quietHoursStart, setQuietHoursStart] = useState(initial?.quietHoursStart || DEFAULT_QUIET_HOURS.start);
+  const [quietHoursEnd, setQuietHoursEnd] = useState(initial?.quietHoursEnd || DEFAULT_QUIET_HOURS.end);
 
   const isLoading = nav.state === "submitting";
+  const isTransactional = consentMode === "transactional";
+  const isAbTest = messages.length > 1;
+
+  const updateMessage = (index: number, value: string) =>
+    setMessages(current => current.map((message, i) => (i === index ? value : message)));
+  const summary = audienceFetcher.data?.summary;
+  const previewAudience = audienceFetcher.submit;
+
+  // Recount the audience whenever the segment or consent setting changes
+  useEffect(() => {
+    if (segmentId) {
+      previewAudience({ intent: "preview", segmentId, consentMode }, { method: "post" });
+    }
+  }, [segmentId, consentMode, previewAudience]);
 
   const segmentOptions = [
     { label: 'Select a customer segment', value: '' },
@@ -97,8 +237,31 @@ export default function NewCampaignPage() {
   ];
 
   const handleSubmit = useCallback(() => {
-    submit({ name, segmentId, message }, { method: "post" });
-  }, [name, segmentId, message, submit]);
+    submit({
+      intent: "create",
+      name,
+      segmentId,
+      variants: JSON.stringify(messages),
+      mediaId,
+      abTestPercent,
+      abTestMetric,
+      abTestDurationHours,
+      abTestAutoWinner: String(abTestAutoWinner),
+      consentMode,
+      overrideReason,
+      overrideAcknowledged: String(overrideAcknowledged),
+      sendTiming,
+      sendDate,
+      sendTime,
+      sendInRecipientTimeZone: String(sendInRecipientTimeZone),
+      quietHoursEnabled: String(quietHoursEnabled),
+      quietHoursStart,
+      quietHoursEnd
+    }, { method: "post" });
+  }, [
+    name, segmentId, messages, mediaId, abTestPercent, abTestMetric, abTestDurationHours, abTestAutoWinner, consentMode, overrideReason, overrideAcknowledged,
+    sendTiming, sendDate, sendTime, sendInRecipientTimeZone, quietHoursEnabled, quietHoursStart, quietHoursEnd, submit
+  ]);
 
   const templateVariables = [
     { name: '{{first_name}}', desc: "Customer's first name" },
@@ -107,12 +270,18 @@ export default function NewCampaignPage() {
 
   return (
     <Page 
-      backAction={{ content: 'Back', url: '/app' }}
+      backAction={{ content: 'Campaigns', url: '/app/campaigns' }}
       title="Create New Campaign"
     >
       <Layout>
         <Layout.Section>
            <BlockStack gap="500">
+             {(actionData?.error || audienceFetcher.data?.error) && (
+               <Banner tone="critical">
+                 <p>{actionData?.error || audienceFetcher.data?.error}</p>
+               </Banner>
+             )}
+
              <Card>
                <BlockStack gap="400">
                  <Text as="h2" variant="headingMd">Campaign Details</Text>
@@ -135,18 +304,121 @@ export default function NewCampaignPage() {
                </BlockStack>
              </Card>
 
+             <Card>
+               <BlockStack gap="400">
+                 <Text as="h2" variant="headingMd">Audience Consent</Text>
+
+                 <Select
+                   label="Send to"
+                   options={CONSENT_MODE_OPTIONS.map(option => ({ label: option.label, value: option.value }))}
+                   onChange={value => setConsentMode(value as CampaignConsentMode)}
+                   value={consentMode}
+                   helpText={CONSENT_MODE_OPTIONS.find(option => option.value === consentMode)?.helpText}
+                 />
+
+                 {isTransactional && (
+                   <BlockStack gap="300">
+                     <Banner tone="critical">
+                       <Text as="p" variant="bodyMd">
+                         This campaign will reach customers who never agreed to marketing messages. The reason and your
+                         account are recorded with the campaign.
+                       </Text>
+                     </Banner>
+                     <TextField
+                       label="Reason"
+                       value={overrideReason}
+                       onChange={setOverrideReason}
+                       autoComplete="off"
+                       placeholder="e.g. Shipping delay notice for pre-orders"
+                     />
+                     <Checkbox
+                       label="This campaign only contains transactional information, no promotions"
+                       checked={overrideAcknowledged}
+                       onChange={setOverrideAcknowledged}
+                     />
+                   </BlockStack>
+                 )}
+
+                 {segmentId && (
+                   audienceFetcher.state !== "idle" ? (
+                     <InlineStack gap="200" blockAlign="center">
+                       <Spinner size="small" />
+                       <Text as="span" variant="bodySm" tone="subdued">Counting recipients...</Text>
+                     </InlineStack>
+                   ) : summary ? (
+                     <Box background="bg-surface-secondary" padding="300" borderRadius="200">
+                       <BlockStack gap="100">
+                         <Text as="p" variant="bodyMd" fontWeight="semibold">
+                           {summary.estimated ? 'About ' : ''}{summary.recipients.toLocaleString()} of {summary.matched.toLocaleString()} customers will receive this campaign
+                         </Text>
+                         {(Object.keys(EXCLUSION_LABELS) as Array<keyof AudienceExclusions>)
+                           .filter(reason => summary.excluded[reason] > 0)
+                           .map(reason => (
+                             <Text key={reason} as="p" variant="bodySm" tone="subdued">
+                               {summary.excluded[reason].toLocaleString()} excluded: {EXCLUSION_LABELS[reason]}
+                             </Text>
+                           ))}
+                         {summary.estimated && (
+                           <Text as="p" variant="bodySm" tone="subdued">
+                             Estimated from the first 250 customers. Exact counts are shown on the campaign once its audience is built.
+                           </Text>
+                         )}
+                       </BlockStack>
+                     </Box>
+                   ) : null
+                 )}
+               </BlockStack>
+             </Card>
+
              <Card>
                <BlockStack gap="400">
                  <Text as="h2" variant="headingMd">Message Content</Text>
                  
-                 <TextField
-                   label="Message"
-                   value={message}
-                   onChange={setMessage}
-                   multiline={6}
-                   autoComplete="off"
-                   placeholder="Hi {{first_name}}, check out our sale!"
-                   helpText="WhatsApp ignores newlines in some cases, keep it concise."
+                 {messages.map((message, index) => (
+                   <BlockStack key={index} gap="200">
+                     <TextField
+                       label={isAbTest ? `Variant ${variantLabel(index)}` : "Message"}
+                       value={message}
+                       onChange={value => updateMessage(index, value)}
+                       multiline={6}
+                       autoComplete="off"
+                       placeholder="Hi {{first_name}}, check out our sale!"
+                       helpText={index === 0 ? "WhatsApp ignores newlines in some cases, keep it concise." : undefined}
+                     />
+                     {isAbTest && (
+                       <InlineStack align="end">
+                         <Button
+                           variant="plain"
+                           tone="critical"
+                           onClick={() => setMessages(current => current.filter((_, i) => i !== index))}
+                         >
+                           {`Remove variant ${variantLabel(index)}`}
+                         </Button>
+                       </InlineStack>
+                     )}
+                   </BlockStack>
+                 ))}
+
+                 {messages.length < MAX_CAMPAIGN_VARIANTS && (
+                   <InlineStack>
+                     <Button onClick={() => setMessages(current => [...current, ""])}>
+                       {isAbTest ? 'Add variant' : 'A/B test another message'}
+                     </Button>
+                   </InlineStack>
+                 )}
+
+                 <Select
+                   label="Attachment"
+                   options={[
+                     { label: 'No attachment', value: '' },
+                     ...media.map(asset => ({
+                       label: `${asset.fileName} (${MEDIA_TYPES[asset.mediaType]?.label || asset.mediaType}, ${formatFileSize(asset.sizeBytes)})`,
+                       value: asset.id
+                     }))
+                   ]}
+                   onChange={setMediaId}
+                   value={mediaId}
+                   helpText={<>Sent with every variant, with the message as its caption. Upload files on the <Link url="/app/media">Media</Link> page.</>}
                  />
 
                  <Box paddingBlockStart="200">
@@ -162,15 +434,142 @@ export default function NewCampaignPage() {
                </BlockStack>
              </Card>
 
+             {isAbTest && (
+               <Card>
+                 <BlockStack gap="400">
+                   <Text as="h2" variant="headingMd">A/B Test</Text>
+                   <Text as="p" variant="bodyMd" tone="subdued">
+                     A test group is split evenly between the variants. Everyone else gets the winning variant once the test ends.
+                   </Text>
+
+                   <InlineStack gap="300" wrap={false}>
+                     <TextField
+                       label="Test group"
+                       type="number"
+                       value={abTestPercent}
+                       onChange={setAbTestPercent}
+                       suffix="% of recipients"
+                       min={1}
+                       max={100}
+                       autoComplete="off"
+                     />
+                     <TextField
+                       label="Test duration"
+                       type="number"
+                       value={abTestDurationHours}
+                       onChange={setAbTestDurationHours}
+                       suffix="hours"
+                       min={1}
+                       autoComplete="off"
+                       helpText="Counted from the last test message"
+                     />
+                   </InlineStack>
+
+                   <Select
+                     label="Winning metric"
+                     options={AB_TEST_METRIC_OPTIONS}
+                     onChange={value => setAbTestMetric(value as AbTestMetric)}
+                     value={abTestMetric}
+                   />
+
+                   <Checkbox
+                     label="Send the winner automatically when the test ends"
+                     helpText="Otherwise the rest of the audience waits until you pick a variant on the campaign page."
+                     checked={abTestAutoWinner}
+                     onChange={setAbTestAutoWinner}
+                   />
+                 </BlockStack>
+               </Card>
+             )}
+
+             <Card>
+               <BlockStack gap="400">
+                 <Text as="h2" variant="headingMd">Send Time</Text>
+
+                 <Select
+                   label="When"
+                   options={[
+                     { label: 'Send now', value: 'now' },
+                     { label: 'Schedule for later', value: 'scheduled' }
+                   ]}
+                   onChange={setSendTiming}
+                   value={sendTiming}
+                 />
+
+                 {sendTiming === 'scheduled' && (
+                   <BlockStack gap="300">
+                     <InlineStack gap="300" wrap={false}>
+                       <TextField
+                         label="Date"
+                         type="date"
+                         value={sendDate}
+                         onChange={setSendDate}
+                         autoComplete="off"
+                       />
+                       <TextField
+                         label="Time"
+                         type="time"
+                         value={sendTime}
+                         onChange={setSendTime}
+                         autoComplete="off"
+                         helpText={`Your store's time zone (${timeZone})`}
+                       />
+                     </InlineStack>
+                     <Checkbox
+                       label="Send at this time in each customer's local time zone"
+                       helpText="Uses the time zone of the customer's default address. Customers without one get it at your store's time."
+                       checked={sendInRecipientTimeZone}
+                       onChange={setSendInRecipientTimeZone}
+                     />
+                   </BlockStack>
+                 )}
+
+                 <Checkbox
+                   label="Don't send during quiet hours"
+                   helpText="Messages that would arrive in this window wait until it ends, in the customer's local time."
+                   checked={quietHoursEnabled}
+                   onChange={setQuietHoursEnabled}
+                 />
+                 {quietHoursEnabled && (
+                   <InlineStack gap="300" wrap={false}>
+                     <TextField
+                       label="Quiet from"
+                       type="time"
+                       value={quietHoursStart}
+                       onChange={setQuietHoursStart}
+                       autoComplete="off"
+                     />
+                     <TextField
+                       label="Until"
+                       type="time"
+                       value={quietHoursEnd}
+                       onChange={setQuietHoursEnd}
+                       autoComplete="off"
+                     />
+                   </InlineStack>
+                 )}
+               </BlockStack>
+             </Card>
+
              <Banner tone="warning">
                <Text as="p" variant="bodyMd">
-                 <strong>Use with caution:</strong> Sending bulk messages can lead to your WhatsApp number being banned if marked as spam. Ensure customers have opted in.
+                 <strong>Use with caution:</strong> Sending bulk messages can lead to your WhatsApp number being banned if marked as spam. Customers who opted out on WhatsApp are always skipped.
                </Text>
              </Banner>
     
              <Box paddingBlockEnd="500">
-                <Button variant="primary" onClick={handleSubmit} loading={isLoading} size="large">
-                  Send Campaign
+                <Button
+                  variant="primary"
+                  onClick={handleSubmit}
+                  loading={isLoading}
+                  disabled={
+                    messages.some(message => !message.trim()) ||
+                    (isTransactional && (!overrideReason.trim() || !overrideAcknowledged)) ||
+                    (sendTiming === 'scheduled' && (!sendDate || !sendTime))
+                  }
+                  size="large"
+                >
+                  {sendTiming === 'scheduled' ? 'Schedule Campaign' : 'Send Campaign'}
                 </Button>
              </Box>
            </BlockStack>
@@ -1,5 +1,5 @@
-import { useLoaderData, data } from "react-router";
-import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useFetcher, data } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { 
   Page, 
   Layout, 
@@ -11,14 +11,31 @@ import {
   DataTable,
   Badge,
   EmptyState,
-  Box
+  Box,
+  TextField,
+  Button,
+  Banner
 } from "@shopify/polaris";
 import { useState } from "react";
 import { authenticate } from "../shopify.server";
 import { PrismaClient } from "@prisma/client";
+import { type DeliveryStats, getDeliveryStatsByType } from "../services/whatsapp/message-status.service";
+import {
+  type AttributionReport,
+  type AttributionRow,
+  type AttributionSettings,
+  getAttributionReport,
+  getAttributionSettings,
+  updateAttributionSettings
+} from "../services/attribution/attribution.service";
+import { type ClickStats, getClickStats } from "../services/links/short-link.service";
 
 const prisma = new PrismaClient();
 
+const EMPTY_ATTRIBUTION: AttributionReport = { totalRevenue: 0, totalOrders: 0, byType: [], byCampaign: [] };
+const DEFAULT_ATTRIBUTION_SETTINGS: AttributionSettings = { attributionWindowHours: 24, costPerMessage: 0.2 };
+const EMPTY_CLICKS: { byType: Record<string, ClickStats>; byCampaign: Record<string, ClickStats> } = { byType: {}, byCampaign: {} };
+
 // Date range options
 const DATE_RANGES = [
   { label: 'Today', value: 'today' },
@@ -74,6 +91,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     if (!shop) {
       return data({
         stats: { sent: 0, failed: 0, pending: 0 },
+        deliveryStats: [] as DeliveryStats[],
+        attribution: EMPTY_ATTRIBUTION,
+        attributionSettings: DEFAULT_ATTRIBUTION_SETTINGS,
+        clickStats: EMPTY_CLICKS,
         messages: [],
         totalMessages: 0,
         selectedRange: 'today'
@@ -86,11 +107,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     const { start, end } = getDateRange(range);
 
     // Get message stats for the date range
-    const [sentCount, failedCount, pendingCount] = await Promise.all([
+    const [sentCount, failedCount, pendingCount, deliveryStats, attribution, attributionSettings, clickStats] = await Promise.all([
       prisma.messageHistory.count({
         where: {
           shopId: shop.id,
-          status: 'sent',
+          status: { in: ['sent', 'delivered', 'read'] },
           sentAt: { gte: start, lte: end }
         }
       }),
@@ -106,7 +127,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           shopId: shop.id,
           status: 'pending'
         }
-      })
+      }),
+      getDeliveryStatsByType(shop.id, start, end),
+      getAttributionReport(shop.id, start, end),
+      getAttributionSettings(shop.id),
+      getClickStats(shop.id, start, end)
     ]);
 
     // Get recent messages
@@ -125,6 +150,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         failed: failedCount,
         pending: pendingCount
       },
+      deliveryStats,
+      attribution,
+      attributionSettings,
+      clickStats,
       messages: messages.map(m => ({
         id: m.id,
         phone: m.recipientPhone,
@@ -140,6 +169,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     console.error('Dashboard loader error:', error);
     return data({
       stats: { sent: 0, failed: 0, pending: 0 },
+      deliveryStats: [] as DeliveryStats[],
+      attribution: EMPTY_ATTRIBUTION,
+      attributionSettings: DEFAULT_ATTRIBUTION_SETTINGS,
+      clickStats: EMPTY_CLICKS,
       messages: [],
       totalMessages: 0,
       selectedRange: 'today'
@@ -147,9 +180,42 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") !== "saveAttributionSettings") {
+    return data({ error: "Unknown action" }, { status: 400 });
+  }
+
+  const attributionWindowHours = parseInt(formData.get("attributionWindowHours") as string);
+  const costPerMessage = parseFloat(formData.get("costPerMessage") as string);
+
+  if (isNaN(attributionWindowHours) || attributionWindowHours < 0) {
+    return data({ error: "Attribution window must be 0 hours or more" }, { status: 400 });
+  }
+  if (isNaN(costPerMessage) || costPerMessage < 0) {
+    return data({ error: "Cost per message must be 0 or more" }, { status: 400 });
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: session.shop },
+    select: { id: true }
+  });
+  if (!shop) {
+    return data({ error: "Shop not found" }, { status: 404 });
+  }
+
+  await updateAttributionSettings(shop.id, { attributionWindowHours, costPerMessage });
+  return data({ success: true });
+};
+
 export default function DashboardPage() {
-  const { stats, messages, totalMessages, selectedRange } = useLoaderData<typeof loader>();
+  const { stats, deliveryStats, attribution, attributionSettings, clickStats, messages, totalMessages, selectedRange } = useLoaderData<typeof loader>();
   const [dateRange, setDateRange] = useState(selectedRange || 'today');
+  const settingsFetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const [windowHours, setWindowHours] = useState(String(attributionSettings.attributionWindowHours));
+  const [costPerMessage, setCostPerMessage] = useState(String(attributionSettings.costPerMessage));
 
   const handleRangeChange = (value: string) => {
     setDateRange(value);
@@ -171,9 +237,15 @@ export default function DashboardPage() {
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'sent':
-        return <Badge tone="success">Sent</Badge>;
+        return <Badge>Sent</Badge>;
+      case 'delivered':
+        return <Badge tone="info">Delivered</Badge>;
+      case 'read':
+        return <Badge tone="success">Read</Badge>;
       case 'failed':
         return <Badge tone="critical">Failed</Badge>;
+      case 'skipped_quota':
+        return <Badge tone="warning">Skipped - limit reached</Badge>;
       case 'pending':
         return <Badge tone="attention">Pending</Badge>;
       default:
@@ -181,9 +253,44 @@ export default function DashboardPage() {
     }
   };
 
+  const formatType = (type: string) => type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+  const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+  const deliveryRows = deliveryStats.map((row: DeliveryStats) => [
+    formatType(row.messageType),
+    row.sent,
+    row.delivered,
+    row.read,
+    row.failed,
+    formatRate(row.deliveryRate),
+    formatRate(row.readRate)
+  ]);
+
+  const formatMoney = (amount: number) => amount.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+  const formatRoi = (roi: number | null) => roi === null ? '-' : `${(roi * 100).toFixed(0)}%`;
+
+  const toAttributionRows = (
+    rows: AttributionRow[],
+    clicks: Record<string, ClickStats>,
+    labelFor: (row: AttributionRow) => string
+  ) => rows.map(row => [
+    labelFor(row),
+    row.sent,
+    clicks[row.key]?.clicks ?? 0,
+    formatRate(row.sent > 0 ? (clicks[row.key]?.clickedMessages ?? 0) / row.sent : 0),
+    row.orders,
+    formatMoney(row.revenue),
+    formatRate(row.conversionRate),
+    formatRoi(row.roi)
+  ]);
+  const typeAttributionRows = toAttributionRows(attribution.byType, clickStats.byType, row => formatType(row.label));
+  const campaignAttributionRows = toAttributionRows(attribution.byCampaign, clickStats.byCampaign, row => row.label);
+  const attributionHeadings = ['Sent', 'Clicks', 'CTR', 'Orders', 'Revenue', 'Conversion rate', 'ROI'];
+  const attributionColumnTypes: Array<'text' | 'numeric'> = ['text', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric'];
+
   const tableRows = messages.map((msg: { id: string; phone: string; type: string; status: string; orderNumber: string; sentAt: string }) => [
     msg.phone,
-    msg.type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+    formatType(msg.type),
     msg.orderNumber,
     getStatusBadge(msg.status),
     formatDate(msg.sentAt)
@@ -246,6 +353,96 @@ export default function DashboardPage() {
               </Box>
             </InlineStack>
 
+            {/* Attributed Revenue */}
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="start">
+                  <BlockStack gap="100">
+                    <Text as="h2" variant="headingMd">Clicks &amp; Attributed Revenue</Text>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Orders placed through a WhatsApp link, or within {attributionSettings.attributionWindowHours} hours
+                      of a marketing message to the same number. CTR is the share of sent messages with a clicked link.
+                    </Text>
+                  </BlockStack>
+                  <BlockStack gap="100" inlineAlign="end">
+                    <Text as="p" variant="headingLg">{formatMoney(attribution.totalRevenue)}</Text>
+                    <Text as="p" variant="bodySm" tone="subdued">{attribution.totalOrders} orders</Text>
+                  </BlockStack>
+                </InlineStack>
+
+                {typeAttributionRows.length === 0 ? (
+                  <Text as="p" variant="bodySm" tone="subdued">No messages sent in this period.</Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={attributionColumnTypes}
+                    headings={['Automation', ...attributionHeadings]}
+                    rows={typeAttributionRows}
+                  />
+                )}
+
+                {campaignAttributionRows.length > 0 && (
+                  <DataTable
+                    columnContentTypes={attributionColumnTypes}
+                    headings={['Campaign', ...attributionHeadings]}
+                    rows={campaignAttributionRows}
+                  />
+                )}
+
+                <settingsFetcher.Form method="post">
+                  <input type="hidden" name="intent" value="saveAttributionSettings" />
+                  <InlineStack gap="300" blockAlign="end">
+                    <TextField
+                      label="Attribution window"
+                      type="number"
+                      name="attributionWindowHours"
+                      value={windowHours}
+                      onChange={setWindowHours}
+                      suffix="hours"
+                      helpText="0 counts link clicks only."
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Cost per message"
+                      type="number"
+                      name="costPerMessage"
+                      value={costPerMessage}
+                      onChange={setCostPerMessage}
+                      prefix="₹"
+                      helpText="Used for ROI."
+                      autoComplete="off"
+                    />
+                    <Button submit loading={settingsFetcher.state === "submitting"}>Save</Button>
+                  </InlineStack>
+                </settingsFetcher.Form>
+                {settingsFetcher.data?.error && (
+                  <Banner tone="critical">
+                    <p>{settingsFetcher.data.error}</p>
+                  </Banner>
+                )}
+              </BlockStack>
+            </Card>
+
+            {/* Delivery & Read Rates */}
+            <Card>
+              <BlockStack gap="300">
+                <BlockStack gap="100">
+                  <Text as="h2" variant="headingMd">Delivery &amp; Read Rates</Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Based on WhatsApp receipts. Customers who turned off read receipts count as delivered only.
+                  </Text>
+                </BlockStack>
+                {deliveryRows.length === 0 ? (
+                  <Text as="p" variant="bodySm" tone="subdued">No messages sent in this period.</Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric']}
+                    headings={['Type', 'Sent', 'Delivered', 'Read', 'Failed', 'Delivery rate', 'Read rate']}
+                    rows={deliveryRows}
+                  />
+                )}
+              </BlockStack>
+            </Card>
+
             {/* Message History Table */}
             <Card>
               <BlockStack gap="300">
@@ -0,0 +1,320 @@
+import { useLoaderData, useFetcher, useNavigate, data } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import {
+  Page,
+  Layout,
+  Card,
+  Button,
+  Text,
+  BlockStack,
+  InlineStack,
+  TextField,
+  Banner,
+  Box,
+  Badge,
+  Divider,
+  EmptyState,
+  Tabs
+} from "@shopify/polaris";
+import { useState, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import { getOrCreateShop } from "../services/automation/automation.service";
+import {
+  type ConversationStatus,
+  type ThreadMessage,
+  type CustomerOrderSummary,
+  listConversations,
+  openConversation,
+  getConversationThread,
+  sendInboxReply,
+  setConversationStatus,
+  getRecentOrdersForPhone
+} from "../services/inbox/inbox.service";
+
+interface SelectedConversation {
+  phone: string;
+  status: ConversationStatus;
+  customerName: string | null;
+  thread: ThreadMessage[];
+  orders: CustomerOrderSummary[];
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const url = new URL(request.url);
+  const status = (url.searchParams.get('status') === 'resolved' ? 'resolved' : 'open') as ConversationStatus;
+  const phone = url.searchParams.get('phone');
+
+  const conversations = await listConversations(shopId, status);
+
+  let selected: SelectedConversation | null = null;
+  if (phone) {
+    const conversation = await openConversation(shopId, phone);
+    const [thread, customer] = await Promise.all([
+      getConversationThread(shopId, phone),
+      getRecentOrdersForPhone(admin.graphql, phone)
+    ]);
+
+    selected = {
+      phone,
+      status: conversation?.status === 'resolved' ? 'resolved' : 'open',
+      customerName: customer.customerName || conversation?.customerName || null,
+      thread,
+      orders: customer.orders
+    };
+  }
+
+  return data({
+    status,
+    conversations: conversations.map(c => ({
+      id: c.id,
+      phone: c.phone,
+      customerName: c.customerName,
+      preview: c.lastMessagePreview || '',
+      unreadCount: c.unreadCount,
+      lastMessageAt: c.lastMessageAt.toISOString()
+    })),
+    selected
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const phone = formData.get("phone") as string;
+
+  if (!phone) {
+    return data({ error: "No conversation selected" }, { status: 400 });
+  }
+
+  if (intent === "reply") {
+    const message = (formData.get("message") as string || '').trim();
+    if (!message) {
+      return data({ error: "Message cannot be empty" }, { status: 400 });
+    }
+
+    try {
+      const result = await sendInboxReply(session.shop, shopId, phone, message);
+      if (!result.success) {
+        return data({ error: result.error }, { status: 400 });
+      }
+      return data({ success: true, replied: true });
+    } catch (error) {
+      console.error('Failed to send inbox reply:', error);
+      return data({ error: "Failed to send reply. Please try again." }, { status: 500 });
+    }
+  }
+
+  if (intent === "resolve" || intent === "reopen") {
+    await setConversationStatus(shopId, phone, intent === "resolve" ? 'resolved' : 'open');
+    return data({ success: true });
+  }
+
+  return data({ error: "Unknown action" }, { status: 400 });
+};
+
+const STATUS_TABS = [
+  { id: 'open', content: 'Open' },
+  { id: 'resolved', content: 'Resolved' },
+];
+
+export default function InboxPage() {
+  const { status, conversations, selected } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success?: boolean; replied?: boolean; error?: string }>();
+  const navigate = useNavigate();
+  const [reply, setReply] = useState("");
+
+  const isSending = fetcher.state === "submitting" && fetcher.formData?.get('intent') === 'reply';
+
+  // Clear the composer once the reply went out
+  useEffect(() => {
+    if (fetcher.data?.replied) {
+      setReply("");
+    }
+  }, [fetcher.data]);
+
+  const openThread = (phone: string) => {
+    navigate(`/app/inbox?status=${status}&phone=${encodeURIComponent(phone)}`);
+  };
+
+  const formatTime = (isoString: string) => new Date(isoString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <Page
+      backAction={{ content: 'Back', url: '/app' }}
+      title="Inbox"
+      fullWidth
+    >
+      <Layout>
+        {/* Conversation List */}
+        <Layout.Section variant="oneThird">
+          <Card padding="0">
+            <Tabs
+              tabs={STATUS_TABS}
+              selected={status === 'resolved' ? 1 : 0}
+              onSelect={(index) => navigate(`/app/inbox?status=${STATUS_TABS[index].id}`)}
+            />
+            <Divider />
+            {conversations.length === 0 ? (
+              <Box padding="400">
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {status === 'open' ? 'No open conversations.' : 'No resolved conversations.'}
+                </Text>
+              </Box>
+            ) : (
+              <BlockStack>
+                {conversations.map(c => (
+                  <Box
+                    key={c.id}
+                    padding="300"
+                    borderBlockEndWidth="025"
+                    borderColor="border"
+                    background={selected?.phone === c.phone ? "bg-surface-selected" : undefined}
+                  >
+                    <Button variant="plain" fullWidth textAlign="start" onClick={() => openThread(c.phone)}>
+                      {c.customerName || `+${c.phone}`}
+                    </Button>
+                    <InlineStack align="space-between" blockAlign="center">
+                      <Text as="p" variant="bodySm" tone="subdued" truncate>{c.preview}</Text>
+                      {c.unreadCount > 0 && <Badge tone="info">{String(c.unreadCount)}</Badge>}
+                    </InlineStack>
+                    <Text as="p" variant="bodyXs" tone="subdued">{formatTime(c.lastMessageAt)}</Text>
+                  </Box>
+                ))}
+              </BlockStack>
+            )}
+          </Card>
+        </Layout.Section>
+
+        {/* Thread */}
+        <Layout.Section>
+          {!selected ? (
+            <Card>
+              <EmptyState heading="Select a conversation" image="">
+                <p>Customer replies to your WhatsApp number show up here.</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <BlockStack gap="400">
+              <Card>
+                <InlineStack align="space-between" blockAlign="center">
+                  <BlockStack gap="100">
+                    <Text as="h2" variant="headingMd">{selected.customerName || `+${selected.phone}`}</Text>
+                    <Text as="p" variant="bodySm" tone="subdued">+{selected.phone}</Text>
+                  </BlockStack>
+                  <fetcher.Form method="post">
+                    <input type="hidden" name="phone" value={selected.phone} />
+                    <input type="hidden" name="intent" value={selected.status === 'resolved' ? 'reopen' : 'resolve'} />
+                    <Button submit>
+                      {selected.status === 'resolved' ? 'Reopen' : 'Mark as resolved'}
+                    </Button>
+                  </fetcher.Form>
+                </InlineStack>
+              </Card>
+
+              <Card>
+                <BlockStack gap="300">
+                  {selected.thread.length === 0 && (
+                    <Text as="p" variant="bodySm" tone="subdued">No messages yet.</Text>
+                  )}
+                  {selected.thread.map(m => (
+                    <InlineStack key={m.id} align={m.direction === 'inbound' ? 'start' : 'end'}>
+                      <Box
+                        padding="300"
+                        borderRadius="200"
+                        maxWidth="75%"
+                        background={m.direction === 'inbound' ? "bg-surface-secondary" : "bg-fill-success-secondary"}
+                      >
+                        <BlockStack gap="100">
+                          <Text as="p" variant="bodyMd">{m.text}</Text>
+                          <InlineStack gap="200">
+                            <Text as="span" variant="bodyXs" tone="subdued">{formatTime(m.at)}</Text>
+                            {m.messageType && (
+                              <Text as="span" variant="bodyXs" tone="subdued">
+                                {m.messageType.replace(/_/g, ' ')}
+                              </Text>
+                            )}
+                            {m.status === 'failed' && <Badge tone="critical">Failed</Badge>}
+                          </InlineStack>
+                        </BlockStack>
+                      </Box>
+                    </InlineStack>
+                  ))}
+                </BlockStack>
+              </Card>
+
+              {fetcher.data?.error && (
+                <Banner tone="critical">
+                  <p>{fetcher.data.error}</p>
+                </Banner>
+              )}
+
+              <Card>
+                <fetcher.Form method="post">
+                  <input type="hidden" name="intent" value="reply" />
+                  <input type="hidden" name="phone" value={selected.phone} />
+                  <BlockStack gap="300">
+                    <TextField
+                      label="Reply"
+                      labelHidden
+                      name="message"
+                      value={reply}
+                      onChange={setReply}
+                      multiline={3}
+                      autoComplete="off"
+                      placeholder="Type a reply..."
+                    />
+                    <InlineStack align="end">
+                      <Button submit variant="primary" loading={isSending} disabled={!reply.trim()}>
+                        Send
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                </fetcher.Form>
+              </Card>
+            </BlockStack>
+          )}
+        </Layout.Section>
+
+        {/* Customer Orders */}
+        {selected && (
+          <Layout.Section variant="oneThird">
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Recent Orders</Text>
+                {selected.orders.length === 0 ? (
+                  <Text as="p" variant="bodySm" tone="subdued">No Shopify orders found for this number.</Text>
+                ) : (
+                  selected.orders.map(order => (
+                    <BlockStack key={order.id} gap="100">
+                      <InlineStack align="space-between">
+                        <Text as="span" variant="bodyMd" fontWeight="semibold">{order.name}</Text>
+                        <Text as="span" variant="bodySm">{order.total}</Text>
+                      </InlineStack>
+                      <InlineStack gap="200">
+                        {order.financialStatus && <Badge>{order.financialStatus.replace(/_/g, ' ').toLowerCase()}</Badge>}
+                        {order.fulfillmentStatus && <Badge>{order.fulfillmentStatus.replace(/_/g, ' ').toLowerCase()}</Badge>}
+                      </InlineStack>
+                      <Text as="span" variant="bodyXs" tone="subdued">{formatTime(order.createdAt)}</Text>
+                      <Divider />
+                    </BlockStack>
+                  ))
+                )}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
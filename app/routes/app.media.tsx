@@ -0,0 +1,141 @@
+import { useLoaderData, useFetcher, data } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import {
+  Page,
+  Layout,
+  Card,
+  Button,
+  Text,
+  BlockStack,
+  Banner,
+  Badge,
+  DataTable,
+  DropZone,
+  EmptyState
+} from "@shopify/polaris";
+import { useCallback } from "react";
+import { authenticate } from "../shopify.server";
+import { getOrCreateShop } from "../services/automation/automation.service";
+import { listMedia, uploadMedia, deleteMedia } from "../services/media/media.service";
+import { ACCEPTED_MIME_TYPES, MEDIA_TYPES, formatFileSize } from "../services/media/media.constants";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  return data({ assets: await listMedia(shopId) });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "upload") {
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return data({ error: "Choose a file to upload" }, { status: 400 });
+    }
+    const result = await uploadMedia(shopId, file);
+    return result.success ? data({ success: true, uploaded: true }) : data({ error: result.error }, { status: 400 });
+  }
+
+  if (intent === "delete") {
+    const result = await deleteMedia(shopId, (formData.get("mediaId") as string) || '');
+    return result.success ? data({ success: true }) : data({ error: result.error }, { status: 400 });
+  }
+
+  return data({ error: "Unknown action" }, { status: 400 });
+};
+
+export default function MediaPage() {
+  const { assets } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success?: boolean; uploaded?: boolean; error?: string }>();
+  const isUploading = fetcher.state !== "idle" && fetcher.formData?.get("intent") === "upload";
+
+  const handleDrop = useCallback((_dropped: File[], accepted: File[], rejected: File[]) => {
+    const file = accepted[0];
+    if (!file) {
+      if (rejected.length > 0) {
+        alert(`${rejected[0].name} isn't a supported file type`);
+      }
+      return;
+    }
+    const formData = new FormData();
+    formData.append("intent", "upload");
+    formData.append("file", file);
+    fetcher.submit(formData, { method: "post", encType: "multipart/form-data" });
+  }, [fetcher]);
+
+  const formatDate = (isoString: string) => new Date(isoString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  const rows = assets.map(asset => [
+    asset.fileName,
+    <Badge key={`${asset.id}-type`}>{MEDIA_TYPES[asset.mediaType]?.label || asset.mediaType}</Badge>,
+    formatFileSize(asset.sizeBytes),
+    formatDate(asset.createdAt),
+    <fetcher.Form key={`${asset.id}-delete`} method="post">
+      <input type="hidden" name="intent" value="delete" />
+      <input type="hidden" name="mediaId" value={asset.id} />
+      <Button submit variant="plain" tone="critical">Delete</Button>
+    </fetcher.Form>
+  ]);
+
+  return (
+    <Page
+      backAction={{ content: 'Back', url: '/app' }}
+      title="Media"
+      subtitle="Images, documents, videos and audio to send with campaigns and automations."
+    >
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {fetcher.data?.error && (
+              <Banner tone="critical">
+                <p>{fetcher.data.error}</p>
+              </Banner>
+            )}
+
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Upload a file</Text>
+                <DropZone
+                  accept={ACCEPTED_MIME_TYPES.join(',')}
+                  allowMultiple={false}
+                  onDrop={handleDrop}
+                  disabled={isUploading}
+                >
+                  <DropZone.FileUpload actionTitle={isUploading ? 'Uploading...' : 'Add file'} />
+                </DropZone>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {Object.values(MEDIA_TYPES).map(type => `${type.label}s up to ${formatFileSize(type.maxBytes)}`).join(' · ')}.
+                  {' '}Images and videos show the message as their caption; audio is followed by the message.
+                </Text>
+              </BlockStack>
+            </Card>
+
+            <Card padding={rows.length === 0 ? undefined : '0'}>
+              {rows.length === 0 ? (
+                <EmptyState heading="No media yet" image="">
+                  <p>Uploaded files can be attached to campaigns and automations.</p>
+                </EmptyState>
+              ) : (
+                <DataTable
+                  columnContentTypes={['text', 'text', 'numeric', 'text', 'text']}
+                  headings={['File', 'Type', 'Size', 'Uploaded', '']}
+                  rows={rows}
+                />
+              )}
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
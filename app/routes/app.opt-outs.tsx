@@ -0,0 +1,214 @@
+import { useLoaderData, useFetcher, useNavigate, data } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import {
+  Page,
+  Layout,
+  Card,
+  Button,
+  Text,
+  BlockStack,
+  InlineStack,
+  TextField,
+  Banner,
+  Badge,
+  DataTable,
+  EmptyState
+} from "@shopify/polaris";
+import { useState, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import { getOrCreateShop } from "../services/automation/automation.service";
+import {
+  listSuppressedPhones,
+  suppressPhone,
+  unsuppressPhone,
+  updateMarketingConsent
+} from "../services/suppression/suppression.service";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const url = new URL(request.url);
+  const search = url.searchParams.get('q') || '';
+  const entries = await listSuppressedPhones(shopId, search);
+
+  return data({
+    search,
+    entries: entries.map(entry => ({
+      id: entry.id,
+      phone: entry.phone,
+      reason: entry.reason,
+      keyword: entry.keyword,
+      note: entry.note,
+      createdAt: entry.createdAt.toISOString()
+    }))
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const shopId = await getOrCreateShop(session.shop);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const phone = (formData.get("phone") as string || '').trim();
+
+  // Country code + number, 8 to 15 digits
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 15) {
+    return data({ error: "Enter the number with its country code, e.g. +91 98765 43210" }, { status: 400 });
+  }
+
+  if (intent === "add") {
+    const note = (formData.get("note") as string || '').trim();
+    await suppressPhone(shopId, digits, { reason: 'manual', note: note || undefined });
+
+    try {
+      await updateMarketingConsent(admin.graphql, digits, false);
+    } catch (error) {
+      console.error(`Failed to update Shopify marketing consent for ${digits}:`, error);
+      return data({ success: true, added: true, warning: "Added, but the customer's marketing consent in Shopify could not be updated." });
+    }
+
+    return data({ success: true, added: true });
+  }
+
+  if (intent === "remove") {
+    await unsuppressPhone(shopId, digits);
+    return data({ success: true });
+  }
+
+  return data({ error: "Unknown action" }, { status: 400 });
+};
+
+const REASON_LABELS: Record<string, string> = {
+  stop_keyword: 'Replied STOP',
+  manual: 'Added manually'
+};
+
+export default function OptOutsPage() {
+  const { search, entries } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success?: boolean; added?: boolean; warning?: string; error?: string }>();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState(search);
+  const [phone, setPhone] = useState("");
+  const [note, setNote] = useState("");
+
+  // Clear the form once the number is on the list
+  useEffect(() => {
+    if (fetcher.data?.added) {
+      setPhone("");
+      setNote("");
+    }
+  }, [fetcher.data]);
+
+  const formatDate = (isoString: string) => new Date(isoString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  const rows = entries.map(entry => [
+    `+${entry.phone}`,
+    <Badge key={`${entry.id}-reason`} tone={entry.reason === 'stop_keyword' ? 'attention' : undefined}>
+      {REASON_LABELS[entry.reason] || entry.reason}
+    </Badge>,
+    entry.keyword ? `"${entry.keyword}"` : entry.note || '-',
+    formatDate(entry.createdAt),
+    <fetcher.Form key={`${entry.id}-remove`} method="post">
+      <input type="hidden" name="intent" value="remove" />
+      <input type="hidden" name="phone" value={entry.phone} />
+      <Button submit variant="plain" tone="critical">Remove</Button>
+    </fetcher.Form>
+  ]);
+
+  return (
+    <Page
+      backAction={{ content: 'Back', url: '/app' }}
+      title="Opt-outs"
+      subtitle="Numbers on this list receive no automations or campaigns."
+    >
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {fetcher.data?.error && (
+              <Banner tone="critical">
+                <p>{fetcher.data.error}</p>
+              </Banner>
+            )}
+            {fetcher.data?.warning && (
+              <Banner tone="warning">
+                <p>{fetcher.data.warning}</p>
+              </Banner>
+            )}
+
+            <Card>
+              <fetcher.Form method="post">
+                <input type="hidden" name="intent" value="add" />
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">Add a number</Text>
+                  <InlineStack gap="300" blockAlign="end" wrap={false}>
+                    <TextField
+                      label="Phone number"
+                      name="phone"
+                      value={phone}
+                      onChange={setPhone}
+                      placeholder="+91 98765 43210"
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Note"
+                      name="note"
+                      value={note}
+                      onChange={setNote}
+                      placeholder="Asked by email"
+                      autoComplete="off"
+                    />
+                    <Button submit variant="primary" disabled={!phone.trim()} loading={fetcher.state === "submitting"}>
+                      Add
+                    </Button>
+                  </InlineStack>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Customers are added automatically when they reply STOP (or UNSUBSCRIBE, BAND, BAJA, ...) and removed
+                    when they reply START. Their SMS marketing consent in Shopify is updated to match.
+                  </Text>
+                </BlockStack>
+              </fetcher.Form>
+            </Card>
+
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">Suppression list</Text>
+                  <InlineStack gap="200" blockAlign="center">
+                    <TextField
+                      label="Search"
+                      labelHidden
+                      value={query}
+                      onChange={setQuery}
+                      placeholder="Search by number"
+                      autoComplete="off"
+                    />
+                    <Button onClick={() => navigate(`/app/opt-outs?q=${encodeURIComponent(query)}`)}>Search</Button>
+                  </InlineStack>
+                </InlineStack>
+
+                {rows.length === 0 ? (
+                  <EmptyState heading={search ? "No matching numbers" : "No opt-outs yet"} image="">
+                    <p>Numbers that opt out of WhatsApp messages show up here.</p>
+                  </EmptyState>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                    headings={['Phone', 'Reason', 'Details', 'Since', '']}
+                    rows={rows}
+                  />
+                )}
+              </BlockStack>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
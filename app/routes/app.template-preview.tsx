@@ -0,0 +1,17 @@
+import { data } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { previewTemplate } from "../services/automation/template-preview.service";
+
+// Validation + live preview for the template editor
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const template = (formData.get("template") as string) || '';
+  const withMedia = formData.get("sendProductImages") === "true";
+
+  const preview = await previewTemplate(admin.graphql, session.shop, template, { withMedia });
+
+  return data(preview);
+};
@@ -51,6 +51,11 @@ export default function App() {
       >
         <s-app-nav>
           <s-link href="/app">Home</s-link>
+          <s-link href="/app/campaigns">Campaigns</s-link>
+          <s-link href="/app/inbox">Inbox</s-link>
+          <s-link href="/app/widgets">Widgets</s-link>
+          <s-link href="/app/media">Media</s-link>
+          <s-link href="/app/opt-outs">Opt-outs</s-link>
           <s-link href="/app/additional">Additional page</s-link>
         </s-app-nav>
         <Outlet />
@@ -11,11 +11,14 @@ import {
   Box,
   InlineStack,
   Badge,
-  Spinner
+  Spinner,
+  ProgressBar
 } from "@shopify/polaris";
 import { useState, useEffect } from "react";
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server";
+import { type SendingStatus, getSendingStatus } from "../services/queue/send-pacing.service";
+import { requestConnectionCommand } from "../services/whatsapp/connection-queue.service";
 import QRCode from "react-qr-code";
 
 // Server-only imports - these run only on the server
@@ -36,13 +39,22 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       }
     });
 
+    // Limits live in Redis - the page still works without them
+    let sending: SendingStatus | null = null;
+    try {
+      sending = await getSendingStatus(shopId);
+    } catch (error) {
+      console.error('Error loading sending limits:', error);
+    }
+
     return data({
       shop: shopId,
       isConnected: shop?.whatsappConnected || false,
       connectionStatus: shop?.connectionStatus || 'disconnected',
       qrCode: shop?.qrCode || null,
       testPhone: shop?.testPhone || null,
-      whatsappNumber: shop?.whatsappNumber || null
+      whatsappNumber: shop?.whatsappNumber || null,
+      sending
     });
   } catch (error) {
     console.error('Error loading WhatsApp status:', error);
@@ -52,7 +64,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       connectionStatus: 'error',
       qrCode: null,
       testPhone: null,
-      whatsappNumber: null
+      whatsappNumber: null,
+      sending: null
     });
   }
 };
@@ -81,27 +94,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         data: { connectionStatus: 'connecting', qrCode: null }
       });
 
-      // Dynamic import to avoid bundling issues in browser
+      // The message sender worker owns the socket - it stores the QR code in the DB
       try {
-        const { BaileysService } = await import("../services/whatsapp/baileys.service");
-        const baileys = new BaileysService();
-        
-        // This starts the connection process - QR will be stored in DB
-        // The connection happens asynchronously
-        baileys.initializeConnection(shopId).catch(async (err) => {
-          console.error('WhatsApp connection error:', err);
-          // Update status to error
-          try {
-            await prisma.shop.update({
-              where: { shopifyDomain: shopId },
-              data: { connectionStatus: 'error', qrCode: null }
-            });
-          } catch (updateError) {
-            console.error('Failed to update error status:', updateError);
-          }
-        });
-      } catch (baileysError) {
-        console.error('Failed to initialize BaileysService:', baileysError);
+        await requestConnectionCommand(shopId, 'connect');
+      } catch (queueError) {
+        console.error('Failed to request WhatsApp connection:', queueError);
         await prisma.shop.update({
           where: { shopifyDomain: shopId },
           data: { 
@@ -124,10 +121,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   if (intent === "disconnect") {
     try {
-      // Dynamic import to avoid bundling issues
-      const { BaileysService } = await import("../services/whatsapp/baileys.service");
-      const baileys = new BaileysService();
-      await baileys.logout(shopId);
+      // The worker closes the socket and clears the stored session
+      await requestConnectionCommand(shopId, 'logout');
       
       // Update database
       await prisma.shop.update({
@@ -168,7 +163,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function WhatsAppConnectionPage() {
-  const { isConnected, connectionStatus, qrCode: initialQr, testPhone, whatsappNumber } = useLoaderData<typeof loader>();
+  const { isConnected, connectionStatus, qrCode: initialQr, testPhone, whatsappNumber, sending } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<{ status?: string; message?: string; refreshed?: boolean }>();
   
   // Poll for QR code updates when connecting
@@ -280,6 +275,40 @@ export default function WhatsAppConnectionPage() {
           </Card>
         </Layout.Section>
 
+        {/* Sending Limits Card */}
+        {isConnected && sending && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">Sending Limits</Text>
+                  {sending.warmingUp && <Badge tone="info">Warming up</Badge>}
+                </InlineStack>
+
+                {sending.pausedUntil && (
+                  <Banner tone="critical" title={`Sending paused until ${new Date(sending.pausedUntil).toLocaleString()}`}>
+                    <p>
+                      {sending.pauseReason === 'restricted'
+                        ? 'WhatsApp restricted this number. Messages wait until the pause ends to avoid a ban.'
+                        : 'WhatsApp is rate limiting this number. Messages wait until the pause ends, then continue more slowly.'}
+                    </p>
+                  </Banner>
+                )}
+
+                <Text as="p">
+                  {sending.sentLast24h} of {sending.dailyCap} messages sent in the last 24 hours
+                </Text>
+                <ProgressBar progress={Math.min(100, (sending.sentLast24h / sending.dailyCap) * 100)} size="small" />
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Messages go out one at a time with short random gaps, like a person sending them.
+                  {sending.warmingUp && ' Newly linked numbers start with a lower daily limit that rises over their first 30 days.'}
+                  {' '}Campaign messages over the limit wait until it frees up; order updates are always sent.
+                </Text>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
         {/* Test Phone Number Card */}
         <Layout.Section>
           <Card>
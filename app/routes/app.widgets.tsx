@@ -0,0 +1,275 @@
+import { useLoaderData, useFetcher, data } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import {
+  Page,
+  Layout,
+  Card,
+  Button,
+  Text,
+  BlockStack,
+  InlineStack,
+  TextField,
+  Banner,
+  Badge,
+  Checkbox,
+  Select,
+  ChoiceList
+} from "@shopify/polaris";
+import { useState } from "react";
+import { authenticate } from "../shopify.server";
+import { getOrCreateShop } from "../services/automation/automation.service";
+import { getWidgets, saveWidget, syncWidgetMetafield } from "../services/widget/widget.service";
+import {
+  type WidgetType,
+  type WidgetPosition,
+  type WidgetPageType,
+  type ChatButtonSettings,
+  type ProductButtonSettings,
+  WIDGET_META,
+  WIDGET_PAGE_OPTIONS
+} from "../services/widget/widget.constants";
+
+const POSITION_OPTIONS: Array<{ label: string; value: WidgetPosition }> = [
+  { label: 'Bottom right', value: 'bottom-right' },
+  { label: 'Bottom left', value: 'bottom-left' },
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  await getOrCreateShop(session.shop);
+
+  const widgets = await getWidgets(session.shop);
+
+  return data({ widgets });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const type = formData.get("type") as WidgetType;
+  const enabled = formData.get("enabled") === "true";
+  const settingsJson = formData.get("settings") as string;
+
+  if (!WIDGET_META[type]) {
+    return data({ error: "Unknown widget" }, { status: 400 });
+  }
+
+  let settings: Record<string, unknown>;
+  try {
+    settings = JSON.parse(settingsJson);
+  } catch {
+    return data({ error: "Invalid widget settings" }, { status: 400 });
+  }
+
+  const colors = [settings.backgroundColor, settings.iconColor, settings.textColor].filter(c => c !== undefined);
+  if (colors.some(c => typeof c !== 'string' || !HEX_COLOR.test(c))) {
+    return data({ error: "Colors must be hex values like #25D366" }, { status: 400 });
+  }
+
+  await saveWidget(session.shop, type, enabled, settings);
+
+  try {
+    await syncWidgetMetafield(admin.graphql, session.shop);
+  } catch (error) {
+    console.error('Failed to publish widget settings:', error);
+    return data({ error: "Settings saved, but could not be published to your storefront. Please try again." }, { status: 500 });
+  }
+
+  return data({ success: true, message: `${WIDGET_META[type].title} saved!` });
+};
+
+function ColorField({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <TextField
+      label={label}
+      value={value}
+      onChange={onChange}
+      autoComplete="off"
+      prefix={<span style={{ display: 'inline-block', width: 16, height: 16, borderRadius: 4, background: value }} />}
+      error={HEX_COLOR.test(value) ? undefined : 'Use a hex color like #25D366'}
+    />
+  );
+}
+
+function ChatButtonCard({ enabled: initialEnabled, settings: initialSettings }: { enabled: boolean; settings: ChatButtonSettings }) {
+  const fetcher = useFetcher<{ success?: boolean; message?: string; error?: string }>();
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [settings, setSettings] = useState(initialSettings);
+
+  const update = <K extends keyof ChatButtonSettings>(key: K, value: ChatButtonSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <fetcher.Form method="post">
+        <input type="hidden" name="type" value="chat_button" />
+        <input type="hidden" name="enabled" value={enabled ? "true" : "false"} />
+        <input type="hidden" name="settings" value={JSON.stringify(settings)} />
+        <BlockStack gap="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <BlockStack gap="100">
+              <Text as="h2" variant="headingMd">{WIDGET_META.chat_button.title}</Text>
+              <Text as="p" variant="bodySm" tone="subdued">{WIDGET_META.chat_button.description}</Text>
+            </BlockStack>
+            <Badge tone={enabled ? "success" : undefined}>{enabled ? "Active" : "Inactive"}</Badge>
+          </InlineStack>
+
+          {fetcher.data?.success && <Banner tone="success"><p>{fetcher.data.message}</p></Banner>}
+          {fetcher.data?.error && <Banner tone="critical"><p>{fetcher.data.error}</p></Banner>}
+
+          <Checkbox label="Show the chat button on my storefront" checked={enabled} onChange={setEnabled} />
+
+          <TextField
+            label="WhatsApp number"
+            value={settings.phone}
+            onChange={(value) => update('phone', value)}
+            autoComplete="off"
+            placeholder="919876543210"
+            helpText="With country code. Leave empty to use your connected WhatsApp number."
+          />
+          <TextField
+            label="Button label"
+            value={settings.label}
+            onChange={(value) => update('label', value)}
+            autoComplete="off"
+            helpText="Shown next to the icon on desktop. Leave empty for an icon-only button."
+          />
+          <TextField
+            label="Prefilled message"
+            value={settings.prefilledText}
+            onChange={(value) => update('prefilledText', value)}
+            multiline={2}
+            autoComplete="off"
+          />
+
+          <Select
+            label="Position"
+            options={POSITION_OPTIONS}
+            value={settings.position}
+            onChange={(value) => update('position', value as WidgetPosition)}
+          />
+          <InlineStack gap="400" wrap={false}>
+            <ColorField label="Background color" value={settings.backgroundColor} onChange={(value) => update('backgroundColor', value)} />
+            <ColorField label="Icon color" value={settings.iconColor} onChange={(value) => update('iconColor', value)} />
+          </InlineStack>
+
+          <ChoiceList
+            title="Show on"
+            allowMultiple
+            choices={WIDGET_PAGE_OPTIONS}
+            selected={settings.pages}
+            onChange={(value) => update('pages', value as WidgetPageType[])}
+          />
+          <Text as="p" variant="bodySm" tone="subdued">Select nothing to show the button on every page.</Text>
+
+          <InlineStack gap="400">
+            <Checkbox label="Show on mobile" checked={settings.showOnMobile} onChange={(value) => update('showOnMobile', value)} />
+            <Checkbox label="Show on desktop" checked={settings.showOnDesktop} onChange={(value) => update('showOnDesktop', value)} />
+          </InlineStack>
+
+          <InlineStack align="end">
+            <Button submit variant="primary" loading={fetcher.state === "submitting"}>Save</Button>
+          </InlineStack>
+        </BlockStack>
+      </fetcher.Form>
+    </Card>
+  );
+}
+
+function ProductButtonCard({ enabled: initialEnabled, settings: initialSettings }: { enabled: boolean; settings: ProductButtonSettings }) {
+  const fetcher = useFetcher<{ success?: boolean; message?: string; error?: string }>();
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [settings, setSettings] = useState(initialSettings);
+
+  const update = <K extends keyof ProductButtonSettings>(key: K, value: ProductButtonSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <fetcher.Form method="post">
+        <input type="hidden" name="type" value="product_button" />
+        <input type="hidden" name="enabled" value={enabled ? "true" : "false"} />
+        <input type="hidden" name="settings" value={JSON.stringify(settings)} />
+        <BlockStack gap="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <BlockStack gap="100">
+              <Text as="h2" variant="headingMd">{WIDGET_META.product_button.title}</Text>
+              <Text as="p" variant="bodySm" tone="subdued">{WIDGET_META.product_button.description}</Text>
+            </BlockStack>
+            <Badge tone={enabled ? "success" : undefined}>{enabled ? "Active" : "Inactive"}</Badge>
+          </InlineStack>
+
+          {fetcher.data?.success && <Banner tone="success"><p>{fetcher.data.message}</p></Banner>}
+          {fetcher.data?.error && <Banner tone="critical"><p>{fetcher.data.error}</p></Banner>}
+
+          <Checkbox label="Show the button on product pages" checked={enabled} onChange={setEnabled} />
+
+          <TextField
+            label="WhatsApp number"
+            value={settings.phone}
+            onChange={(value) => update('phone', value)}
+            autoComplete="off"
+            placeholder="919876543210"
+            helpText="With country code. Leave empty to use your connected WhatsApp number."
+          />
+          <TextField
+            label="Button text"
+            value={settings.buttonText}
+            onChange={(value) => update('buttonText', value)}
+            autoComplete="off"
+          />
+          <TextField
+            label="Prefilled message"
+            value={settings.prefilledText}
+            onChange={(value) => update('prefilledText', value)}
+            multiline={3}
+            autoComplete="off"
+            helpText="Available: {product_name}, {variant_title}, {price}, {quantity}, {product_url}"
+          />
+          <InlineStack gap="400" wrap={false}>
+            <ColorField label="Background color" value={settings.backgroundColor} onChange={(value) => update('backgroundColor', value)} />
+            <ColorField label="Text color" value={settings.textColor} onChange={(value) => update('textColor', value)} />
+          </InlineStack>
+
+          <InlineStack align="end">
+            <Button submit variant="primary" loading={fetcher.state === "submitting"}>Save</Button>
+          </InlineStack>
+        </BlockStack>
+      </fetcher.Form>
+    </Card>
+  );
+}
+
+export default function WidgetsPage() {
+  const { widgets } = useLoaderData<typeof loader>();
+
+  return (
+    <Page
+      backAction={{ content: 'Back', url: '/app' }}
+      title="Storefront Widgets"
+    >
+      <Layout>
+        <Layout.Section>
+          <Banner tone="info">
+            <p>
+              After saving, turn on the <strong>WhatSend chat button</strong> app embed and add the
+              <strong> Order on WhatsApp</strong> block to your product template in the theme editor.
+            </p>
+          </Banner>
+        </Layout.Section>
+
+        <Layout.Section>
+          <BlockStack gap="400">
+            <ChatButtonCard enabled={widgets.chat_button.enabled} settings={widgets.chat_button.settings} />
+            <ProductButtonCard enabled={widgets.product_button.enabled} settings={widgets.product_button.settings} />
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
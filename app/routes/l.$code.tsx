@@ -0,0 +1,27 @@
+/**
+ * Public short link redirect
+ *
+ * Links in outgoing WhatsApp messages are rewritten to /l/<code>. Each visit
+ * is counted against the message, campaign and automation that sent it
+ * before the customer is sent on to the original URL.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { redirect } from "react-router";
+import { resolveShortLink } from "../services/links/short-link.service";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const code = params.code;
+
+  if (!code) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const url = await resolveShortLink(code, request.headers.get("user-agent"));
+
+  if (!url) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  return redirect(url, { headers: { "Cache-Control": "no-store" } });
+};
@@ -0,0 +1,60 @@
+/**
+ * App Proxy: back in stock subscriptions
+ *
+ * Storefront requests to /apps/whatsend/back-in-stock are forwarded here by
+ * Shopify's app proxy, which signs them so we know which shop they came from.
+ */
+
+import type { ActionFunctionArgs } from "react-router";
+import { data } from "react-router";
+import { authenticate } from "../shopify.server";
+import { isAutomationEnabled } from "../services/automation/automation.service";
+import { subscribeToVariant } from "../services/back-in-stock/back-in-stock.service";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.public.appProxy(request);
+
+  if (!session) {
+    return data({ success: false, error: "Shop is not installed" }, { status: 401 });
+  }
+
+  const shop = session.shop;
+
+  const isEnabled = await isAutomationEnabled(shop, 'back_in_stock');
+  if (!isEnabled) {
+    return data({ success: false, error: "Back in stock alerts are not available" }, { status: 400 });
+  }
+
+  const formData = await request.formData();
+  const productId = formData.get("product_id") as string;
+  const variantId = formData.get("variant_id") as string;
+  const phone = (formData.get("phone") as string || '').trim();
+  const customerName = (formData.get("name") as string || '').trim();
+  const productTitle = formData.get("product_title") as string | null;
+  const productUrl = formData.get("product_url") as string | null;
+
+  if (!productId || !variantId) {
+    return data({ success: false, error: "Missing product" }, { status: 400 });
+  }
+
+  // Country code + number, 8 to 15 digits
+  if (!phone.replace(/\D/g, '').match(/^\d{8,15}$/)) {
+    return data({ success: false, error: "Please enter a valid WhatsApp number with country code" }, { status: 400 });
+  }
+
+  try {
+    await subscribeToVariant(shop, {
+      productId,
+      variantId,
+      phone,
+      customerName: customerName || undefined,
+      productTitle: productTitle || undefined,
+      productUrl: productUrl || undefined
+    });
+
+    return data({ success: true, message: "We'll message you on WhatsApp when it's back in stock." });
+  } catch (error) {
+    console.error("Failed to save back in stock subscription:", error);
+    return data({ success: false, error: "Something went wrong. Please try again." }, { status: 500 });
+  }
+};
@@ -11,6 +11,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { deleteCustomerInvoices } from "../services/invoice/invoice.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { shop, topic, payload } = await authenticate.webhook(request);
@@ -58,6 +59,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     let deletedMessages = 0;
     let deletedQueuedMessages = 0;
+    let deletedInboundMessages = 0;
 
     // Delete customer data based on phone number
     if (customerPhone) {
@@ -84,6 +86,60 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         },
       });
       deletedQueuedMessages = deletedQueue.count;
+
+      // Delete messages this customer sent to the shop
+      const deletedInbound = await db.inboundMessage.deleteMany({
+        where: {
+          shopId: shopRecord.id,
+          senderPhone: {
+            contains: phonePattern,
+          },
+        },
+      });
+      deletedInboundMessages = deletedInbound.count;
+
+      // Delete back in stock subscriptions for this number
+      await db.backInStockSubscription.deleteMany({
+        where: {
+          shopId: shopRecord.id,
+          phone: {
+            contains: phonePattern,
+          },
+        },
+      });
+
+      // Delete abandoned checkout sequences (their snapshots hold name and contact details)
+      await db.recoverySequence.deleteMany({
+        where: {
+          shopId: shopRecord.id,
+          phone: {
+            contains: phonePattern,
+          },
+        },
+      });
+
+      // Delete order confirmation requests (same snapshot data)
+      await db.orderConfirmation.deleteMany({
+        where: {
+          shopId: shopRecord.id,
+          phone: {
+            contains: phonePattern,
+          },
+        },
+      });
+
+      // Delete short links sent to this number (and their clicks)
+      await db.trackedLink.deleteMany({
+        where: {
+          shopId: shopRecord.id,
+          recipientPhone: {
+            contains: phonePattern,
+          },
+        },
+      });
+
+      // Suppression list entries are kept on purpose - deleting one would
+      // let the shop message a customer who asked to be left alone
     }
 
     // Also delete any messages related to specific orders
@@ -109,6 +165,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       deletedQueuedMessages += deletedOrderQueue.count;
     }
 
+    // Delete PDF invoices, which carry the customer's name and addresses
+    const deletedInvoices = await deleteCustomerInvoices(
+      shopRecord.id,
+      ordersToRedact.map(id => id.toString()),
+      customerPhone ? customerPhone.replace(/\D/g, '').slice(-10) : undefined
+    );
+
     console.log(`Deleted ${deletedMessages} message history records and ${deletedQueuedMessages} queued messages for customer`);
 
     return new Response(JSON.stringify({
@@ -118,6 +181,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       deletedRecords: {
         messageHistory: deletedMessages,
         queuedMessages: deletedQueuedMessages,
+        inboundMessages: deletedInboundMessages,
+        invoices: deletedInvoices,
       },
       message: "Customer data deleted successfully",
     }), {
@@ -11,6 +11,8 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { deleteShopMedia } from "../services/media/media.service";
+import { deleteShopInvoices } from "../services/invoice/invoice.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { shop, topic, payload } = await authenticate.webhook(request);
@@ -90,13 +92,21 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
     console.log(`Deleted ${deletedLogs.count} connection logs`);
 
-    // 6. Finally, delete the shop record itself
+    // 6. Delete uploaded media files - their rows go with the shop
+    const deletedMedia = await deleteShopMedia(shopRecord.id);
+    console.log(`Deleted ${deletedMedia} media files`);
+
+    // 7. Delete generated invoice files - their rows go with the shop too
+    const deletedInvoices = await deleteShopInvoices(shopRecord.id);
+    console.log(`Deleted ${deletedInvoices} invoice files`);
+
+    // 8. Finally, delete the shop record itself
     await db.shop.delete({
       where: { id: shopRecord.id },
     });
     console.log(`Deleted shop record for ${shop}`);
 
-    // 7. Clean up any remaining session data
+    // 9. Clean up any remaining session data
     const deletedSessions = await db.session.deleteMany({
       where: { shop: shop },
     });
@@ -113,6 +123,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         automations: deletedAutomations.count,
         widgets: deletedWidgets.count,
         connectionLogs: deletedLogs.count,
+        mediaFiles: deletedMedia,
+        invoiceFiles: deletedInvoices,
         sessions: deletedSessions.count,
         shopRecord: 1,
       },
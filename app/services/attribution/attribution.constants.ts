@@ -0,0 +1,46 @@
+// Which messages can earn an order, and how a landing link names them
+
+import { UTM_SOURCE } from "../automation/template.service";
+
+// Messages that can earn an order - order updates are a result of the order, not its cause
+export const ATTRIBUTABLE_MESSAGE_TYPES = [
+  'abandoned_checkout',
+  'draft_order_recovery',
+  'back_in_stock',
+  'campaign',
+  'auto_replier',
+  'inbox_reply'
+];
+
+/**
+ * Send times that can earn an order placed at createdAt
+ */
+export function attributionWindow(createdAt: Date, hours: number): { gte: Date; lte: Date } {
+  return { gte: new Date(createdAt.getTime() - hours * 60 * 60 * 1000), lte: createdAt };
+}
+
+/**
+ * Read WhatSend UTM parameters from an order's landing site
+ * Returns the utm_campaign value, or null for other traffic
+ */
+export function parseWhatsendUtm(landingSite: string | null | undefined): { messageType?: string; campaignId?: string } | null {
+  if (!landingSite) {
+    return null;
+  }
+
+  let params: URLSearchParams;
+  try {
+    params = new URL(landingSite, 'https://placeholder.invalid').searchParams;
+  } catch {
+    return null;
+  }
+
+  const utmCampaign = params.get('utm_campaign');
+  if (params.get('utm_source') !== UTM_SOURCE || !utmCampaign) {
+    return null;
+  }
+
+  return utmCampaign.startsWith('campaign_')
+    ? { messageType: 'campaign', campaignId: utmCampaign.slice('campaign_'.length) }
+    : { messageType: utmCampaign };
+}
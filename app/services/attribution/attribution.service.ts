@@ -0,0 +1,245 @@
+/**
+ * Attribution Service
+ * Credits Shopify orders to the WhatsApp message or campaign that drove
+ * them and reports revenue, conversion rate and ROI
+ */
+
+import prisma from "../../db.server";
+import { ATTRIBUTABLE_MESSAGE_TYPES, attributionWindow, parseWhatsendUtm } from "./attribution.constants";
+
+// Messages that actually went out - failed and quota-skipped ones never reached the customer
+const SENT_STATUSES = ['sent', 'delivered', 'read'];
+
+// How far back a tagged link can point to the message it came from
+const UTM_LOOKBACK_DAYS = 30;
+
+export interface AttributionSettings {
+  attributionWindowHours: number;
+  costPerMessage: number;
+}
+
+export interface AttributionRow {
+  key: string;       // Message type or campaign ID
+  label: string;
+  sent: number;
+  orders: number;
+  revenue: number;
+  cost: number;
+  conversionRate: number;
+  roi: number | null; // Null when nothing was spent
+}
+
+export interface AttributionReport {
+  totalRevenue: number;
+  totalOrders: number;
+  byType: AttributionRow[];
+  byCampaign: AttributionRow[];
+}
+
+/**
+ * Credit a new order to a WhatsApp message
+ * A tagged landing link wins; otherwise the last attributable message
+ * inside the shop's window gets the order. Webhook retries keep the first result.
+ */
+export async function attributeOrder(
+  shopId: string,
+  order: {
+    orderId: string;
+    orderNumber?: string;
+    phone?: string;
+    revenue: number;
+    currency?: string;
+    createdAt: Date;
+    landingSite?: string | null;
+  }
+) {
+  const existing = await prisma.orderAttribution.findUnique({
+    where: { shopId_orderId: { shopId, orderId: order.orderId } }
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: { attributionWindowHours: true }
+  });
+  const windowHours = shop?.attributionWindowHours ?? 24;
+
+  const utm = parseWhatsendUtm(order.landingSite);
+  let method: 'utm' | 'window';
+  let message: { id: string; messageType: string; campaignId: string | null } | null = null;
+
+  if (utm) {
+    method = 'utm';
+    if (order.phone) {
+      message = await prisma.messageHistory.findFirst({
+        where: {
+          shopId,
+          recipientPhone: order.phone,
+          status: { in: SENT_STATUSES },
+          sentAt: attributionWindow(order.createdAt, UTM_LOOKBACK_DAYS * 24),
+          ...(utm.campaignId ? { campaignId: utm.campaignId } : { messageType: utm.messageType })
+        },
+        orderBy: { sentAt: 'desc' },
+        select: { id: true, messageType: true, campaignId: true }
+      });
+    }
+  } else {
+    method = 'window';
+    if (!order.phone || windowHours <= 0) {
+      return null;
+    }
+    message = await prisma.messageHistory.findFirst({
+      where: {
+        shopId,
+        recipientPhone: order.phone,
+        status: { in: SENT_STATUSES },
+        messageType: { in: ATTRIBUTABLE_MESSAGE_TYPES },
+        sentAt: attributionWindow(order.createdAt, windowHours)
+      },
+      orderBy: { sentAt: 'desc' },
+      select: { id: true, messageType: true, campaignId: true }
+    });
+    if (!message) {
+      return null;
+    }
+  }
+
+  try {
+    return await prisma.orderAttribution.create({
+      data: {
+        shopId,
+        orderId: order.orderId,
+        orderNumber: order.orderNumber,
+        revenue: order.revenue,
+        currency: order.currency,
+        messageHistoryId: message?.id,
+        messageType: message?.messageType || utm?.messageType || 'unknown',
+        campaignId: message?.campaignId || utm?.campaignId,
+        method,
+        orderCreatedAt: order.createdAt
+      }
+    });
+  } catch (error) {
+    // Unique (shopId, orderId) - a concurrent delivery of the same webhook won
+    if ((error as { code?: string }).code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Attribution window and message cost for a shop
+ */
+export async function getAttributionSettings(shopId: string): Promise<AttributionSettings> {
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: { attributionWindowHours: true, costPerMessage: true }
+  });
+
+  return {
+    attributionWindowHours: shop?.attributionWindowHours ?? 24,
+    costPerMessage: shop?.costPerMessage ?? 0
+  };
+}
+
+export async function updateAttributionSettings(shopId: string, settings: AttributionSettings): Promise<void> {
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: {
+      attributionWindowHours: Math.max(0, Math.min(24 * 30, Math.round(settings.attributionWindowHours))),
+      costPerMessage: Math.max(0, settings.costPerMessage)
+    }
+  });
+}
+
+/**
+ * Revenue, conversion rate and ROI per automation type and per campaign
+ * Messages count by send date, orders by order date
+ */
+export async function getAttributionReport(shopId: string, start: Date, end: Date): Promise<AttributionReport> {
+  const [settings, sentByType, sentByCampaign, ordersByType, ordersByCampaign] = await Promise.all([
+    getAttributionSettings(shopId),
+    prisma.messageHistory.groupBy({
+      by: ['messageType'],
+      where: { shopId, status: { in: SENT_STATUSES }, sentAt: { gte: start, lte: end } },
+      _count: { _all: true }
+    }),
+    prisma.messageHistory.groupBy({
+      by: ['campaignId'],
+      where: { shopId, status: { in: SENT_STATUSES }, campaignId: { not: null }, sentAt: { gte: start, lte: end } },
+      _count: { _all: true }
+    }),
+    prisma.orderAttribution.groupBy({
+      by: ['messageType'],
+      where: { shopId, orderCreatedAt: { gte: start, lte: end } },
+      _count: { _all: true },
+      _sum: { revenue: true }
+    }),
+    prisma.orderAttribution.groupBy({
+      by: ['campaignId'],
+      where: { shopId, campaignId: { not: null }, orderCreatedAt: { gte: start, lte: end } },
+      _count: { _all: true },
+      _sum: { revenue: true }
+    })
+  ]);
+
+  type SentGroup = { _count: { _all: number } } & Record<string, unknown>;
+  type OrderGroup = SentGroup & { _sum: { revenue: number | null } };
+
+  const buildRows = (sent: SentGroup[], orders: OrderGroup[], field: 'messageType' | 'campaignId'): AttributionRow[] => {
+    const rows = new Map<string, AttributionRow>();
+    const rowFor = (key: string) => {
+      const row = rows.get(key) || {
+        key, label: key, sent: 0, orders: 0, revenue: 0, cost: 0, conversionRate: 0, roi: null
+      };
+      rows.set(key, row);
+      return row;
+    };
+
+    for (const group of sent) {
+      rowFor(group[field] as string).sent = group._count._all;
+    }
+    for (const group of orders) {
+      const row = rowFor(group[field] as string);
+      row.orders = group._count._all;
+      row.revenue = group._sum.revenue || 0;
+    }
+
+    return [...rows.values()]
+      .map(row => {
+        const cost = row.sent * settings.costPerMessage;
+        return {
+          ...row,
+          cost,
+          conversionRate: row.sent > 0 ? row.orders / row.sent : 0,
+          roi: cost > 0 ? (row.revenue - cost) / cost : null
+        };
+      })
+      .sort((a, b) => b.revenue - a.revenue || b.sent - a.sent);
+  };
+
+  const byType = buildRows(sentByType as SentGroup[], ordersByType as OrderGroup[], 'messageType');
+  const byCampaign = buildRows(sentByCampaign as SentGroup[], ordersByCampaign as OrderGroup[], 'campaignId');
+
+  // Label campaign rows with their names
+  if (byCampaign.length > 0) {
+    const campaigns = await prisma.campaign.findMany({
+      where: { shopId, id: { in: byCampaign.map(row => row.key) } },
+      select: { id: true, name: true }
+    });
+    const names = new Map<string, string>(campaigns.map((c: { id: string; name: string }) => [c.id, c.name]));
+    byCampaign.forEach(row => {
+      row.label = names.get(row.key) || 'Deleted campaign';
+    });
+  }
+
+  return {
+    totalRevenue: byType.reduce((sum, row) => sum + row.revenue, 0),
+    totalOrders: byType.reduce((sum, row) => sum + row.orders, 0),
+    byType,
+    byCampaign
+  };
+}
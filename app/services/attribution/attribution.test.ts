@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ATTRIBUTABLE_MESSAGE_TYPES, attributionWindow, parseWhatsendUtm } from './attribution.constants';
+
+test('automation links name their message type', () => {
+  assert.deepEqual(
+    parseWhatsendUtm('/products/shirt?utm_source=whatsend&utm_medium=whatsapp&utm_campaign=abandoned_checkout'),
+    { messageType: 'abandoned_checkout' }
+  );
+});
+
+test('campaign links carry the campaign ID', () => {
+  assert.deepEqual(
+    parseWhatsendUtm('https://shop.example.com/?utm_campaign=campaign_ckabc123&utm_source=whatsend'),
+    { messageType: 'campaign', campaignId: 'ckabc123' }
+  );
+});
+
+test('other traffic is not ours', () => {
+  assert.equal(parseWhatsendUtm(null), null);
+  assert.equal(parseWhatsendUtm(''), null);
+  assert.equal(parseWhatsendUtm('/?utm_source=newsletter&utm_campaign=campaign_1'), null);
+  assert.equal(parseWhatsendUtm('/?utm_source=whatsend'), null);
+  assert.equal(parseWhatsendUtm('http://[invalid'), null);
+});
+
+test('the window ends at the order and reaches back the given hours', () => {
+  const createdAt = new Date('2026-03-10T12:00:00Z');
+  const window = attributionWindow(createdAt, 24);
+
+  assert.equal(window.gte.toISOString(), '2026-03-09T12:00:00.000Z');
+  assert.equal(window.lte, createdAt);
+});
+
+test('order updates never earn the order they describe', () => {
+  for (const type of ['order_confirmation', 'order_fulfillment', 'order_cancellation', 'cod_confirmation_reminder']) {
+    assert.equal(ATTRIBUTABLE_MESSAGE_TYPES.includes(type), false);
+  }
+  assert.equal(ATTRIBUTABLE_MESSAGE_TYPES.includes('abandoned_checkout'), true);
+});
@@ -0,0 +1,160 @@
+/**
+ * Auto Replier Service
+ * Decides whether and how to answer an incoming WhatsApp message
+ * based on the shop's auto_replier template and rules
+ */
+
+import prisma from "../../db.server";
+import {
+  type AutoReplierSettings,
+  type KeywordRule,
+  getAutoReplierSettings
+} from "./automation.constants";
+import { processTemplate } from "./template.service";
+import { queueMessage } from "../queue/message-queue.service";
+
+/**
+ * Check whether a moment falls inside the configured business hours
+ */
+export function isWithinBusinessHours(
+  hours: AutoReplierSettings['businessHours'],
+  date: Date = new Date()
+): boolean {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: hours.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+  } catch (error) {
+    console.warn(`Invalid business hours timezone "${hours.timezone}":`, error);
+    return true;
+  }
+
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const day = weekdays.indexOf(parts.find(p => p.type === 'weekday')?.value || '');
+  const hour = parts.find(p => p.type === 'hour')?.value || '00';
+  const minute = parts.find(p => p.type === 'minute')?.value || '00';
+  const current = `${hour}:${minute}`;
+
+  if (!hours.days.includes(day)) {
+    return false;
+  }
+
+  return current >= hours.start && current < hours.end;
+}
+
+/**
+ * Find the first keyword rule that matches the message
+ */
+export function matchKeywordRule(text: string, rules: KeywordRule[]): KeywordRule | null {
+  const normalized = text.toLowerCase();
+
+  for (const rule of rules) {
+    const keywords = rule.keywords
+      .split(',')
+      .map(k => k.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (rule.reply && keywords.some(k => normalized.includes(k))) {
+      return rule;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reply to an inbound message if the shop's auto_replier rules allow it
+ * Returns true when a reply was queued
+ */
+export async function handleAutoReply(
+  shopDomain: string,
+  inbound: { id: string; shopId: string; senderPhone: string; senderName: string | null; message: string }
+): Promise<boolean> {
+  const automation = await prisma.automation.findUnique({
+    where: { shopId_type: { shopId: inbound.shopId, type: 'auto_replier' } }
+  });
+
+  if (!automation?.enabled) {
+    return false;
+  }
+
+  const settings = getAutoReplierSettings(automation.settings);
+
+  // Cooldown - don't answer the same contact again too soon
+  if (settings.cooldownMinutes > 0) {
+    const since = new Date(Date.now() - settings.cooldownMinutes * 60 * 1000);
+    const recentReply = await prisma.inboundMessage.findFirst({
+      where: {
+        shopId: inbound.shopId,
+        senderPhone: inbound.senderPhone,
+        autoReplied: true,
+        receivedAt: { gte: since }
+      }
+    });
+
+    if (recentReply) {
+      console.log(`Auto reply to ${inbound.senderPhone} skipped - within ${settings.cooldownMinutes} minute cooldown`);
+      return false;
+    }
+  }
+
+  // Keyword rules take precedence over the general reply
+  const keywordRule = matchKeywordRule(inbound.message, settings.keywordRules);
+  let template: string | null = keywordRule?.reply || null;
+
+  if (!template) {
+    if (settings.keywordsOnly) {
+      return false;
+    }
+
+    const inHours = isWithinBusinessHours(settings.businessHours);
+    if (settings.replyMode === 'outside_business_hours' && inHours) {
+      return false;
+    }
+    if (settings.replyMode === 'during_business_hours' && !inHours) {
+      return false;
+    }
+
+    template = automation.template;
+  }
+
+  if (!template) {
+    return false;
+  }
+
+  const message = processTemplate(template, {
+    customerName: inbound.senderName || 'there',
+    customerPhone: inbound.senderPhone,
+    shopName: shopDomain.replace('.myshopify.com', '')
+  });
+
+  const queued = await queueMessage({
+    shopId: shopDomain,
+    phone: inbound.senderPhone,
+    message,
+    messageType: 'auto_replier',
+    scheduledAt: automation.delayMinutes > 0
+      ? new Date(Date.now() + automation.delayMinutes * 60 * 1000)
+      : undefined,
+    priority: 1
+  });
+
+  // Nothing goes out, so the cooldown mustn't start
+  if ('skipped' in queued) {
+    console.log(`Auto reply to ${inbound.senderPhone} not sent (${queued.skipped})`);
+    return false;
+  }
+
+  // Starts the cooldown for this contact
+  await prisma.inboundMessage.update({
+    where: { id: inbound.id },
+    data: { autoReplied: true }
+  });
+
+  return true;
+}
@@ -23,6 +23,81 @@ export const DEFAULT_DELAYS: Record<AutomationType, number> = {
   back_in_stock: 0
 };
 
+// Default templates for each automation type - {{order_number}} already includes the "#"
+export const DEFAULT_TEMPLATES: Record<AutomationType, string> = {
+  order_confirmation: `Thank you for your order from {shopName}. This is a confirmation message.
+
+*Order Details:*
+
+Order ID: {orderId}
+Order Number: {orderNumber}
+
+*Items:* {itemsXquantity}
+*Subtotal:* {subtotal}
+
+*Address:* {address}
+*City:* {city}
+
+Please confirm your order.`,
+
+  order_fulfillment: `📦 Great news, *{shippingFirstName}*!
+
+Your recent order from *{shopName}*, *{orderNumber}*, has been carefully packed and is now on its way to you! 📦
+
+It's being shipped via *{carrier}* with tracking number *{trackingNumber}*.
+
+You can easily follow its journey here:
+🔗 {trackingUrl}
+
+Your order included:
+* {itemsXquantity}
+
+We appreciate your business! 😊`,
+
+  order_cancellation: `🚫 We regret to inform you, *{billingFirstName}*, that your order *{orderNumber}* from *{shopName}* has been cancelled.
+
+If you have any questions regarding this cancellation, please do not hesitate to contact our support team. We apologize for any inconvenience this may cause.
+
+Your order details were:
+* {itemsXquantity}`,
+
+  order_notification: `🎉 Wonderful!
+
+We've successfully received your order *{orderNumber}* at *{shopName}*, *{firstName}*! Thank you for choosing us.
+
+We're now processing your order which includes:
+* {itemsXquantity}
+
+You'll receive another notification with tracking information as soon as your order ships. We're excited for you to receive your items! 😊`,
+
+  admin_notification: `🔔 New Order Alert!
+
+Order {{order_number}}
+Customer: {{customer_name}}
+Total: {{order_total}}
+Items: {{product_list}}`,
+
+  abandoned_checkout: `🛒 *Checkout Reminder!*
+Hi *{billingFirstName}*, you left items in your cart at *WhatFlow*!
+Complete your purchase: {recoveryLink}`,
+
+  draft_order_recovery: `Hi {{customer_name}}!
+
+You have a pending order waiting for you.
+
+Complete your order here: {{order_url}}
+
+Let us know if you need any help!`,
+
+  auto_replier: `Thank you for your message! We'll get back to you shortly.`,
+
+  back_in_stock: `Great news, {{customer_name}}! 🎉
+
+{{product_name}} is back in stock!
+
+Get yours before it sells out again: {{product_url}}`
+};
+
 // Automation metadata for UI - safe for client-side use
 export const AUTOMATION_META: Record<AutomationType, { 
   title: string; 
@@ -76,12 +151,241 @@ export const AUTOMATION_META: Record<AutomationType, {
     title: 'Auto Replier',
     description: 'Automatic responses to incoming messages',
     icon: '💬',
-    comingSoon: true,
+    comingSoon: false,
   },
   back_in_stock: {
     title: 'Back in Stock',
     description: 'Notify customers when products are restocked',
     icon: '🔄',
-    comingSoon: true,
+    comingSoon: false,
   },
 };
+
+// Auto Replier rules - stored in Automation.settings
+export type AutoReplyMode = 'always' | 'outside_business_hours' | 'during_business_hours';
+
+export interface KeywordRule {
+  keywords: string; // Comma-separated, matched case-insensitively anywhere in the message
+  reply: string;
+}
+
+export interface AutoReplierSettings {
+  replyMode: AutoReplyMode;
+  businessHours: {
+    timezone: string;
+    days: number[]; // 0 = Sunday ... 6 = Saturday
+    start: string;  // HH:mm
+    end: string;    // HH:mm
+  };
+  cooldownMinutes: number; // Don't auto-reply to the same contact more often than this
+  keywordRules: KeywordRule[];
+  keywordsOnly: boolean;   // Only reply when a keyword rule matches
+}
+
+export const DEFAULT_AUTO_REPLIER_SETTINGS: AutoReplierSettings = {
+  replyMode: 'always',
+  businessHours: {
+    timezone: 'Asia/Kolkata',
+    days: [1, 2, 3, 4, 5],
+    start: '09:00',
+    end: '18:00',
+  },
+  cooldownMinutes: 60,
+  keywordRules: [],
+  keywordsOnly: false,
+};
+
+/**
+ * Merge stored settings over the defaults so older rows keep working
+ */
+export function getAutoReplierSettings(raw: unknown): AutoReplierSettings {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<AutoReplierSettings>;
+
+  return {
+    ...DEFAULT_AUTO_REPLIER_SETTINGS,
+    ...stored,
+    businessHours: {
+      ...DEFAULT_AUTO_REPLIER_SETTINGS.businessHours,
+      ...(stored.businessHours || {})
+    },
+    keywordRules: Array.isArray(stored.keywordRules) ? stored.keywordRules : []
+  };
+}
+
+// Automation conditions - stored in Automation.conditions
+export type ConditionMatch = 'all' | 'any';
+
+export interface ResourceRef {
+  id: string;    // Admin API GID
+  title: string;
+}
+
+export type ConditionRule =
+  | { type: 'order_total'; min?: number; max?: number }
+  | { type: 'country'; operator: 'in' | 'not_in'; countries: string[] } // ISO country codes
+  | { type: 'tag'; operator: 'any' | 'none'; tags: string[] }          // Order or customer tags
+  | { type: 'payment'; method: 'cod' | 'prepaid' }
+  | { type: 'product'; operator: 'any' | 'none'; products: ResourceRef[] }
+  | { type: 'collection'; operator: 'any' | 'none'; collections: ResourceRef[] }
+  | { type: 'customer'; value: 'first_time' | 'returning' };
+
+export type ConditionRuleType = ConditionRule['type'];
+
+export interface AutomationConditions {
+  adminPhone?: string; // admin_notification recipient
+  match: ConditionMatch;
+  rules: ConditionRule[];
+}
+
+export const DEFAULT_AUTOMATION_CONDITIONS: AutomationConditions = {
+  match: 'all',
+  rules: [],
+};
+
+// Automations triggered by order-like webhooks - the only ones rules apply to
+export const CONDITION_AUTOMATION_TYPES: AutomationType[] = [
+  'order_confirmation',
+  'order_fulfillment',
+  'order_cancellation',
+  'order_notification',
+  'admin_notification',
+  'abandoned_checkout',
+  'draft_order_recovery',
+];
+
+// Single-message customer automations that can send an uploaded attachment
+export const MEDIA_AUTOMATION_TYPES: AutomationType[] = [
+  'order_confirmation',
+  'order_fulfillment',
+  'order_cancellation',
+  'order_notification',
+  'draft_order_recovery',
+  'back_in_stock',
+];
+
+export const CONDITION_RULE_LABELS: Record<ConditionRuleType, string> = {
+  order_total: 'Order total',
+  country: 'Shipping country',
+  tag: 'Order or customer tags',
+  payment: 'Payment method',
+  product: 'Products',
+  collection: 'Collections',
+  customer: 'Customer type',
+};
+
+// Abandoned checkout sequence - stored in Automation.settings
+// Step 1 always mirrors Automation.template and Automation.delayMinutes
+export interface RecoveryDiscount {
+  type: 'percentage' | 'fixed_amount';
+  value: number;          // 10 = 10% or 10 in the shop currency
+  expiresInHours: number;
+}
+
+export interface RecoveryStep {
+  delayMinutes: number;   // Counted from when the checkout was abandoned
+  template: string;
+  discount: RecoveryDiscount | null;
+}
+
+export interface AbandonedCheckoutSettings {
+  steps: RecoveryStep[];
+}
+
+export const MAX_RECOVERY_STEPS = 5;
+
+export const DEFAULT_RECOVERY_DISCOUNT: RecoveryDiscount = {
+  type: 'percentage',
+  value: 10,
+  expiresInHours: 48,
+};
+
+/**
+ * Resolve the sequence steps for an abandoned_checkout automation
+ * Step 1 comes from the automation's own template and delay
+ */
+export function getAbandonedCheckoutSettings(automation: {
+  template: string;
+  delayMinutes: number;
+  settings?: unknown;
+}): AbandonedCheckoutSettings {
+  const stored = (automation.settings && typeof automation.settings === 'object'
+    ? automation.settings
+    : {}) as Partial<AbandonedCheckoutSettings>;
+  const storedSteps = Array.isArray(stored.steps) ? stored.steps : [];
+
+  const firstStep: RecoveryStep = {
+    delayMinutes: automation.delayMinutes || 120,
+    template: automation.template,
+    discount: storedSteps[0]?.discount || null
+  };
+
+  const followUps = storedSteps.slice(1, MAX_RECOVERY_STEPS).map(step => ({
+    delayMinutes: Math.max(0, Number(step.delayMinutes) || 0),
+    template: step.template || '',
+    discount: step.discount || null
+  }));
+
+  return { steps: [firstStep, ...followUps] };
+}
+
+// Look of the PDF invoice sent with order confirmations
+export interface InvoiceLayout {
+  title: string;
+  showLogo: boolean;            // Shop logo from Shopify's brand settings
+  accentColor: string;          // Hex color of the header band and totals
+  sellerDetails: string;        // Address, tax ID... one item per line
+  footerNote: string;
+  showTaxBreakdown: boolean;    // One row per tax line instead of a single total
+}
+
+// Order confirmation (COD) - stored in Automation.settings for order_confirmation
+export interface OrderConfirmationSettings {
+  requestConfirmation: boolean; // Ask the customer to reply 1 / 2
+  codOnly: boolean;             // Only ask Cash on Delivery orders
+  optionsText: string;          // Appended to the confirmation message
+  confirmTag: string;
+  cancelTag: string;
+  cancelOrder: boolean;         // Cancel the order in Shopify when the customer replies 2
+  reminderMinutes: number;      // 0 = no reminder
+  reminderTemplate: string;
+  confirmedReply: string;
+  cancelledReply: string;
+  sendInvoice: boolean;         // Send a PDF invoice with the confirmation
+  invoice: InvoiceLayout;
+}
+
+export const DEFAULT_ORDER_CONFIRMATION_SETTINGS: OrderConfirmationSettings = {
+  requestConfirmation: false,
+  codOnly: true,
+  optionsText: 'Reply *1* to confirm your order or *2* to cancel it.',
+  confirmTag: 'whatsapp-confirmed',
+  cancelTag: 'whatsapp-cancelled',
+  cancelOrder: true,
+  reminderMinutes: 360,
+  reminderTemplate: `Hi {{customer_name}}, we're still waiting for your confirmation of order *{{order_number}}*.
+
+Reply *1* to confirm or *2* to cancel.`,
+  confirmedReply: `✅ Thank you! Your order {{order_number}} is confirmed and will be shipped soon.`,
+  cancelledReply: `Your order {{order_number}} has been cancelled. We hope to see you again soon.`,
+  sendInvoice: false,
+  invoice: {
+    title: 'Invoice',
+    showLogo: true,
+    accentColor: '#25D366',
+    sellerDetails: '',
+    footerNote: 'Thank you for your order!',
+    showTaxBreakdown: true
+  }
+};
+
+/**
+ * Merge stored settings over the defaults so older rows keep working
+ */
+export function getOrderConfirmationSettings(raw: unknown): OrderConfirmationSettings {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<OrderConfirmationSettings>;
+  return {
+    ...DEFAULT_ORDER_CONFIRMATION_SETTINGS,
+    ...stored,
+    invoice: { ...DEFAULT_ORDER_CONFIRMATION_SETTINGS.invoice, ...stored.invoice }
+  };
+}
@@ -1,88 +1,15 @@
+import { Prisma } from "@prisma/client";
 import prisma from "../../db.server";
 import { 
   type AutomationType, 
   DEFAULT_DELAYS, 
+  DEFAULT_TEMPLATES,
   AUTOMATION_META 
 } from "./automation.constants";
 
 // Re-export for backwards compatibility
 export { type AutomationType, DEFAULT_DELAYS, AUTOMATION_META };
 
-// Default templates for each automation type
-const DEFAULT_TEMPLATES: Record<AutomationType, string> = {
-  order_confirmation: `Thank you for your order from {shopName}. This is a confirmation message.
-
-*Order Details:*
-
-Order ID: {orderId}
-Order Number: {orderNumber}
-
-*Items:* {itemsXquantity}
-*Subtotal:* {subtotal}
-
-*Address:* {address}
-*City:* {city}
-
-Please confirm your order.`,
-
-  order_fulfillment: `📦 Great news, *{shippingFirstName}*!
-
-Your recent order from *{shopName}*, *#{orderNumber}*, has been carefully packed and is now on its way to you! 📦
-
-It's being shipped via *{carrier}* with tracking number *{trackingNumber}*.
-
-You can easily follow its journey here:
-🔗 {trackingUrl}
-
-Your order included:
-* {itemsXquantity}
-
-We appreciate your business! 😊`,
-
-  order_cancellation: `🚫 We regret to inform you, *{billingFirstName}*, that your order *#{orderNumber}* from *{shopName}* has been cancelled.
-
-If you have any questions regarding this cancellation, please do not hesitate to contact our support team. We apologize for any inconvenience this may cause.
-
-Your order details were:
-* {itemsXquantity}`,
-
-  order_notification: `🎉 Wonderful!
-
-We've successfully received your order *#{orderNumber}* at *{shopName}*, *{firstName}*! Thank you for choosing us.
-
-We're now processing your order which includes:
-* {itemsXquantity}
-
-You'll receive another notification with tracking information as soon as your order ships. We're excited for you to receive your items! 😊`,
-
-  admin_notification: `🔔 New Order Alert!
-
-Order #{{order_number}}
-Customer: {{customer_name}}
-Total: {{order_total}}
-Items: {{product_list}}`,
-
-  abandoned_checkout: `🛒 *Checkout Reminder!*
-Hi *{billingFirstName}*, you left items in your cart at *WhatFlow*!
-Complete your purchase: {recoveryLink}`,
-
-  draft_order_recovery: `Hi {{customer_name}}!
-
-You have a pending order waiting for you.
-
-Complete your order here: {{order_url}}
-
-Let us know if you need any help!`,
-
-  auto_replier: `Thank you for your message! We'll get back to you shortly.`,
-
-  back_in_stock: `Great news, {{customer_name}}! 🎉
-
-{{product_name}} is back in stock!
-
-Get yours before it sells out again: {{product_url}}`
-};
-
 /**
  * Get or create a Shop record by domain
  */
@@ -194,7 +121,7 @@ export async function getAllAutomations(shopDomain: string) {
 export async function updateAutomation(
   shopDomain: string, 
   type: AutomationType, 
-  data: { enabled?: boolean; template?: string; delayMinutes?: number; sendProductImages?: boolean; conditions?: object }
+  data: { enabled?: boolean; template?: string; delayMinutes?: number; sendProductImages?: boolean; mediaId?: string | null; conditions?: object | null; settings?: object }
 ) {
   const shop = await prisma.shop.findUnique({
     where: { shopifyDomain: shopDomain }
@@ -213,14 +140,19 @@ export async function updateAutomation(
       template: data.template ?? DEFAULT_TEMPLATES[type],
       delayMinutes: data.delayMinutes ?? 0,
       sendProductImages: data.sendProductImages ?? false,
-      conditions: data.conditions ?? undefined
+      mediaId: data.mediaId ?? null,
+      conditions: data.conditions ?? undefined,
+      settings: data.settings ?? undefined
     },
     update: {
       enabled: data.enabled,
       template: data.template,
       delayMinutes: data.delayMinutes,
       sendProductImages: data.sendProductImages,
-      conditions: data.conditions ?? undefined
+      mediaId: data.mediaId,
+      // null clears the conditions, undefined leaves them as they are
+      conditions: data.conditions === null ? Prisma.DbNull : data.conditions,
+      settings: data.settings ?? undefined
     }
   });
 }
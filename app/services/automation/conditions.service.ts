@@ -0,0 +1,330 @@
+/**
+ * Conditions Service
+ * Evaluates Automation.conditions rules against order-like webhook payloads
+ * so every webhook route gates its automations the same way
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  type AutomationConditions,
+  type ConditionRule,
+  DEFAULT_AUTOMATION_CONDITIONS
+} from "./automation.constants";
+
+type GraphQLClient = AdminApiContext["graphql"];
+
+// Gateway names Shopify uses for cash on delivery across regions and COD apps
+const COD_GATEWAY_PATTERN = /cash on delivery|cash_on_delivery|\bcod\b/i;
+
+export interface ConditionContext {
+  // 'order' means the current order already counts towards the customer's order count
+  source: 'order' | 'checkout' | 'draft_order';
+  totalPrice?: number;
+  countryCode?: string;
+  tags: string[];
+  gateways: string[];
+  productIds: string[];   // Numeric product IDs
+  customerId?: string;    // Numeric customer ID
+  customerOrdersCount?: number;
+}
+
+// Shape shared by orders, checkouts and draft orders webhook payloads
+export interface OrderLikePayload {
+  total_price?: string;
+  tags?: string;
+  gateway?: string;
+  payment_gateway_names?: string[];
+  shipping_address?: { country_code?: string } | null;
+  billing_address?: { country_code?: string } | null;
+  customer?: { id?: string | number; tags?: string; orders_count?: number } | null;
+  line_items?: Array<{ product_id?: string | number | null }>;
+}
+
+/**
+ * Whether any of an order's payment gateways is Cash on Delivery
+ */
+export function isCodGateway(gateways: string[]): boolean {
+  return gateways.some(gateway => COD_GATEWAY_PATTERN.test(gateway));
+}
+
+/**
+ * Normalize stored conditions - older rows only contain { adminPhone }
+ */
+export function getAutomationConditions(raw: unknown): AutomationConditions {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<AutomationConditions>;
+
+  return {
+    ...DEFAULT_AUTOMATION_CONDITIONS,
+    ...(stored.adminPhone ? { adminPhone: stored.adminPhone } : {}),
+    match: stored.match === 'any' ? 'any' : 'all',
+    rules: Array.isArray(stored.rules) ? stored.rules : []
+  };
+}
+
+/**
+ * Build the evaluation context from a webhook payload
+ */
+export function buildConditionContext(payload: OrderLikePayload, source: ConditionContext['source']): ConditionContext {
+  const splitTags = (tags?: string) => (tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+  return {
+    source,
+    totalPrice: payload.total_price !== undefined ? parseFloat(payload.total_price) : undefined,
+    countryCode: payload.shipping_address?.country_code || payload.billing_address?.country_code || undefined,
+    tags: [...splitTags(payload.tags), ...splitTags(payload.customer?.tags)],
+    gateways: payload.payment_gateway_names?.length
+      ? payload.payment_gateway_names
+      : payload.gateway ? [payload.gateway] : [],
+    productIds: (payload.line_items || [])
+      .map(item => item.product_id?.toString())
+      .filter((id): id is string => Boolean(id)),
+    customerId: payload.customer?.id?.toString(),
+    customerOrdersCount: payload.customer?.orders_count
+  };
+}
+
+/**
+ * Load the evaluation context for an order by ID
+ * Used where the webhook payload doesn't carry order details (fulfillments)
+ */
+export async function loadOrderConditionContext(graphql: GraphQLClient, orderId: string): Promise<ConditionContext | null> {
+  try {
+    const response = await graphql(
+      `
+        query orderConditions($id: ID!) {
+          order(id: $id) {
+            tags
+            paymentGatewayNames
+            totalPriceSet { shopMoney { amount } }
+            shippingAddress { countryCodeV2 }
+            billingAddress { countryCodeV2 }
+            customer { id tags numberOfOrders }
+            lineItems(first: 100) { nodes { product { id } } }
+          }
+        }
+      `,
+      { variables: { id: `gid://shopify/Order/${orderId}` } }
+    );
+
+    const result = await response.json();
+    const order = result.data?.order;
+    if (!order) {
+      return null;
+    }
+
+    return {
+      source: 'order',
+      totalPrice: parseFloat(order.totalPriceSet.shopMoney.amount),
+      countryCode: order.shippingAddress?.countryCodeV2 || order.billingAddress?.countryCodeV2 || undefined,
+      tags: [...(order.tags || []), ...(order.customer?.tags || [])],
+      gateways: order.paymentGatewayNames || [],
+      productIds: order.lineItems.nodes
+        .map((item: { product: { id: string } | null }) => item.product ? numericId(item.product.id) : null)
+        .filter((id: string | null): id is string => Boolean(id)),
+      customerId: order.customer ? numericId(order.customer.id) : undefined,
+      customerOrdersCount: order.customer ? parseInt(order.customer.numberOfOrders, 10) : undefined
+    };
+  } catch (error) {
+    console.error(`Failed to load order ${orderId} for automation conditions:`, error);
+    return null;
+  }
+}
+
+/**
+ * Check an automation's rules against a context
+ * Rules that need data we can't get (no admin session) count as not matched
+ */
+export async function matchesConditions(
+  raw: unknown,
+  context: ConditionContext,
+  graphql?: GraphQLClient
+): Promise<boolean> {
+  const conditions = getAutomationConditions(raw);
+  if (conditions.rules.length === 0) {
+    return true;
+  }
+
+  const lookups = createLookups(context, graphql);
+
+  for (const rule of conditions.rules) {
+    const matched = await evaluateRule(rule, context, lookups);
+    if (conditions.match === 'any' && matched) {
+      return true;
+    }
+    if (conditions.match === 'all' && !matched) {
+      return false;
+    }
+  }
+
+  return conditions.match === 'all';
+}
+
+/**
+ * Convenience wrapper for webhook routes - logs why an automation was skipped
+ */
+export async function shouldRunAutomation(
+  automation: { type: string; conditions: unknown },
+  context: ConditionContext,
+  graphql?: GraphQLClient
+): Promise<boolean> {
+  const matched = await matchesConditions(automation.conditions, context, graphql);
+  if (!matched) {
+    console.log(`Skipping ${automation.type}: automation conditions not met`);
+  }
+  return matched;
+}
+
+async function evaluateRule(rule: ConditionRule, context: ConditionContext, lookups: ConditionLookups): Promise<boolean> {
+  switch (rule.type) {
+    case 'order_total': {
+      if (context.totalPrice === undefined || isNaN(context.totalPrice)) {
+        return false;
+      }
+      if (rule.min !== undefined && rule.min !== null && context.totalPrice < rule.min) {
+        return false;
+      }
+      if (rule.max !== undefined && rule.max !== null && context.totalPrice > rule.max) {
+        return false;
+      }
+      return true;
+    }
+
+    case 'country': {
+      const countries = rule.countries.map(code => code.trim().toUpperCase()).filter(Boolean);
+      const inList = Boolean(context.countryCode) && countries.includes(context.countryCode!.toUpperCase());
+      return rule.operator === 'not_in' ? !inList : inList;
+    }
+
+    case 'tag': {
+      const tags = context.tags.map(tag => tag.toLowerCase());
+      const hasAny = rule.tags
+        .map(tag => tag.trim().toLowerCase())
+        .some(tag => tag !== '' && tags.includes(tag));
+      return rule.operator === 'none' ? !hasAny : hasAny;
+    }
+
+    case 'payment': {
+      if (context.gateways.length === 0) {
+        return false;
+      }
+      const isCod = isCodGateway(context.gateways);
+      return rule.method === 'cod' ? isCod : !isCod;
+    }
+
+    case 'product': {
+      const hasAny = rule.products.some(product => context.productIds.includes(numericId(product.id)));
+      return rule.operator === 'none' ? !hasAny : hasAny;
+    }
+
+    case 'collection': {
+      const collectionIds = await lookups.collectionIds();
+      if (collectionIds === null) {
+        return false;
+      }
+      const hasAny = rule.collections.some(collection => collectionIds.has(numericId(collection.id)));
+      return rule.operator === 'none' ? !hasAny : hasAny;
+    }
+
+    case 'customer': {
+      const ordersCount = await lookups.customerOrdersCount();
+      // Guest checkouts have no order history
+      const previousOrders = ordersCount === null
+        ? 0
+        : ordersCount - (context.source === 'order' ? 1 : 0);
+      const isFirstTime = previousOrders <= 0;
+      return rule.value === 'first_time' ? isFirstTime : !isFirstTime;
+    }
+
+    default:
+      return false;
+  }
+}
+
+interface ConditionLookups {
+  collectionIds: () => Promise<Set<string> | null>;
+  customerOrdersCount: () => Promise<number | null>;
+}
+
+/**
+ * Lazily fetched Admin API data, shared between rules in one evaluation
+ */
+function createLookups(context: ConditionContext, graphql?: GraphQLClient): ConditionLookups {
+  let collections: Promise<Set<string> | null> | undefined;
+  let ordersCount: Promise<number | null> | undefined;
+
+  return {
+    collectionIds: () => (collections ??= fetchCollectionIds(context, graphql)),
+    customerOrdersCount: () => (ordersCount ??= fetchCustomerOrdersCount(context, graphql))
+  };
+}
+
+async function fetchCollectionIds(context: ConditionContext, graphql?: GraphQLClient): Promise<Set<string> | null> {
+  if (context.productIds.length === 0) {
+    return new Set();
+  }
+  if (!graphql) {
+    console.warn('Collection condition needs an admin session - treating as not matched');
+    return null;
+  }
+
+  try {
+    const response = await graphql(
+      `
+        query productCollections($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              collections(first: 250) { nodes { id } }
+            }
+          }
+        }
+      `,
+      { variables: { ids: [...new Set(context.productIds)].map(id => `gid://shopify/Product/${id}`) } }
+    );
+
+    const result = await response.json();
+    const ids = new Set<string>();
+    for (const product of result.data?.nodes || []) {
+      for (const collection of product?.collections?.nodes || []) {
+        ids.add(numericId(collection.id));
+      }
+    }
+    return ids;
+  } catch (error) {
+    console.error('Failed to load product collections for automation conditions:', error);
+    return null;
+  }
+}
+
+async function fetchCustomerOrdersCount(context: ConditionContext, graphql?: GraphQLClient): Promise<number | null> {
+  if (context.customerOrdersCount !== undefined) {
+    return context.customerOrdersCount;
+  }
+  if (!context.customerId || !graphql) {
+    return null;
+  }
+
+  try {
+    const response = await graphql(
+      `
+        query customerOrdersCount($id: ID!) {
+          customer(id: $id) { numberOfOrders }
+        }
+      `,
+      { variables: { id: `gid://shopify/Customer/${context.customerId}` } }
+    );
+
+    const result = await response.json();
+    const count = result.data?.customer?.numberOfOrders;
+    return count !== undefined && count !== null ? parseInt(count, 10) : null;
+  } catch (error) {
+    console.error('Failed to load customer order count for automation conditions:', error);
+    return null;
+  }
+}
+
+/**
+ * "gid://shopify/Product/123" -> "123"
+ */
+function numericId(id: string): string {
+  return id.split('/').pop() || id;
+}
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildConditionContext, matchesConditions } from './conditions.service';
+
+const context = buildConditionContext({
+  total_price: '1250.00',
+  tags: 'vip, wholesale',
+  shipping_address: { country_code: 'IN' },
+  payment_gateway_names: ['Cash on Delivery (COD)'],
+  line_items: [{ product_id: 111 }, { product_id: 222 }],
+  customer: { id: 9, tags: 'newsletter', orders_count: 1 }
+}, 'order');
+
+const matches = (rules: unknown[], match: 'all' | 'any' = 'all') => matchesConditions({ match, rules }, context);
+
+test('no rules always match', async () => {
+  assert.equal(await matchesConditions(null, context), true);
+  assert.equal(await matchesConditions({ adminPhone: '+911234567890' }, context), true);
+});
+
+test('order total checks both bounds', async () => {
+  assert.equal(await matches([{ type: 'order_total', min: 1000 }]), true);
+  assert.equal(await matches([{ type: 'order_total', min: 1000, max: 1200 }]), false);
+  assert.equal(await matches([{ type: 'order_total', max: 1250 }]), true);
+});
+
+test('country and tag rules ignore case', async () => {
+  assert.equal(await matches([{ type: 'country', operator: 'in', countries: ['in', 'pk'] }]), true);
+  assert.equal(await matches([{ type: 'country', operator: 'not_in', countries: ['IN'] }]), false);
+  assert.equal(await matches([{ type: 'tag', operator: 'any', tags: ['VIP'] }]), true);
+  assert.equal(await matches([{ type: 'tag', operator: 'any', tags: ['Newsletter'] }]), true);
+  assert.equal(await matches([{ type: 'tag', operator: 'none', tags: ['wholesale'] }]), false);
+});
+
+test('payment rule tells COD from prepaid', async () => {
+  assert.equal(await matches([{ type: 'payment', method: 'cod' }]), true);
+  assert.equal(await matches([{ type: 'payment', method: 'prepaid' }]), false);
+});
+
+test('product rule compares numeric and GID ids', async () => {
+  assert.equal(await matches([{ type: 'product', operator: 'any', products: [{ id: 'gid://shopify/Product/222', title: 'B' }] }]), true);
+  assert.equal(await matches([{ type: 'product', operator: 'none', products: [{ id: 'gid://shopify/Product/333', title: 'C' }] }]), true);
+});
+
+test('the current order does not make a customer returning', async () => {
+  assert.equal(await matches([{ type: 'customer', value: 'first_time' }]), true);
+  assert.equal(await matches([{ type: 'customer', value: 'returning' }]), false);
+});
+
+test('collection rules need an admin session', async () => {
+  assert.equal(await matches([{ type: 'collection', operator: 'any', collections: [{ id: 'gid://shopify/Collection/1', title: 'Sale' }] }]), false);
+});
+
+test('match mode combines rules', async () => {
+  const rules = [{ type: 'payment', method: 'prepaid' }, { type: 'country', operator: 'in', countries: ['IN'] }];
+
+  assert.equal(await matches(rules, 'all'), false);
+  assert.equal(await matches(rules, 'any'), true);
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_TEMPLATES, type AutomationType } from './automation.constants';
+import { processTemplate, validateTemplate, SAMPLE_TEMPLATE_DATA } from './template.service';
+
+for (const [type, template] of Object.entries(DEFAULT_TEMPLATES) as Array<[AutomationType, string]>) {
+  test(`default ${type} template renders`, () => {
+    assert.deepEqual(validateTemplate(template).errors, []);
+
+    const rendered = processTemplate(template, SAMPLE_TEMPLATE_DATA);
+    assert.ok(rendered.length > 0);
+    assert.doesNotMatch(rendered, /##/);
+    assert.doesNotMatch(rendered, /\{\{|\}\}/);
+    assert.doesNotMatch(rendered, /\{[A-Za-z]+\}/);
+  });
+}
+
+test('order number typed after a "#" is not doubled', () => {
+  const data = { ...SAMPLE_TEMPLATE_DATA, orderNumber: '#1001' };
+
+  assert.equal(processTemplate('Order *#{orderNumber}*', data), 'Order *#1001*');
+  assert.equal(processTemplate('Order #{{order_number}}', data), 'Order #1001');
+  assert.equal(processTemplate('Order #{{ order_number | default:"-" }}', data), 'Order #1001');
+  assert.equal(processTemplate('Order {{order_number}}', data), 'Order #1001');
+});
@@ -0,0 +1,171 @@
+/**
+ * Template Preview Service
+ * Renders templates against the shop's most recent order so merchants
+ * see what customers will actually receive
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  type TemplateData,
+  type TemplateValidationResult,
+  SAMPLE_TEMPLATE_DATA,
+  processTemplate,
+  validateTemplate,
+  formatCurrency,
+  WHATSAPP_TEXT_LIMIT
+} from "./template.service";
+
+export interface TemplatePreview {
+  validation: TemplateValidationResult;
+  message: string;
+  length: number;
+  source: 'order' | 'sample';
+  orderName: string | null;
+}
+
+interface MoneySet {
+  shopMoney: { amount: string; currencyCode: string };
+}
+
+interface PreviewOrder {
+  legacyResourceId: string;
+  name: string;
+  createdAt: string;
+  statusPageUrl: string | null;
+  totalPriceSet: MoneySet;
+  subtotalPriceSet: MoneySet | null;
+  customer: { firstName: string | null; lastName: string | null; email: string | null; phone: string | null } | null;
+  billingAddress: { firstName: string | null } | null;
+  shippingAddress: { firstName: string | null; address1: string | null; address2: string | null; city: string | null; phone: string | null } | null;
+  lineItems: {
+    nodes: Array<{
+      title: string;
+      quantity: number;
+      variantTitle: string | null;
+      sku: string | null;
+      originalUnitPriceSet: MoneySet;
+    }>;
+  };
+  fulfillments: Array<{
+    trackingInfo: Array<{ company: string | null; number: string | null; url: string | null }>;
+  }>;
+}
+
+/**
+ * Build template data from the shop's most recent order
+ * Fields the order can't provide (checkout link, product page) keep sample values
+ */
+export async function getPreviewTemplateData(
+  graphql: AdminApiContext["graphql"],
+  shopDomain: string
+): Promise<{ data: TemplateData; source: 'order' | 'sample'; orderName: string | null }> {
+  const shopName = shopDomain.replace('.myshopify.com', '');
+
+  try {
+    const response = await graphql(`
+      query previewOrder {
+        orders(first: 1, sortKey: CREATED_AT, reverse: true) {
+          nodes {
+            legacyResourceId
+            name
+            createdAt
+            statusPageUrl
+            totalPriceSet { shopMoney { amount currencyCode } }
+            subtotalPriceSet { shopMoney { amount currencyCode } }
+            customer { firstName lastName email phone }
+            billingAddress { firstName }
+            shippingAddress { firstName address1 address2 city phone }
+            lineItems(first: 20) {
+              nodes {
+                title
+                quantity
+                variantTitle
+                sku
+                originalUnitPriceSet { shopMoney { amount currencyCode } }
+              }
+            }
+            fulfillments(first: 1) {
+              trackingInfo(first: 1) { company number url }
+            }
+          }
+        }
+      }
+    `);
+
+    const result = await response.json();
+    const order: PreviewOrder | undefined = result.data?.orders?.nodes?.[0];
+
+    if (!order) {
+      return { data: { ...SAMPLE_TEMPLATE_DATA, shopName }, source: 'sample', orderName: null };
+    }
+
+    const currency = order.totalPriceSet.shopMoney.currencyCode;
+    const customerName = order.shippingAddress?.firstName || order.billingAddress?.firstName || order.customer?.firstName || 'Customer';
+    const tracking = order.fulfillments[0]?.trackingInfo[0];
+
+    return {
+      data: {
+        ...SAMPLE_TEMPLATE_DATA,
+        customerName,
+        firstName: order.customer?.firstName || customerName,
+        lastName: order.customer?.lastName || undefined,
+        billingFirstName: order.billingAddress?.firstName || customerName,
+        shippingFirstName: order.shippingAddress?.firstName || customerName,
+        customerPhone: order.shippingAddress?.phone || order.customer?.phone || undefined,
+        customerEmail: order.customer?.email || undefined,
+        orderId: order.legacyResourceId,
+        orderNumber: order.name,
+        orderTotal: formatCurrency(order.totalPriceSet.shopMoney.amount, currency),
+        subtotal: order.subtotalPriceSet ? formatCurrency(order.subtotalPriceSet.shopMoney.amount, currency) : '',
+        orderDate: order.createdAt,
+        orderUrl: order.statusPageUrl || undefined,
+        currency,
+        lineItems: order.lineItems.nodes.map(item => ({
+          name: item.title,
+          quantity: item.quantity,
+          price: item.originalUnitPriceSet.shopMoney.amount,
+          variantTitle: item.variantTitle || undefined,
+          sku: item.sku || undefined
+        })),
+        productName: order.lineItems.nodes[0]?.title,
+        productList: undefined,
+        address: [order.shippingAddress?.address1, order.shippingAddress?.address2].filter(Boolean).join(', '),
+        city: order.shippingAddress?.city || undefined,
+        ...(tracking ? {
+          carrier: tracking.company || '',
+          trackingNumber: tracking.number || '',
+          trackingUrl: tracking.url || ''
+        } : {}),
+        shopName
+      },
+      source: 'order',
+      orderName: order.name
+    };
+  } catch (error) {
+    console.error('Failed to load order for template preview:', error);
+    return { data: { ...SAMPLE_TEMPLATE_DATA, shopName }, source: 'sample', orderName: null };
+  }
+}
+
+/**
+ * Validate a template and render it against a real recent order
+ */
+export async function previewTemplate(
+  graphql: AdminApiContext["graphql"],
+  shopDomain: string,
+  template: string,
+  options: { withMedia?: boolean } = {}
+): Promise<TemplatePreview> {
+  const validation = validateTemplate(template, options);
+  const { data, source, orderName } = await getPreviewTemplateData(graphql, shopDomain);
+  const message = processTemplate(template, data);
+
+  // Loops can push a short template over the limit once real line items are filled in
+  if (message.length > WHATSAPP_TEXT_LIMIT && validation.valid) {
+    validation.warnings.push({
+      message: `This preview is ${message.length} characters; WhatsApp messages over ${WHATSAPP_TEXT_LIMIT} are rejected`
+    });
+  }
+
+  return { validation, message, length: message.length, source, orderName };
+}
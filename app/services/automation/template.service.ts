@@ -1,11 +1,30 @@
 /**
  * Template Service
- * Handles variable replacement in message templates
+ * Renders message templates for every sending path
+ *
+ * Syntax:
+ *   {{customer_name}}                       variable
+ *   {{customer_name | uppercase}}           filters: uppercase, lowercase, default:"x", date:"long", currency:"INR"
+ *   {{#if tracking_url}}...{{else}}...{{/if}}
+ *   {{#each line_items}}{{quantity}} x {{name}}{{else}}...{{/each}}
+ *   {orderId}, {billingFirstName}, ...      legacy single-brace variables
  */
 
+export interface TemplateLineItem {
+  name: string;
+  quantity: number;
+  price?: string;
+  variantTitle?: string;
+  sku?: string;
+}
+
 export interface TemplateData {
   // Customer info
   customerName?: string;
+  firstName?: string;
+  lastName?: string;
+  billingFirstName?: string;
+  shippingFirstName?: string;
   customerPhone?: string;
   customerEmail?: string;
   
@@ -14,6 +33,10 @@ export interface TemplateData {
   orderId?: string;
   orderTotal?: string;
   orderUrl?: string;
+  orderDate?: string;
+  subtotal?: string;
+  currency?: string;
+  lineItems?: TemplateLineItem[];
   
   // Product info
   productList?: string;
@@ -21,6 +44,9 @@ export interface TemplateData {
   productImageUrl?: string;
   
   // Shipping/Tracking
+  address?: string;
+  city?: string;
+  carrier?: string;
   trackingNumber?: string;
   trackingUrl?: string;
   
@@ -29,6 +55,7 @@ export interface TemplateData {
   
   // Checkout
   checkoutUrl?: string;
+  discountCode?: string;
   
   // Product (for back in stock)
   productUrl?: string;
@@ -39,84 +66,439 @@ export interface TemplateData {
  */
 export const TEMPLATE_VARIABLES: Record<string, string> = {
   '{{customer_name}}': 'Customer\'s first name',
+  '{{first_name}}': 'Customer\'s first name',
+  '{{last_name}}': 'Customer\'s last name',
+  '{{billing_first_name}}': 'First name on the billing address',
+  '{{shipping_first_name}}': 'First name on the shipping address',
   '{{customer_phone}}': 'Customer\'s phone number',
   '{{customer_email}}': 'Customer\'s email address',
   '{{order_number}}': 'Order number (e.g., #1001)',
+  '{{order_id}}': 'Shopify order ID',
   '{{order_total}}': 'Order total amount',
+  '{{subtotal}}': 'Order subtotal amount',
+  '{{order_date}}': 'Date the order was placed',
   '{{order_url}}': 'Link to order status page',
   '{{product_list}}': 'Comma-separated list of product names',
   '{{product_name}}': 'Name of the main/first product',
+  '{{items_x_quantity}}': 'Items with quantities (e.g., T-Shirt x 2)',
+  '{{address}}': 'Shipping street address',
+  '{{city}}': 'Shipping city',
+  '{{carrier}}': 'Shipping carrier',
   '{{tracking_number}}': 'Shipping tracking number',
   '{{tracking_url}}': 'Link to track shipment',
   '{{shop_name}}': 'Your store name',
   '{{checkout_url}}': 'Abandoned checkout recovery link',
-  '{{product_url}}': 'Link to product page'
+  '{{recovery_link}}': 'Abandoned checkout recovery link',
+  '{{discount_code}}': 'Discount code created for this abandoned checkout reminder',
+  '{{product_url}}': 'Link to product page',
+  '{{#each line_items}}': 'Repeat for each item: {{name}}, {{quantity}}, {{price}}, {{variant_title}}, {{sku}}'
+};
+
+// Variables available inside {{#each line_items}}
+export const LINE_ITEM_VARIABLES = ['name', 'quantity', 'price', 'variant_title', 'sku'];
+
+// Legacy {camelCase} variables and the variable each one maps to
+export const LEGACY_VARIABLES: Record<string, string> = {
+  orderId: 'order_id',
+  orderNumber: 'order_number',
+  itemsXquantity: 'items_x_quantity',
+  billingFirstName: 'billing_first_name',
+  shippingFirstName: 'shipping_first_name',
+  firstName: 'first_name',
+  shopName: 'shop_name',
+  subtotal: 'subtotal',
+  address: 'address',
+  city: 'city',
+  carrier: 'carrier',
+  trackingNumber: 'tracking_number',
+  trackingUrl: 'tracking_url',
+  recoveryLink: 'recovery_link'
 };
 
+/**
+ * Sample data used for test sends and previews
+ */
+export const SAMPLE_TEMPLATE_DATA: TemplateData = {
+  customerName: 'Rahul',
+  firstName: 'Rahul',
+  lastName: 'Sharma',
+  customerEmail: 'rahul@example.com',
+  orderNumber: '#1234',
+  orderId: '1234',
+  orderTotal: '₹2,999.00',
+  subtotal: '₹2,799.00',
+  currency: 'INR',
+  orderDate: new Date().toISOString(),
+  orderUrl: 'https://yourstore.myshopify.com/orders/1234',
+  lineItems: [
+    { name: 'Premium T-Shirt', quantity: 1, price: '1999.00', variantTitle: 'L / Blue', sku: 'TS-L-BLU' },
+    { name: 'Cotton Pants', quantity: 1, price: '800.00', variantTitle: '32', sku: 'CP-32' }
+  ],
+  productName: 'Premium T-Shirt',
+  productUrl: 'https://yourstore.myshopify.com/products/premium-tshirt',
+  address: '221B MG Road',
+  city: 'Bengaluru',
+  carrier: 'BlueDart',
+  trackingNumber: 'AWB123456789',
+  trackingUrl: 'https://tracking.example.com/AWB123456789',
+  shopName: 'Your Store',
+  checkoutUrl: 'https://yourstore.myshopify.com/checkout/recover/abc123',
+  discountCode: 'COMEBACK-7KQ2XD'
+};
+
+// WhatsApp rejects text messages longer than this
+export const WHATSAPP_TEXT_LIMIT = 4096;
+
+// Media captions (product images) are cut off after this many characters
+export const WHATSAPP_CAPTION_LIMIT = 1024;
+
+export interface TemplateIssue {
+  message: string;
+  tag?: string;
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: TemplateIssue[];
+  warnings: TemplateIssue[];
+}
+
+const KNOWN_FILTERS = ['uppercase', 'upcase', 'lowercase', 'downcase', 'default', 'date', 'currency'];
+
+type TemplateValue = string | number | undefined | TemplateContext[];
+type TemplateContext = Record<string, TemplateValue>;
+
+interface FilterCall {
+  name: string;
+  arg?: string;
+}
+
+export type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string; filters: FilterCall[] }
+  | { kind: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG_REGEX = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const LEGACY_REGEX = /(?<!\{)\{([A-Za-z]+)\}(?!\})/g;
+// A "#" typed before the order number, which already starts with one
+const HASHED_ORDER_NUMBER_REGEX = /#(?=\{orderNumber\}(?!\})|\{\{\s*order_number\b)/g;
+
 /**
  * Process a template by replacing variables with actual values
  */
 export function processTemplate(template: string, data: TemplateData): string {
-  let result = template;
-
-  // Simple variable replacement
-  const replacements: Record<string, string | undefined> = {
-    '{{customer_name}}': data.customerName,
-    '{{customer_phone}}': data.customerPhone,
-    '{{customer_email}}': data.customerEmail,
-    '{{order_number}}': data.orderNumber,
-    '{{order_total}}': data.orderTotal,
-    '{{order_url}}': data.orderUrl,
-    '{{product_list}}': data.productList,
-    '{{product_name}}': data.productName,
-    '{{tracking_number}}': data.trackingNumber,
-    '{{tracking_url}}': data.trackingUrl,
-    '{{shop_name}}': data.shopName,
-    '{{checkout_url}}': data.checkoutUrl,
-    '{{product_url}}': data.productUrl
-  };
+  const nodes = parseTemplate(template);
+  const result = renderNodes(nodes, [buildContext(data)], data.currency);
+
+  // Clean up any extra whitespace from removed conditionals
+  return result.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Rewrite legacy {camelCase} variables to {{snake_case}}
+ * Unknown single-brace words are left untouched. "#{orderNumber}" from
+ * older default templates becomes a single "#1001".
+ */
+export function normalizeLegacyVariables(template: string): string {
+  return template.replace(HASHED_ORDER_NUMBER_REGEX, '').replace(LEGACY_REGEX, (match, name: string) => {
+    const mapped = LEGACY_VARIABLES[name];
+    return mapped ? `{{${mapped}}}` : match;
+  });
+}
+
+/**
+ * Parse a template into a node tree
+ * Unclosed blocks are closed at the end and stray closing tags are dropped;
+ * both are reported through `issues` when provided
+ */
+export function parseTemplate(template: string, issues?: TemplateIssue[]): TemplateNode[] {
+  const source = normalizeLegacyVariables(template);
+  const root: TemplateNode[] = [];
 
-  for (const [variable, value] of Object.entries(replacements)) {
-    if (value !== undefined) {
-      result = result.replaceAll(variable, value);
+  // Open blocks, innermost last; `target` is the branch tags are added to
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' | 'each' }>; target: TemplateNode[] }> = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].target : root;
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_REGEX)) {
+    if (match.index > lastIndex) {
+      current().push({ kind: 'text', text: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[1];
+    const open = tag.match(/^#(if|each)\s+(\w+)$/);
+    if (open) {
+      const node: Extract<TemplateNode, { kind: 'if' | 'each' }> = open[1] === 'if'
+        ? { kind: 'if', name: open[2], then: [], otherwise: [] }
+        : { kind: 'each', name: open[2], body: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.kind === 'if' ? node.then : node.body });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (block) {
+        block.target = block.node.otherwise;
+      } else {
+        issues?.push({ message: '{{else}} is not inside an {{#if}} or {{#each}} block', tag: match[0] });
+      }
+      continue;
+    }
+
+    const close = tag.match(/^\/(if|each)$/);
+    if (close) {
+      if (stack.length > 0 && stack[stack.length - 1].node.kind === close[1]) {
+        stack.pop();
+      } else if (stack.length > 0) {
+        issues?.push({
+          message: `${match[0]} closes a {{#${stack[stack.length - 1].node.kind}}} block`,
+          tag: match[0]
+        });
+      } else {
+        issues?.push({ message: `${match[0]} has no matching {{#${close[1]}}}`, tag: match[0] });
+      }
+      continue;
+    }
+
+    const [name, ...filters] = tag.split('|').map(part => part.trim());
+    if (/^[\w@]+$/.test(name)) {
+      current().push({ kind: 'variable', name, filters: filters.map(parseFilter) });
     } else {
-      // Remove the variable if no value provided
-      result = result.replaceAll(variable, '');
+      // Not a variable expression - keep it as written
+      issues?.push({ message: `${match[0]} is not a valid variable`, tag: match[0] });
+      current().push({ kind: 'text', text: match[0] });
     }
   }
 
-  // Handle conditional blocks {{#if variable}}...{{/if}}
-  result = processConditionals(result, data);
+  if (lastIndex < source.length) {
+    current().push({ kind: 'text', text: source.slice(lastIndex) });
+  }
 
-  // Clean up any extra whitespace from removed conditionals
-  result = result.replace(/\n{3,}/g, '\n\n').trim();
+  for (const block of stack) {
+    issues?.push({
+      message: `{{#${block.node.kind} ${block.node.name}}} is never closed with {{/${block.node.kind}}}`,
+      tag: `{{#${block.node.kind} ${block.node.name}}}`
+    });
+  }
 
-  return result;
+  return root;
 }
 
 /**
- * Process conditional blocks in templates
- * Supports: {{#if variable}}content{{/if}}
+ * Check a template for unknown variables, unbalanced blocks and WhatsApp length limits
+ * Pass `withMedia` when the message is sent as an image caption
  */
-function processConditionals(template: string, data: TemplateData): string {
-  const conditionalRegex = /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g;
-  
-  return template.replace(conditionalRegex, (_match, variable, content) => {
-    const dataKey = camelCase(variable) as keyof TemplateData;
-    const value = data[dataKey];
-    
-    if (value && value.toString().trim() !== '') {
-      return content;
+export function validateTemplate(template: string, options: { withMedia?: boolean } = {}): TemplateValidationResult {
+  const errors: TemplateIssue[] = [];
+  const warnings: TemplateIssue[] = [];
+
+  if (!template || template.trim() === '') {
+    errors.push({ message: 'Template is empty' });
+    return { valid: false, errors, warnings };
+  }
+
+  const nodes = parseTemplate(template, errors);
+  const known = new Set(Object.keys(TEMPLATE_VARIABLES).map(variable => variable.replace(/^\{\{#each\s+|^\{\{|\}\}$/g, '')));
+  const reported = new Set<string>();
+
+  const check = (list: TemplateNode[], inLoop: boolean) => {
+    for (const node of list) {
+      if (node.kind === 'text') {
+        continue;
+      }
+
+      const isKnown = known.has(node.name) || (inLoop && (LINE_ITEM_VARIABLES.includes(node.name) || node.name === '@index'));
+      if (!isKnown && !reported.has(node.name)) {
+        reported.add(node.name);
+        errors.push({ message: `Unknown variable "${node.name}"`, tag: `{{${node.name}}}` });
+      }
+
+      if (node.kind === 'variable') {
+        for (const filter of node.filters) {
+          if (!KNOWN_FILTERS.includes(filter.name)) {
+            warnings.push({ message: `Unknown filter "${filter.name}" will be ignored`, tag: `{{${node.name} | ${filter.name}}}` });
+          }
+        }
+      } else if (node.kind === 'if') {
+        check(node.then, inLoop);
+        check(node.otherwise, inLoop);
+      } else {
+        if (node.name !== 'line_items') {
+          errors.push({ message: `Only line_items can be used with {{#each}}`, tag: `{{#each ${node.name}}}` });
+        }
+        check(node.body, true);
+        check(node.otherwise, inLoop);
+      }
     }
-    return '';
-  });
+  };
+  check(nodes, false);
+
+  if (template.length > WHATSAPP_TEXT_LIMIT) {
+    errors.push({ message: `Template is ${template.length} characters; WhatsApp messages are limited to ${WHATSAPP_TEXT_LIMIT}` });
+  } else if (options.withMedia && template.length > WHATSAPP_CAPTION_LIMIT) {
+    warnings.push({ message: `Image captions over ${WHATSAPP_CAPTION_LIMIT} characters are cut off by WhatsApp` });
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Parse `name:"arg"` or `name:arg`
+ */
+function parseFilter(filter: string): FilterCall {
+  const separator = filter.indexOf(':');
+  if (separator === -1) {
+    return { name: filter.toLowerCase() };
+  }
+  return {
+    name: filter.slice(0, separator).trim().toLowerCase(),
+    arg: filter.slice(separator + 1).trim().replace(/^["']|["']$/g, '')
+  };
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[], currency?: string): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'variable': {
+        const value = lookup(node.name, scopes);
+        const text = Array.isArray(value) ? '' : value === undefined ? '' : String(value);
+        return node.filters.reduce((result, filter) => applyFilter(result, filter, currency), text);
+      }
+      case 'if':
+        return renderNodes(isTruthy(lookup(node.name, scopes)) ? node.then : node.otherwise, scopes, currency);
+      case 'each': {
+        const items = lookup(node.name, scopes);
+        if (!Array.isArray(items) || items.length === 0) {
+          return renderNodes(node.otherwise, scopes, currency);
+        }
+        return items.map((item, index) =>
+          renderNodes(node.body, [...scopes, { ...item, '@index': index + 1 }], currency)
+        ).join('');
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Resolve a variable from the innermost scope outwards
+ */
+function lookup(name: string, scopes: TemplateContext[]): TemplateValue {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (scopes[i][name] !== undefined) {
+      return scopes[i][name];
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value.toString().trim() !== '';
+}
+
+function applyFilter(value: string, filter: FilterCall, currency?: string): string {
+  switch (filter.name) {
+    case 'uppercase':
+    case 'upcase':
+      return value.toUpperCase();
+    case 'lowercase':
+    case 'downcase':
+      return value.toLowerCase();
+    case 'default':
+      return value.trim() === '' ? (filter.arg ?? '') : value;
+    case 'date': {
+      const date = new Date(value);
+      if (!value || isNaN(date.getTime())) {
+        return value;
+      }
+      const style = (['short', 'medium', 'long', 'full'].includes(filter.arg || '') ? filter.arg : 'medium') as Intl.DateTimeFormatOptions['dateStyle'];
+      return new Intl.DateTimeFormat('en-IN', { dateStyle: style }).format(date);
+    }
+    case 'currency': {
+      // Already formatted values (e.g. "₹2,999.00") pass through unchanged
+      const amount = Number(value);
+      if (!value || isNaN(amount)) {
+        return value;
+      }
+      try {
+        return formatCurrency(amount, filter.arg || currency || 'USD');
+      } catch {
+        return value;
+      }
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Flatten TemplateData into snake_case variables and fill derived values
+ */
+function buildContext(data: TemplateData): TemplateContext {
+  const context: TemplateContext = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key !== 'lineItems' && (typeof value === 'string' || typeof value === 'number')) {
+      context[snakeCase(key)] = value;
+    }
+  }
+
+  const lineItems = data.lineItems || [];
+  context.line_items = lineItems.map(item => ({
+    name: item.name,
+    quantity: item.quantity,
+    price: item.price,
+    variant_title: item.variantTitle,
+    sku: item.sku
+  }));
+
+  context.first_name ??= data.customerName;
+  context.customer_name ??= data.firstName;
+  context.billing_first_name ??= context.first_name;
+  context.shipping_first_name ??= context.first_name;
+  context.recovery_link ??= data.checkoutUrl;
+  context.checkout_url ??= context.recovery_link;
+  context.items_x_quantity = lineItems.length > 0
+    ? lineItems.map(item => `${item.name} x ${item.quantity}`).join(', ')
+    : data.productList;
+  context.product_list ??= lineItems.length > 0 ? extractProductInfo(lineItems).productList : undefined;
+  context.product_name ??= lineItems[0]?.name;
+
+  return context;
 }
 
 /**
- * Convert snake_case to camelCase
+ * Convert camelCase to snake_case
  */
-function camelCase(str: string): string {
-  return str.replace(/_([a-z])/g, (_m, letter) => letter.toUpperCase());
+function snakeCase(str: string): string {
+  return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+/**
+ * Map Shopify webhook line items to template line items
+ */
+export function toTemplateLineItems(lineItems: Array<{
+  name?: string;
+  title?: string;
+  quantity?: number;
+  price?: string;
+  variant_title?: string | null;
+  sku?: string | null;
+}> | undefined): TemplateLineItem[] {
+  return (lineItems || []).map(item => ({
+    name: item.title || item.name || 'Unknown Product',
+    quantity: item.quantity || 1,
+    price: item.price,
+    variantTitle: item.variant_title || undefined,
+    sku: item.sku || undefined
+  }));
 }
 
 /**
@@ -202,3 +584,47 @@ export function formatPhoneForWhatsApp(phone: string): string {
   
   return cleaned;
 }
+
+// UTM values on links in sent messages, read back from order landing sites for attribution
+export const UTM_SOURCE = 'whatsend';
+export const UTM_MEDIUM = 'whatsapp';
+
+const LINK_REGEX = /https?:\/\/[^\s<>"'*]+/g;
+
+// Links that open WhatsApp itself never land on the store
+const UNTRACKED_LINK_HOSTS = ['wa.me', 'api.whatsapp.com', 'chat.whatsapp.com'];
+
+/**
+ * utm_campaign value for a message - the automation type, or campaign_<id> for campaigns
+ */
+export function utmCampaignFor(messageType: string, campaignId?: string): string {
+  return campaignId ? `campaign_${campaignId}` : messageType;
+}
+
+/**
+ * Add UTM parameters to every link in a rendered message
+ * Links that already carry utm_source are left as they are
+ */
+export function tagMessageLinks(message: string, utmCampaign: string): string {
+  return message.replace(LINK_REGEX, (match) => {
+    // Trailing punctuation belongs to the sentence, not the link
+    const trailing = match.match(/[.,;:!?)\]]+$/)?.[0] || '';
+    const link = trailing ? match.slice(0, -trailing.length) : match;
+
+    let url: URL;
+    try {
+      url = new URL(link);
+    } catch {
+      return match;
+    }
+
+    if (UNTRACKED_LINK_HOSTS.includes(url.hostname) || url.searchParams.has('utm_source')) {
+      return match;
+    }
+
+    url.searchParams.set('utm_source', UTM_SOURCE);
+    url.searchParams.set('utm_medium', UTM_MEDIUM);
+    url.searchParams.set('utm_campaign', utmCampaign);
+    return `${url.toString()}${trailing}`;
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * Back in Stock Service
+ * Stores variant subscriptions from the storefront and queues
+ * back_in_stock messages when a variant is restocked
+ */
+
+import prisma from "../../db.server";
+import { getAutomation } from "../automation/automation.service";
+import { processTemplate, formatPhoneForWhatsApp } from "../automation/template.service";
+import { queueMessage } from "../queue/message-queue.service";
+
+// Don't notify the same variant more than once in this window
+const RESTOCK_THROTTLE_MINUTES = 60;
+
+// Gap between individual notifications so a restock doesn't burst the sender
+const NOTIFICATION_SPACING_MS = 3000;
+
+export interface VariantStockUpdate {
+  inventoryItemId: string;
+  variantId: string;
+  productTitle?: string;
+  productUrl?: string;
+  available: number;
+}
+
+/**
+ * Subscribe a shopper's WhatsApp number to a variant
+ * Re-subscribing after a notification reactivates the same row
+ */
+export async function subscribeToVariant(
+  shopDomain: string,
+  subscription: {
+    productId: string;
+    variantId: string;
+    phone: string;
+    customerName?: string;
+    productTitle?: string;
+    productUrl?: string;
+  }
+) {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true }
+  });
+
+  if (!shop) {
+    throw new Error('Shop not found');
+  }
+
+  const phone = formatPhoneForWhatsApp(subscription.phone);
+
+  return prisma.backInStockSubscription.upsert({
+    where: {
+      shopId_variantId_phone: {
+        shopId: shop.id,
+        variantId: subscription.variantId,
+        phone
+      }
+    },
+    create: {
+      shopId: shop.id,
+      productId: subscription.productId,
+      variantId: subscription.variantId,
+      productTitle: subscription.productTitle,
+      productUrl: subscription.productUrl,
+      phone,
+      customerName: subscription.customerName
+    },
+    update: {
+      status: 'active',
+      notifiedAt: null,
+      customerName: subscription.customerName ?? undefined,
+      productTitle: subscription.productTitle ?? undefined,
+      productUrl: subscription.productUrl ?? undefined
+    }
+  });
+}
+
+/**
+ * Record a new stock level and notify subscribers on a zero -> positive change
+ * Returns the number of notifications queued
+ */
+export async function handleStockUpdate(shopDomain: string, update: VariantStockUpdate): Promise<number> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true }
+  });
+
+  if (!shop) {
+    return 0;
+  }
+
+  const previous = await prisma.inventoryState.findUnique({
+    where: { shopId_inventoryItemId: { shopId: shop.id, inventoryItemId: update.inventoryItemId } }
+  });
+
+  await prisma.inventoryState.upsert({
+    where: { shopId_inventoryItemId: { shopId: shop.id, inventoryItemId: update.inventoryItemId } },
+    create: {
+      shopId: shop.id,
+      inventoryItemId: update.inventoryItemId,
+      variantId: update.variantId,
+      available: update.available
+    },
+    update: {
+      variantId: update.variantId,
+      available: update.available
+    }
+  });
+
+  // Unknown previous level counts as out of stock - shoppers only subscribe to sold out variants
+  const wasOutOfStock = !previous || previous.available <= 0;
+  if (!wasOutOfStock || update.available <= 0) {
+    return 0;
+  }
+
+  if (previous?.lastNotifiedAt) {
+    const throttleUntil = previous.lastNotifiedAt.getTime() + RESTOCK_THROTTLE_MINUTES * 60 * 1000;
+    if (Date.now() < throttleUntil) {
+      console.log(`Restock notifications for variant ${update.variantId} throttled until ${new Date(throttleUntil).toISOString()}`);
+      return 0;
+    }
+  }
+
+  return notifySubscribers(shopDomain, shop.id, update);
+}
+
+/**
+ * Queue back_in_stock messages for every active subscriber of a variant
+ */
+async function notifySubscribers(shopDomain: string, shopId: string, update: VariantStockUpdate): Promise<number> {
+  const automation = await getAutomation(shopDomain, 'back_in_stock');
+  if (!automation?.enabled || !automation.template) {
+    return 0;
+  }
+
+  const subscriptions = await prisma.backInStockSubscription.findMany({
+    where: { shopId, variantId: update.variantId, status: 'active' },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (subscriptions.length === 0) {
+    return 0;
+  }
+
+  await prisma.inventoryState.update({
+    where: { shopId_inventoryItemId: { shopId, inventoryItemId: update.inventoryItemId } },
+    data: { lastNotifiedAt: new Date() }
+  });
+
+  const shopName = shopDomain.replace('.myshopify.com', '');
+  let queued = 0;
+
+  for (const subscription of subscriptions) {
+    // Claim the subscription first so duplicate webhooks can't notify twice
+    const claimed = await prisma.backInStockSubscription.updateMany({
+      where: { id: subscription.id, status: 'active' },
+      data: { status: 'notified', notifiedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const message = processTemplate(automation.template, {
+      customerName: subscription.customerName || 'there',
+      productName: update.productTitle || subscription.productTitle || '',
+      productUrl: update.productUrl || subscription.productUrl || '',
+      shopName
+    });
+
+    const result = await queueMessage({
+      shopId: shopDomain,
+      phone: subscription.phone,
+      message,
+      messageType: 'back_in_stock',
+      mediaId: automation.mediaId || undefined,
+      scheduledAt: new Date(Date.now() + queued * NOTIFICATION_SPACING_MS + automation.delayMinutes * 60 * 1000),
+      priority: 6
+    });
+
+    // Out of quota - give the claim back so the next restock notifies them, and stop here
+    if ('skipped' in result && result.skipped === 'quota') {
+      await prisma.backInStockSubscription.updateMany({
+        where: { id: subscription.id, status: 'notified' },
+        data: { status: 'active', notifiedAt: null }
+      });
+      break;
+    }
+
+    // The number opted out - the subscription ends without a message
+    if ('skipped' in result) {
+      await prisma.backInStockSubscription.updateMany({
+        where: { id: subscription.id, status: 'notified' },
+        data: { status: 'cancelled', notifiedAt: null }
+      });
+      continue;
+    }
+
+    queued++;
+  }
+
+  console.log(`Queued ${queued} back in stock notification(s) for variant ${update.variantId}`);
+  return queued;
+}
@@ -220,6 +220,106 @@ export async function incrementMessageCount(
   });
 }
 
+/**
+ * Take quota for messages about to be sent
+ * The limit check and the increment are a single conditional update, so
+ * concurrent senders can't push a shop past its plan's limit.
+ */
+export async function claimMessageQuota(
+  shopDomain: string,
+  count: number = 1
+): Promise<boolean> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { planType: true },
+  });
+
+  if (!shop || shop.planType === "free") {
+    return false;
+  }
+
+  const planType = shop.planType as PlanType;
+  const limit = planType in PLAN_LIMITS ? PLAN_LIMITS[planType] : 0;
+
+  // Unlimited plans only count
+  if (limit === null) {
+    await incrementMessageCount(shopDomain, count);
+    return true;
+  }
+
+  // The plan is part of the condition, so a downgrade in between is respected
+  const claimed = await prisma.shop.updateMany({
+    where: {
+      shopifyDomain: shopDomain,
+      planType,
+      messagesSent: { lte: limit - count },
+    },
+    data: {
+      messagesSent: { increment: count },
+    },
+  });
+
+  return claimed.count > 0;
+}
+
+/**
+ * Give back quota taken for messages that couldn't be sent
+ */
+export async function releaseMessageQuota(
+  shopDomain: string,
+  count: number = 1
+): Promise<void> {
+  await prisma.shop.updateMany({
+    where: {
+      shopifyDomain: shopDomain,
+      messagesSent: { gte: count },
+    },
+    data: {
+      messagesSent: { decrement: count },
+    },
+  });
+}
+
+/**
+ * Log a message that wasn't sent because the shop is out of quota
+ */
+export async function recordQuotaSkip(
+  shopDomain: string,
+  message: {
+    phone: string;
+    message: string;
+    messageType: string;
+    orderId?: string;
+    orderNumber?: string;
+    campaignId?: string;
+    variantId?: string;
+  }
+): Promise<void> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true },
+  });
+
+  if (!shop) {
+    return;
+  }
+
+  await prisma.messageHistory.create({
+    data: {
+      shopId: shop.id,
+      recipientPhone: message.phone,
+      message: message.message,
+      messageType: message.messageType,
+      orderId: message.orderId,
+      orderNumber: message.orderNumber,
+      campaignId: message.campaignId,
+      variantId: message.variantId,
+      status: "skipped_quota",
+      errorMessage: "Message limit reached for the current plan",
+    },
+  });
+}
+
 /**
  * Reset monthly message count (call at billing cycle start)
  */
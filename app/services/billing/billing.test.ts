@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Needs a migrated database - the claim is a single conditional UPDATE
+test('concurrent claims never go past the plan limit', { skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' }, async () => {
+  const { default: prisma } = await import('../../db.server');
+  const { PLAN_LIMITS, claimMessageQuota } = await import('./billing.service');
+
+  const limit = PLAN_LIMITS.starter!;
+  const shopifyDomain = `quota-race-${Date.now()}.myshopify.com`;
+  await prisma.shop.create({
+    data: { shopifyDomain, accessToken: 'test', planType: 'starter', messagesSent: limit - 3 }
+  });
+
+  try {
+    const results = await Promise.all(Array.from({ length: 10 }, () => claimMessageQuota(shopifyDomain)));
+    const shop = await prisma.shop.findUnique({ where: { shopifyDomain }, select: { messagesSent: true } });
+
+    assert.equal(results.filter(Boolean).length, 3);
+    assert.equal(shop?.messagesSent, limit);
+    assert.equal(await claimMessageQuota(shopifyDomain), false);
+  } finally {
+    await prisma.shop.delete({ where: { shopifyDomain } });
+    await prisma.$disconnect();
+  }
+});
@@ -0,0 +1,235 @@
+/**
+ * Campaign A/B Test Service
+ * Measures how each message variant did with the test group, picks the
+ * winner and sends it to the recipients that were held back
+ */
+
+import prisma from "../../db.server";
+import { renderCampaignMessage, type CampaignTemplateCustomer } from "./campaign-audience.service";
+import {
+  AB_TEST_EXTENSION_HOURS,
+  pickWinner,
+  type AbTestMetric,
+  type VariantResult
+} from "./campaign.constants";
+
+// Held-back recipients rendered per query
+const RELEASE_BATCH_SIZE = 500;
+
+/**
+ * Sends, reads, clicks and attributed orders per variant of a campaign
+ */
+export async function getVariantResults(campaignId: string): Promise<VariantResult[]> {
+  const [variants, sentByStatus, clickedLinks, attributions] = await Promise.all([
+    prisma.campaignVariant.findMany({
+      where: { campaignId },
+      orderBy: { label: 'asc' }
+    }),
+    prisma.messageHistory.groupBy({
+      by: ['variantId', 'status'],
+      where: { campaignId, variantId: { not: null } },
+      _count: { _all: true }
+    }),
+    prisma.trackedLink.findMany({
+      where: { campaignId, clickCount: { gt: 0 }, messageHistoryId: { not: null } },
+      select: { messageHistoryId: true }
+    }),
+    prisma.orderAttribution.findMany({
+      where: { campaignId, messageHistoryId: { not: null } },
+      select: { messageHistoryId: true, revenue: true }
+    })
+  ]);
+
+  // Clicks and orders point at message history rows - map those to variants
+  const historyIds = [...new Set([
+    ...clickedLinks.map((link: { messageHistoryId: string }) => link.messageHistoryId),
+    ...attributions.map((attribution: { messageHistoryId: string }) => attribution.messageHistoryId)
+  ])];
+  const histories = historyIds.length > 0
+    ? await prisma.messageHistory.findMany({
+        where: { id: { in: historyIds }, variantId: { not: null } },
+        select: { id: true, variantId: true }
+      })
+    : [];
+  const variantByHistory = new Map<string, string>(
+    histories.map((history: { id: string; variantId: string }) => [history.id, history.variantId])
+  );
+
+  return variants.map((variant: { id: string; label: string; message: string }) => {
+    const counts = sentByStatus.filter((row: { variantId: string }) => row.variantId === variant.id);
+    const countOf = (statuses: string[]) => counts
+      .filter((row: { status: string }) => statuses.includes(row.status))
+      .reduce((sum: number, row: { _count: { _all: number } }) => sum + row._count._all, 0);
+
+    const sent = countOf(['sent', 'delivered', 'read']);
+    const delivered = countOf(['delivered', 'read']);
+    const read = countOf(['read']);
+
+    // A message with several clicked links counts once
+    const clickedMessages = new Set(
+      clickedLinks
+        .filter((link: { messageHistoryId: string }) => variantByHistory.get(link.messageHistoryId) === variant.id)
+        .map((link: { messageHistoryId: string }) => link.messageHistoryId)
+    ).size;
+
+    const variantOrders = attributions.filter(
+      (attribution: { messageHistoryId: string }) => variantByHistory.get(attribution.messageHistoryId) === variant.id
+    );
+    const revenue = variantOrders.reduce((sum: number, attribution: { revenue: number }) => sum + attribution.revenue, 0);
+
+    return {
+      variantId: variant.id,
+      label: variant.label,
+      message: variant.message,
+      sent,
+      delivered,
+      read,
+      clickedMessages,
+      orders: variantOrders.length,
+      revenue,
+      readRate: sent > 0 ? read / sent : 0,
+      clickRate: sent > 0 ? clickedMessages / sent : 0,
+      conversionRate: sent > 0 ? variantOrders.length / sent : 0
+    };
+  });
+}
+
+/**
+ * Record the winning variant unless one was already chosen
+ * Returns false when another request or the worker got there first.
+ */
+async function setWinner(campaignId: string, variantId: string): Promise<boolean> {
+  const result = await prisma.campaign.updateMany({
+    where: { id: campaignId, winnerVariantId: null, status: { in: ['scheduled', 'processing', 'paused'] } },
+    data: { winnerVariantId: variantId, winnerChosenAt: new Date() }
+  });
+  return result.count > 0;
+}
+
+/**
+ * Pick winners for tests that ran their course and are set to choose automatically
+ * A test without a clear winner runs on while its messages are still going out,
+ * then waits for the merchant to pick one.
+ */
+export async function evaluateDueAbTests(now: Date = new Date()): Promise<number> {
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      winnerVariantId: null,
+      abTestAutoWinner: true,
+      abTestEndsAt: { lte: now },
+      status: { in: ['scheduled', 'processing'] }
+    },
+    select: { id: true, name: true, abTestMetric: true }
+  });
+
+  let decided = 0;
+
+  for (const campaign of campaigns) {
+    const winner = pickWinner(await getVariantResults(campaign.id), (campaign.abTestMetric || 'click') as AbTestMetric);
+    if (winner) {
+      if (await setWinner(campaign.id, winner.variantId)) {
+        console.log(`🏆 Variant ${winner.label} won the A/B test for campaign "${campaign.name}"`);
+        decided++;
+      }
+      continue;
+    }
+
+    const unsent = await prisma.messageQueue.count({
+      where: { campaignId: campaign.id, variantId: { not: null }, status: { in: ['pending', 'processing'] } }
+    });
+
+    if (unsent > 0) {
+      await prisma.campaign.updateMany({
+        where: { id: campaign.id, winnerVariantId: null },
+        data: { abTestEndsAt: new Date(now.getTime() + AB_TEST_EXTENSION_HOURS * 60 * 60 * 1000) }
+      });
+      console.log(`A/B test for campaign "${campaign.name}" has no clear winner yet - extended while ${unsent} messages go out`);
+    } else {
+      await prisma.campaign.updateMany({
+        where: { id: campaign.id, winnerVariantId: null },
+        data: { abTestAutoWinner: false }
+      });
+      console.log(`A/B test for campaign "${campaign.name}" has no clear winner - left for the merchant to pick`);
+    }
+  }
+
+  return decided;
+}
+
+/**
+ * Merchant picks the winner by hand, before or instead of the automatic choice
+ */
+export async function chooseWinner(
+  shopId: string,
+  campaignId: string,
+  variantId: string
+): Promise<{ success: boolean; error?: string }> {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, shopId },
+    select: { winnerVariantId: true, variants: { select: { id: true } } }
+  });
+  if (!campaign) {
+    return { success: false, error: "Campaign not found" };
+  }
+  if (!campaign.variants.some((variant: { id: string }) => variant.id === variantId)) {
+    return { success: false, error: "Variant not found" };
+  }
+  if (campaign.winnerVariantId) {
+    return { success: false, error: "A winner was already chosen" };
+  }
+  if (!(await setWinner(campaignId, variantId))) {
+    return { success: false, error: "The test can no longer be decided" };
+  }
+  return { success: true };
+}
+
+/**
+ * Render the winning variant for held-back recipients and let the dispatcher send it
+ */
+export async function releaseHeldRecipients(now: Date = new Date()): Promise<number> {
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      winnerVariantId: { not: null },
+      status: { in: ['scheduled', 'processing', 'paused'] },
+      messages: { some: { status: 'held' } }
+    },
+    select: { id: true, winnerVariantId: true, shop: { select: { shopifyDomain: true } } }
+  });
+
+  let released = 0;
+
+  for (const campaign of campaigns) {
+    const winner = await prisma.campaignVariant.findUnique({ where: { id: campaign.winnerVariantId } });
+    if (!winner) {
+      continue;
+    }
+
+    for (;;) {
+      const rows = await prisma.messageQueue.findMany({
+        where: { campaignId: campaign.id, status: 'held' },
+        select: { id: true, scheduledAt: true, templateData: true },
+        take: RELEASE_BATCH_SIZE
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        // Recipients whose own send time is still ahead keep it
+        const scheduledAt = row.scheduledAt && row.scheduledAt > now ? row.scheduledAt : now;
+        const result = await prisma.messageQueue.updateMany({
+          where: { id: row.id, status: 'held' },
+          data: {
+            status: 'pending',
+            variantId: winner.id,
+            message: renderCampaignMessage(winner.message, (row.templateData || {}) as CampaignTemplateCustomer, campaign.shop.shopifyDomain),
+            scheduledAt
+          }
+        });
+        released += result.count;
+      }
+    }
+  }
+
+  return released;
+}
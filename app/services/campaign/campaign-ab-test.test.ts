@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MIN_AB_TEST_SENDS, pickWinner, type VariantResult } from './campaign.constants';
+
+function variant(label: string, sent: number, clickedMessages: number): VariantResult {
+  return {
+    variantId: `variant-${label}`,
+    label,
+    message: `Message ${label}`,
+    sent,
+    delivered: sent,
+    read: 0,
+    clickedMessages,
+    orders: 0,
+    revenue: 0,
+    readRate: 0,
+    clickRate: sent > 0 ? clickedMessages / sent : 0,
+    conversionRate: 0
+  };
+}
+
+test('the variant with the best rate wins', () => {
+  const results = [variant('A', 100, 5), variant('B', 100, 9), variant('C', 100, 7)];
+
+  assert.equal(pickWinner(results, 'click')?.label, 'B');
+});
+
+test('no winner without results', () => {
+  assert.equal(pickWinner([], 'click'), null);
+});
+
+test('no winner while a variant has too few sends', () => {
+  const results = [variant('A', MIN_AB_TEST_SENDS - 1, 10), variant('B', 100, 1)];
+
+  assert.equal(pickWinner(results, 'click'), null);
+});
+
+test('a tie is not decided for the first variant', () => {
+  assert.equal(pickWinner([variant('A', 100, 4), variant('B', 100, 4)], 'click'), null);
+  assert.equal(pickWinner([variant('A', 100, 0), variant('B', 100, 0)], 'click'), null);
+});
@@ -0,0 +1,446 @@
+/**
+ * Campaign Audience Service
+ * Pages through a segment's customers in the background, filters out the
+ * ones a campaign can't message and streams the rest into MessageQueue
+ */
+
+import prisma from "../../db.server";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { unauthenticated } from "../../shopify.server";
+import { processTemplate, formatPhoneForWhatsApp } from "../automation/template.service";
+import { getSuppressedPhones } from "../suppression/suppression.service";
+import { transitionCampaign } from "./campaign-lifecycle.service";
+import { getCampaignSchedule, resolveRecipientTimeZone, scheduleForRecipient } from "./campaign-schedule.service";
+import type { AudienceExclusions, AudienceSummary, CampaignConsentMode } from "./campaign.constants";
+
+// Customers per Admin API page (the API maximum)
+const PAGE_SIZE = 250;
+
+// How long a worker holds a campaign while building it - refreshed after every page
+const BUILD_LEASE_MS = 5 * 60 * 1000;
+
+// Wait before retrying a page that failed, and how many failures in a row fail the campaign
+const RETRY_DELAY_MS = 60 * 1000;
+const MAX_PAGE_FAILURES = 5;
+
+interface SegmentCustomer {
+  id: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  smsMarketingConsent?: { marketingState: string } | null;
+  emailMarketingConsent?: { marketingState: string } | null;
+  defaultAddress?: { timeZone?: string | null; countryCodeV2?: string | null } | null;
+}
+
+// Customer fields a campaign message can use
+export interface CampaignTemplateCustomer {
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+interface TestVariant {
+  id: string;
+  message: string;
+}
+
+interface CustomerPage {
+  customers: SegmentCustomer[];
+  endCursor: string | null;
+  hasNextPage: boolean;
+}
+
+/**
+ * Fetch one page of a segment's customers
+ */
+async function fetchCustomerPage(
+  graphql: AdminApiContext["graphql"],
+  segmentQuery: string,
+  cursor: string | null,
+): Promise<CustomerPage> {
+  const response = await graphql(
+    `
+      query getCustomers($query: String!, $first: Int!, $after: String) {
+        customers(first: $first, after: $after, query: $query) {
+          edges {
+            node {
+              id
+              firstName
+              lastName
+              phone
+              email
+              smsMarketingConsent {
+                marketingState
+              }
+              emailMarketingConsent {
+                marketingState
+              }
+              defaultAddress {
+                timeZone
+                countryCodeV2
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `,
+    { variables: { query: segmentQuery, first: PAGE_SIZE, after: cursor } },
+  );
+
+  const customerData = await response.json();
+  const connection = customerData.data?.customers;
+
+  return {
+    customers: connection?.edges.map((e: { node: SegmentCustomer }) => e.node) || [],
+    endCursor: connection?.pageInfo?.endCursor ?? null,
+    hasNextPage: !!connection?.pageInfo?.hasNextPage,
+  };
+}
+
+/**
+ * Number of customers in a segment, or null if Shopify can't say
+ */
+export async function countSegmentCustomers(
+  graphql: AdminApiContext["graphql"],
+  segmentQuery: string,
+): Promise<number | null> {
+  try {
+    const response = await graphql(
+      `
+        query countCustomers($query: String!) {
+          customersCount(query: $query, limit: null) {
+            count
+          }
+        }
+      `,
+      { variables: { query: segmentQuery } },
+    );
+    const result = await response.json();
+    return result.data?.customersCount?.count ?? null;
+  } catch (error) {
+    console.error("Failed to count segment customers:", error);
+    return null;
+  }
+}
+
+/**
+ * Whether a customer's Shopify marketing consent allows a campaign message
+ */
+function hasMarketingConsent(customer: SegmentCustomer, mode: CampaignConsentMode): boolean {
+  if (mode === 'transactional') {
+    return true;
+  }
+  const sms = customer.smsMarketingConsent?.marketingState === 'SUBSCRIBED';
+  const email = customer.emailMarketingConsent?.marketingState === 'SUBSCRIBED';
+  return mode === 'sms_or_email' ? sms || email : sms;
+}
+
+/**
+ * Split out the customers a campaign can't message
+ */
+async function filterAudience(
+  shopId: string,
+  customers: SegmentCustomer[],
+  consentMode: CampaignConsentMode,
+): Promise<{ recipients: Array<SegmentCustomer & { phone: string }>; excluded: AudienceExclusions }> {
+  const withPhone = customers.filter((c): c is SegmentCustomer & { phone: string } => !!c.phone);
+  const consenting = withPhone.filter(c => hasMarketingConsent(c, consentMode));
+
+  // The WhatsApp opt-out list applies even when consent checks are overridden
+  const suppressed = await getSuppressedPhones(shopId, consenting.map(c => c.phone));
+  const recipients = consenting.filter(c => !suppressed.has(formatPhoneForWhatsApp(c.phone)));
+
+  return {
+    recipients,
+    excluded: {
+      noPhone: customers.length - withPhone.length,
+      noConsent: withPhone.length - consenting.length,
+      suppressed: consenting.length - recipients.length,
+    },
+  };
+}
+
+/**
+ * Audience check for the campaign form
+ * Only the first page is filtered; larger segments are extrapolated from it.
+ */
+export async function previewCampaignAudience(
+  shopId: string,
+  segmentQuery: string,
+  consentMode: CampaignConsentMode,
+  graphql: AdminApiContext["graphql"],
+): Promise<AudienceSummary & { estimated: boolean }> {
+  const [page, segmentSize] = await Promise.all([
+    fetchCustomerPage(graphql, segmentQuery, null),
+    countSegmentCustomers(graphql, segmentQuery),
+  ]);
+  const { recipients, excluded } = await filterAudience(shopId, page.customers, consentMode);
+
+  const sampled = page.customers.length;
+  const matched = page.hasNextPage && segmentSize ? Math.max(segmentSize, sampled) : sampled;
+  const scale = sampled > 0 ? matched / sampled : 1;
+
+  return {
+    matched,
+    recipients: Math.round(recipients.length * scale),
+    excluded: {
+      noPhone: Math.round(excluded.noPhone * scale),
+      noConsent: Math.round(excluded.noConsent * scale),
+      suppressed: Math.round(excluded.suppressed * scale),
+    },
+    estimated: scale !== 1,
+  };
+}
+
+/**
+ * Build the audience of every campaign waiting on one, page by page
+ * Each page's queue rows and the cursor are written together, so a worker
+ * that dies mid-build resumes where it stopped once the lease runs out.
+ */
+export async function buildCampaignAudiences(now: Date = new Date()): Promise<number> {
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      status: "building",
+      OR: [{ audienceLockedUntil: null }, { audienceLockedUntil: { lte: now } }],
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let built = 0;
+
+  for (const { id } of campaigns) {
+    // Claim the campaign so a second worker leaves it alone
+    const claimed = await prisma.campaign.updateMany({
+      where: {
+        id,
+        status: "building",
+        OR: [{ audienceLockedUntil: null }, { audienceLockedUntil: { lte: now } }],
+      },
+      data: { audienceLockedUntil: new Date(Date.now() + BUILD_LEASE_MS) },
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    if (await buildCampaignAudience(id)) {
+      built++;
+    }
+  }
+
+  return built;
+}
+
+/**
+ * Page through one campaign's segment until it's done or a page fails
+ * Returns true once the campaign is ready to send
+ */
+async function buildCampaignAudience(campaignId: string): Promise<boolean> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: {
+      shop: { select: { shopifyDomain: true } },
+      variants: { orderBy: { label: "asc" } },
+    },
+  });
+
+  if (!campaign || campaign.status !== "building") {
+    return false;
+  }
+
+  const shopDomain: string = campaign.shop.shopifyDomain;
+  const consentMode = campaign.consentMode as CampaignConsentMode;
+  const excluded: AudienceExclusions = {
+    noPhone: 0,
+    noConsent: 0,
+    suppressed: 0,
+    ...(campaign.audienceExclusions as Partial<AudienceExclusions> | null),
+  };
+  let cursor: string | null = campaign.audienceCursor;
+  let processed: number = campaign.audienceProcessed;
+  let failures: number = campaign.audienceFailures;
+  const schedule = getCampaignSchedule(campaign);
+  const variants: TestVariant[] = campaign.variants;
+  const testPercent: number | null = variants.length > 1 ? campaign.abTestPercent : null;
+
+  try {
+    const { admin } = await unauthenticated.admin(shopDomain);
+
+    for (;;) {
+      const page = await fetchCustomerPage(admin.graphql, campaign.segmentQuery, cursor);
+      const { recipients, excluded: pageExcluded } = await filterAudience(campaign.shopId, page.customers, consentMode);
+
+      const pageCursor = cursor;
+      const nextExcluded: AudienceExclusions = {
+        noPhone: excluded.noPhone + pageExcluded.noPhone,
+        noConsent: excluded.noConsent + pageExcluded.noConsent,
+        suppressed: excluded.suppressed + pageExcluded.suppressed,
+      };
+
+      const now = new Date();
+      const messagesData = recipients.map(c => {
+        const { sendAt, timeZone } = scheduleForRecipient(schedule, resolveRecipientTimeZone(c.defaultAddress), now);
+        const row = {
+          shopId: campaign.shopId,
+          campaignId,
+          recipientPhone: c.phone,
+          recipientName: `${c.firstName || ""} ${c.lastName || ""}`.trim(),
+          messageType: "campaign",
+          scheduledAt: sendAt,
+          timeZone,
+        };
+
+        if (testPercent === null) {
+          return { ...row, message: renderCampaignMessage(campaign.message, c, shopDomain), status: "pending" };
+        }
+
+        // Outside the test group - rendered with the winning variant later
+        const variant = pickTestVariant(variants, testPercent);
+        if (!variant) {
+          const templateData: CampaignTemplateCustomer = {
+            firstName: c.firstName,
+            lastName: c.lastName,
+            phone: c.phone,
+            email: c.email,
+          };
+          return { ...row, message: "", status: "held", templateData };
+        }
+
+        return {
+          ...row,
+          message: renderCampaignMessage(variant.message, c, shopDomain),
+          status: "pending",
+          variantId: variant.id,
+        };
+      });
+
+      // Only write the page if the campaign is still building from the same cursor -
+      // a pause, cancel or second builder in the meantime drops it
+      const saved = await prisma.$transaction(async (tx: typeof prisma) => {
+        const advanced = await tx.campaign.updateMany({
+          where: { id: campaignId, status: "building", audienceCursor: pageCursor },
+          data: {
+            audienceCursor: page.endCursor,
+            audienceProcessed: processed + page.customers.length,
+            audienceExclusions: nextExcluded,
+            audienceFailures: 0,
+            audienceError: null,
+            totalRecipients: { increment: messagesData.length },
+            // Keep the lease while pages keep coming
+            audienceLockedUntil: new Date(Date.now() + BUILD_LEASE_MS),
+          },
+        });
+        if (advanced.count === 0) {
+          return false;
+        }
+        await tx.messageQueue.createMany({ data: messagesData });
+        return true;
+      });
+
+      if (!saved) {
+        console.log(`Stopped building audience for campaign ${campaignId} - it is no longer building`);
+        return false;
+      }
+
+      cursor = page.endCursor;
+      processed += page.customers.length;
+      Object.assign(excluded, nextExcluded);
+      failures = 0;
+
+      if (!page.hasNextPage || !cursor) {
+        break;
+      }
+    }
+  } catch (error) {
+    failures++;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Audience page for campaign ${campaignId} failed (${failures}/${MAX_PAGE_FAILURES}):`, error);
+
+    await prisma.campaign.updateMany({
+      where: { id: campaignId, status: "building" },
+      data: {
+        audienceFailures: failures,
+        audienceError: message,
+        audienceLockedUntil: new Date(Date.now() + RETRY_DELAY_MS),
+        ...(failures >= MAX_PAGE_FAILURES ? { status: "failed", completedAt: new Date() } : {}),
+      },
+    });
+    return false;
+  }
+
+  // Nobody to message - nothing for the dispatcher to do
+  const ready = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { totalRecipients: true },
+  });
+  const isEmpty = !ready || ready.totalRecipients === 0;
+
+  // Recipient-local times and quiet hours spread sends out - the dispatcher
+  // starts looking at the campaign when its earliest message is due
+  const sendWindow = await prisma.messageQueue.aggregate({
+    where: { campaignId, status: "pending" },
+    _min: { scheduledAt: true },
+    _max: { scheduledAt: true },
+  });
+
+  // The test runs for its duration after the last test message is due
+  const abTestEndsAt = testPercent !== null
+    ? new Date((sendWindow._max.scheduledAt || new Date()).getTime() + (campaign.abTestDurationHours ?? 0) * 60 * 60 * 1000)
+    : undefined;
+
+  const finished = await transitionCampaign(campaignId, isEmpty ? "completed" : "scheduled", {
+    from: "building",
+    data: {
+      audienceBuiltAt: new Date(),
+      audienceLockedUntil: null,
+      ...(sendWindow._min.scheduledAt ? { scheduledAt: sendWindow._min.scheduledAt } : {}),
+      ...(abTestEndsAt ? { abTestEndsAt } : {}),
+      ...(isEmpty ? { completedAt: new Date() } : {}),
+    },
+  });
+
+  // Paused right after the last page - resuming picks up from here
+  if (!finished) {
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: { audienceBuiltAt: new Date(), audienceLockedUntil: null, ...(abTestEndsAt ? { abTestEndsAt } : {}) },
+    });
+    return false;
+  }
+
+  console.log(`Built audience for campaign ${campaignId}: ${processed} customers scanned, ${ready?.totalRecipients ?? 0} queued`);
+  return true;
+}
+
+/**
+ * Put a recipient in the test group (one variant each, evenly) or hold them
+ * back for the winner. Returns null for held-back recipients.
+ */
+function pickTestVariant(variants: TestVariant[], testPercent: number): TestVariant | null {
+  if (Math.random() * 100 >= testPercent) {
+    return null;
+  }
+  return variants[Math.floor(Math.random() * variants.length)];
+}
+
+/**
+ * Replace variables in a campaign message
+ */
+export function renderCampaignMessage(template: string, customer: CampaignTemplateCustomer, shopDomain: string): string {
+  return processTemplate(template, {
+    customerName: customer.firstName || "Customer",
+    firstName: customer.firstName || "Customer",
+    lastName: customer.lastName || undefined,
+    customerPhone: customer.phone || undefined,
+    customerEmail: customer.email || undefined,
+    shopName: shopDomain.replace(".myshopify.com", ""),
+  });
+}
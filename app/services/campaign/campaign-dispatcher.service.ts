@@ -0,0 +1,260 @@
+/**
+ * Campaign Dispatcher Service
+ * Moves campaign MessageQueue rows into the WhatsApp sender queue and
+ * keeps Campaign progress counters in sync
+ */
+
+import prisma from "../../db.server";
+import { queueMessage } from "../queue/message-queue.service";
+import { getShopBillingStatus } from "../billing/billing.service";
+import { canDispatchCampaignMessages } from "../queue/send-pacing.service";
+import { formatPhoneForWhatsApp } from "../automation/template.service";
+import { getSuppressedPhones } from "../suppression/suppression.service";
+import { transitionCampaign } from "./campaign-lifecycle.service";
+import { type QuietHours, deferPastQuietHours, isInQuietHours, parseQuietHours } from "./campaign-schedule.service";
+
+// Max queue items handed to the sender per campaign per tick
+const DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Find campaigns that are due and hand their pending messages to the sender queue
+ */
+export async function dispatchDueCampaigns(now: Date = new Date()): Promise<number> {
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      status: { in: ["scheduled", "processing"] },
+      OR: [{ scheduledAt: null }, { scheduledAt: { lte: now } }],
+    },
+    include: { shop: { select: { shopifyDomain: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let dispatched = 0;
+
+  for (const campaign of campaigns) {
+    // Skip campaigns paused or cancelled since they were loaded
+    if (campaign.status === "scheduled" && !(await transitionCampaign(campaign.id, "processing"))) {
+      continue;
+    }
+
+    // Out of messages for this billing cycle - hold the campaign until the merchant upgrades and resumes it
+    const billing = await getShopBillingStatus(campaign.shop.shopifyDomain);
+    if (!billing.canSendMessages) {
+      if (await transitionCampaign(campaign.id, "paused", { from: "processing" })) {
+        console.log(`Paused campaign ${campaign.id} - message limit reached`);
+      }
+      continue;
+    }
+
+    // The shop's number is paused, at its daily cap or still has a backlog
+    if (!(await canDispatchCampaignMessages(campaign.shop.shopifyDomain))) {
+      continue;
+    }
+
+    const quietHours = parseQuietHours(campaign.quietHoursStart, campaign.quietHoursEnd);
+    const batchSize = Math.min(DISPATCH_BATCH_SIZE, billing.messagesRemaining ?? DISPATCH_BATCH_SIZE);
+    dispatched += await dispatchCampaignBatch(campaign.id, campaign.shop.shopifyDomain, now, quietHours, campaign.mediaId, batchSize);
+    await finalizeCampaignIfDone(campaign.id);
+  }
+
+  return dispatched;
+}
+
+/**
+ * Claim a batch of pending queue items for a campaign and push them to BullMQ
+ */
+async function dispatchCampaignBatch(
+  campaignId: string,
+  shopDomain: string,
+  now: Date,
+  quietHours: QuietHours | null,
+  mediaId: string | null,
+  batchSize: number,
+): Promise<number> {
+  const items = await prisma.messageQueue.findMany({
+    where: {
+      campaignId,
+      status: "pending",
+      scheduledAt: { lte: now },
+    },
+    orderBy: { scheduledAt: "asc" },
+    take: batchSize,
+  });
+
+  // Numbers can opt out between campaign creation and sending
+  const suppressed = items.length > 0
+    ? await getSuppressedPhones(items[0].shopId, items.map((item: { recipientPhone: string }) => item.recipientPhone))
+    : new Set<string>();
+
+  let dispatched = 0;
+
+  for (const item of items) {
+    // A long campaign can run into the night - hold the rest until quiet hours end
+    if (quietHours && item.timeZone && isInQuietHours(now, quietHours, item.timeZone)) {
+      await prisma.messageQueue.updateMany({
+        where: { id: item.id, status: "pending" },
+        data: { scheduledAt: deferPastQuietHours(now, quietHours, item.timeZone) },
+      });
+      continue;
+    }
+
+    if (suppressed.has(formatPhoneForWhatsApp(item.recipientPhone))) {
+      await prisma.messageQueue.updateMany({
+        where: { id: item.id, status: "pending" },
+        data: { status: "suppressed", lastError: "Number opted out" },
+      });
+      continue;
+    }
+
+    // Claim the row so a second dispatcher tick can't queue it twice
+    const claimed = await prisma.messageQueue.updateMany({
+      where: { id: item.id, status: "pending" },
+      data: { status: "processing", processedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    try {
+      const queued = await queueMessage({
+        shopId: shopDomain,
+        phone: formatPhoneForWhatsApp(item.recipientPhone),
+        message: item.message,
+        messageType: item.messageType,
+        campaignId,
+        variantId: item.variantId || undefined,
+        mediaId: mediaId || undefined,
+        queueItemId: item.id,
+        priority: 10,
+      });
+      if ("skipped" in queued) {
+        // Out of quota mid-batch, the row waits for the campaign to resume - the next tick pauses it
+        await prisma.messageQueue.update({
+          where: { id: item.id },
+          data: queued.skipped === "quota"
+            ? { status: "pending", lastError: "Message limit reached" }
+            : { status: "suppressed", lastError: "Number opted out" },
+        });
+        continue;
+      }
+      dispatched++;
+    } catch (error) {
+      console.error(`Failed to dispatch queue item ${item.id}:`, error);
+      // Put it back so the next tick can retry
+      await prisma.messageQueue.update({
+        where: { id: item.id },
+        data: {
+          status: "pending",
+          lastError: error instanceof Error ? error.message : "Unknown error",
+        },
+      });
+    }
+  }
+
+  return dispatched;
+}
+
+/**
+ * Mark a campaign as completed once no queue items are left in flight
+ */
+export async function finalizeCampaignIfDone(campaignId: string): Promise<void> {
+  const remaining = await prisma.messageQueue.count({
+    where: {
+      campaignId,
+      // Held rows are waiting on an A/B test winner
+      status: { in: ["pending", "held", "processing"] },
+    },
+  });
+
+  if (remaining > 0) {
+    return;
+  }
+
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { sentCount: true, failedCount: true },
+  });
+
+  if (!campaign) {
+    return;
+  }
+
+  // Every send failed - surface it as a failed campaign (opted-out recipients don't count)
+  const status = campaign.failedCount > 0 && campaign.sentCount === 0 ? "failed" : "completed";
+
+  await prisma.campaign.updateMany({
+    where: { id: campaignId, status: "processing" },
+    data: { status, completedAt: new Date() },
+  });
+}
+
+/**
+ * Whether a campaign queue item was cancelled after it reached the sender queue
+ */
+export async function isQueueItemCancelled(queueItemId: string): Promise<boolean> {
+  const item = await prisma.messageQueue.findUnique({
+    where: { id: queueItemId },
+    select: { status: true },
+  });
+  return item?.status === "cancelled";
+}
+
+/**
+ * Record a successful send for a campaign queue item (called by the sender worker)
+ */
+export async function markQueueItemSent(queueItemId: string): Promise<void> {
+  const item = await prisma.messageQueue.update({
+    where: { id: queueItemId },
+    data: {
+      status: "sent",
+      sentAt: new Date(),
+      attempts: { increment: 1 },
+      lastError: null,
+    },
+  });
+
+  if (item.campaignId) {
+    await prisma.campaign.update({
+      where: { id: item.campaignId },
+      data: { sentCount: { increment: 1 } },
+    });
+  }
+}
+
+/**
+ * Put a campaign queue item back to pending when it couldn't be sent for lack of quota
+ * It goes out once the shop has quota again and the campaign is resumed.
+ */
+export async function deferQueueItem(queueItemId: string, reason: string): Promise<void> {
+  await prisma.messageQueue.updateMany({
+    where: { id: queueItemId, status: "processing" },
+    data: { status: "pending", lastError: reason },
+  });
+}
+
+/**
+ * Record a failed send attempt for a campaign queue item (called by the sender worker)
+ * Only the final attempt moves the row to failed and counts against the campaign
+ */
+export async function markQueueItemFailed(
+  queueItemId: string,
+  errorMessage: string,
+  isFinalAttempt: boolean,
+): Promise<void> {
+  const item = await prisma.messageQueue.update({
+    where: { id: queueItemId },
+    data: {
+      status: isFinalAttempt ? "failed" : "processing",
+      attempts: { increment: 1 },
+      lastError: errorMessage,
+    },
+  });
+
+  if (isFinalAttempt && item.campaignId) {
+    await prisma.campaign.update({
+      where: { id: item.campaignId },
+      data: { failedCount: { increment: 1 } },
+    });
+  }
+}
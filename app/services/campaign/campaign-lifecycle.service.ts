@@ -0,0 +1,131 @@
+/**
+ * Campaign Lifecycle Service
+ * Moves campaigns between statuses following CAMPAIGN_TRANSITIONS, and
+ * handles the merchant's pause, resume, cancel and delete actions
+ */
+
+import prisma from "../../db.server";
+import {
+  type CampaignStatus,
+  CAMPAIGN_STATUS_META,
+  DELETABLE_CAMPAIGN_STATUSES,
+  allowedFrom,
+  canTransition
+} from "./campaign.constants";
+
+type LifecycleResult = { success: boolean; error?: string };
+
+/**
+ * Move a campaign to a new status if the current one allows it
+ * The status guard makes this safe against workers changing it concurrently;
+ * pass `from` to only move out of one particular status.
+ * Returns false when the move isn't legal (anymore).
+ */
+export async function transitionCampaign(
+  campaignId: string,
+  to: CampaignStatus,
+  options: { from?: CampaignStatus; data?: Record<string, unknown> } = {}
+): Promise<boolean> {
+  const from = options.from ? [options.from].filter(status => canTransition(status, to)) : allowedFrom(to);
+  if (from.length === 0) {
+    return false;
+  }
+
+  const result = await prisma.campaign.updateMany({
+    where: { id: campaignId, status: { in: from } },
+    data: { ...options.data, status: to }
+  });
+  return result.count > 0;
+}
+
+async function findShopCampaign(shopId: string, campaignId: string) {
+  return prisma.campaign.findFirst({
+    where: { id: campaignId, shopId },
+    select: { id: true, status: true, audienceBuiltAt: true }
+  });
+}
+
+function illegalMove(action: string, status: string): LifecycleResult {
+  const label = CAMPAIGN_STATUS_META[status as CampaignStatus]?.label.toLowerCase() || status;
+  return { success: false, error: `Can't ${action} a campaign that is ${label}` };
+}
+
+/**
+ * Stop handing messages to the sender - anything already queued still goes out
+ */
+export async function pauseCampaign(shopId: string, campaignId: string): Promise<LifecycleResult> {
+  const campaign = await findShopCampaign(shopId, campaignId);
+  if (!campaign) {
+    return { success: false, error: "Campaign not found" };
+  }
+  if (!canTransition(campaign.status, 'paused') || !(await transitionCampaign(campaignId, 'paused'))) {
+    return illegalMove('pause', campaign.status);
+  }
+  return { success: true };
+}
+
+/**
+ * Continue a paused campaign where it stopped
+ * A campaign paused while its audience was being built goes back to building.
+ */
+export async function resumeCampaign(shopId: string, campaignId: string): Promise<LifecycleResult> {
+  const campaign = await findShopCampaign(shopId, campaignId);
+  if (!campaign) {
+    return { success: false, error: "Campaign not found" };
+  }
+
+  const to: CampaignStatus = campaign.audienceBuiltAt ? 'scheduled' : 'building';
+  const data = to === 'building' ? { audienceLockedUntil: null } : {};
+
+  if (campaign.status !== 'paused' || !(await transitionCampaign(campaignId, to, { from: 'paused', data }))) {
+    return illegalMove('resume', campaign.status);
+  }
+  return { success: true };
+}
+
+/**
+ * Stop a campaign for good - unsent recipients are marked cancelled
+ */
+export async function cancelCampaign(shopId: string, campaignId: string): Promise<LifecycleResult> {
+  const campaign = await findShopCampaign(shopId, campaignId);
+  if (!campaign) {
+    return { success: false, error: "Campaign not found" };
+  }
+  if (!canTransition(campaign.status, 'cancelled') || !(await transitionCampaign(campaignId, 'cancelled', { data: { completedAt: new Date() } }))) {
+    return illegalMove('cancel', campaign.status);
+  }
+
+  // Rows already handed to the sender are skipped there once they read as cancelled
+  await prisma.messageQueue.updateMany({
+    where: { campaignId, status: { in: ['pending', 'held', 'processing'] } },
+    data: { status: 'cancelled' }
+  });
+
+  return { success: true };
+}
+
+/**
+ * Delete a campaign that has nothing left to send, with its recipient rows
+ * Message history stays, so past sends still count in reports.
+ */
+export async function deleteCampaign(shopId: string, campaignId: string): Promise<LifecycleResult> {
+  const campaign = await findShopCampaign(shopId, campaignId);
+  if (!campaign) {
+    return { success: false, error: "Campaign not found" };
+  }
+  if (!DELETABLE_CAMPAIGN_STATUSES.includes(campaign.status as CampaignStatus)) {
+    return illegalMove('delete', campaign.status);
+  }
+
+  const [, deleted] = await prisma.$transaction([
+    prisma.messageQueue.deleteMany({ where: { campaignId } }),
+    prisma.campaign.deleteMany({
+      where: { id: campaignId, status: { in: DELETABLE_CAMPAIGN_STATUSES } }
+    })
+  ]);
+
+  if (deleted.count === 0) {
+    return { success: false, error: "The campaign changed while deleting it - try again" };
+  }
+  return { success: true };
+}
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CAMPAIGN_STATUS_META,
+  CAMPAIGN_TRANSITIONS,
+  DELETABLE_CAMPAIGN_STATUSES,
+  type CampaignStatus,
+  allowedFrom,
+  canTransition
+} from './campaign.constants';
+
+const STATUSES = Object.keys(CAMPAIGN_TRANSITIONS) as CampaignStatus[];
+
+test('every transition leads to a known status', () => {
+  for (const targets of Object.values(CAMPAIGN_TRANSITIONS)) {
+    for (const to of targets) {
+      assert.ok(STATUSES.includes(to), to);
+    }
+  }
+  assert.deepEqual(Object.keys(CAMPAIGN_STATUS_META).sort(), [...STATUSES].sort());
+});
+
+test('finished campaigns stay finished', () => {
+  for (const status of ['completed', 'failed', 'cancelled'] as CampaignStatus[]) {
+    assert.deepEqual(CAMPAIGN_TRANSITIONS[status], []);
+    assert.ok(DELETABLE_CAMPAIGN_STATUSES.includes(status));
+  }
+});
+
+test('a campaign with messages left to send cannot be deleted', () => {
+  for (const status of ['building', 'scheduled', 'processing', 'paused'] as CampaignStatus[]) {
+    assert.equal(DELETABLE_CAMPAIGN_STATUSES.includes(status), false);
+  }
+});
+
+test('canTransition follows the table and rejects unknown statuses', () => {
+  assert.equal(canTransition('draft', 'building'), true);
+  assert.equal(canTransition('processing', 'paused'), true);
+  assert.equal(canTransition('paused', 'processing'), false);
+  assert.equal(canTransition('completed', 'scheduled'), false);
+  assert.equal(canTransition('archived', 'cancelled'), false);
+});
+
+test('allowedFrom lists the statuses that reach a status', () => {
+  assert.deepEqual(allowedFrom('paused').sort(), ['building', 'processing', 'scheduled']);
+  assert.deepEqual(allowedFrom('draft'), []);
+  assert.deepEqual(allowedFrom('cancelled').sort(), ['building', 'draft', 'paused', 'processing', 'scheduled']);
+});
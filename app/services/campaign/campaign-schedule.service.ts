@@ -0,0 +1,227 @@
+/**
+ * Campaign Schedule Service
+ * Time zone math for scheduled campaigns: turning a wall-clock time in a
+ * shop's or recipient's zone into UTC, and keeping sends out of quiet hours
+ */
+
+export interface QuietHours {
+  start: string; // HH:mm - may be later than end, e.g. 21:00 to 09:00
+  end: string;   // HH:mm
+}
+
+// Time zone for countries that only have one, used when an address has none
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  IN: 'Asia/Kolkata',
+  PK: 'Asia/Karachi',
+  BD: 'Asia/Dhaka',
+  LK: 'Asia/Colombo',
+  NP: 'Asia/Kathmandu',
+  AE: 'Asia/Dubai',
+  SA: 'Asia/Riyadh',
+  QA: 'Asia/Qatar',
+  KW: 'Asia/Kuwait',
+  OM: 'Asia/Muscat',
+  BH: 'Asia/Bahrain',
+  EG: 'Africa/Cairo',
+  NG: 'Africa/Lagos',
+  KE: 'Africa/Nairobi',
+  ZA: 'Africa/Johannesburg',
+  GB: 'Europe/London',
+  IE: 'Europe/Dublin',
+  FR: 'Europe/Paris',
+  DE: 'Europe/Berlin',
+  IT: 'Europe/Rome',
+  ES: 'Europe/Madrid',
+  NL: 'Europe/Amsterdam',
+  SG: 'Asia/Singapore',
+  MY: 'Asia/Kuala_Lumpur',
+  PH: 'Asia/Manila',
+  TH: 'Asia/Bangkok',
+  VN: 'Asia/Ho_Chi_Minh',
+  JP: 'Asia/Tokyo',
+  KR: 'Asia/Seoul',
+  HK: 'Asia/Hong_Kong',
+  NZ: 'Pacific/Auckland',
+  CO: 'America/Bogota',
+  PE: 'America/Lima',
+  AR: 'America/Argentina/Buenos_Aires',
+  CL: 'America/Santiago'
+};
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A recipient's time zone from their default address, if it can be told
+ */
+export function resolveRecipientTimeZone(
+  address: { timeZone?: string | null; countryCodeV2?: string | null } | null | undefined
+): string | null {
+  if (isValidTimeZone(address?.timeZone)) {
+    return address.timeZone;
+  }
+  return (address?.countryCodeV2 && COUNTRY_TIME_ZONES[address.countryCodeV2]) || null;
+}
+
+/**
+ * Wall-clock fields of a moment in a time zone
+ */
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/**
+ * How far a time zone is ahead of UTC at a moment, in milliseconds
+ */
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The moment a wall-clock time ("YYYY-MM-DDTHH:mm") happens in a time zone
+ * Times skipped by a DST change resolve to just after the jump.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date | null {
+  const match = localDateTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match || !isValidTimeZone(timeZone)) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Guess with the offset at the wall-clock time, then correct once for DST
+  const first = wallClock - timeZoneOffsetMs(new Date(wallClock), timeZone);
+  const second = wallClock - timeZoneOffsetMs(new Date(first), timeZone);
+
+  // The corrected guess misses when the time doesn't exist that day - keep the first one
+  const check = zonedParts(new Date(second), timeZone);
+  const hits = check.hour === hour && check.minute === minute;
+  return new Date(hits ? second : first);
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a moment falls in quiet hours in a time zone
+ */
+export function isInQuietHours(date: Date, quietHours: QuietHours, timeZone: string): boolean {
+  const { hour, minute } = zonedParts(date, timeZone);
+  const now = hour * 60 + minute;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) {
+    return false;
+  }
+  // Windows like 21:00-09:00 run past midnight
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Push a send time out of quiet hours to the moment they end
+ */
+export function deferPastQuietHours(date: Date, quietHours: QuietHours | null, timeZone: string): Date {
+  if (!quietHours || !isInQuietHours(date, quietHours, timeZone)) {
+    return date;
+  }
+
+  const { hour, minute, second } = zonedParts(date, timeZone);
+  const nowMinutes = hour * 60 + minute;
+  let wait = toMinutes(quietHours.end) - nowMinutes;
+  if (wait <= 0) {
+    wait += 24 * 60;
+  }
+
+  const deferred = new Date(date.getTime() + wait * 60 * 1000 - second * 1000);
+
+  // A DST change inside the wait shifts the wall clock - land on the end time anyway
+  const drift = timeZoneOffsetMs(date, timeZone) - timeZoneOffsetMs(deferred, timeZone);
+  return new Date(deferred.getTime() + drift);
+}
+
+/**
+ * Quiet hours from form or stored values, or null when they're off or malformed
+ */
+export function parseQuietHours(start: string | null | undefined, end: string | null | undefined): QuietHours | null {
+  const valid = (value: string | null | undefined): value is string => !!value && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  return valid(start) && valid(end) && start !== end ? { start, end } : null;
+}
+
+export interface CampaignSchedule {
+  scheduledAt: Date | null;
+  timeZone: string | null;        // Shop's zone
+  localSendTime: string | null;   // Wall-clock send time for recipient-local sends
+  sendInRecipientTimeZone: boolean;
+  quietHours: QuietHours | null;
+}
+
+export function getCampaignSchedule(campaign: {
+  scheduledAt: Date | null;
+  timeZone: string | null;
+  localSendTime: string | null;
+  sendInRecipientTimeZone: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}): CampaignSchedule {
+  return {
+    scheduledAt: campaign.scheduledAt,
+    timeZone: isValidTimeZone(campaign.timeZone) ? campaign.timeZone : null,
+    localSendTime: campaign.localSendTime,
+    sendInRecipientTimeZone: campaign.sendInRecipientTimeZone,
+    quietHours: parseQuietHours(campaign.quietHoursStart, campaign.quietHoursEnd)
+  };
+}
+
+/**
+ * When one recipient's message should go out, and the zone its quiet hours use
+ * Recipient-local sends use the recipient's zone when it's known and fall
+ * back to the shop's. A time that has already passed there means "now".
+ * Quiet hours always follow the recipient's own clock when we know it.
+ */
+export function scheduleForRecipient(
+  schedule: CampaignSchedule,
+  recipientTimeZone: string | null,
+  now: Date = new Date()
+): { sendAt: Date; timeZone: string | null } {
+  const timeZone = recipientTimeZone || schedule.timeZone;
+
+  let sendAt = schedule.scheduledAt || now;
+  if (schedule.sendInRecipientTimeZone && recipientTimeZone && schedule.localSendTime) {
+    sendAt = zonedTimeToUtc(schedule.localSendTime, recipientTimeZone) || sendAt;
+  }
+  if (sendAt < now) {
+    sendAt = now;
+  }
+
+  return {
+    sendAt: timeZone ? deferPastQuietHours(sendAt, schedule.quietHours, timeZone) : sendAt,
+    timeZone
+  };
+}
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  deferPastQuietHours,
+  getCampaignSchedule,
+  isInQuietHours,
+  parseQuietHours,
+  scheduleForRecipient,
+  zonedTimeToUtc
+} from './campaign-schedule.service';
+
+const NIGHT = { start: '21:00', end: '09:00' };
+
+test('wall-clock times convert with the zone offset of that day', () => {
+  assert.equal(zonedTimeToUtc('2026-06-01T09:00', 'Asia/Kolkata')?.toISOString(), '2026-06-01T03:30:00.000Z');
+  assert.equal(zonedTimeToUtc('2026-01-15T09:00', 'America/New_York')?.toISOString(), '2026-01-15T14:00:00.000Z');
+  assert.equal(zonedTimeToUtc('2026-07-15T09:00', 'America/New_York')?.toISOString(), '2026-07-15T13:00:00.000Z');
+});
+
+test('a time skipped by DST lands just after the jump', () => {
+  // 02:30 doesn't exist on 8 March 2026 in New York - clocks go from 02:00 to 03:00
+  assert.equal(zonedTimeToUtc('2026-03-08T02:30', 'America/New_York')?.toISOString(), '2026-03-08T07:30:00.000Z');
+});
+
+test('malformed times and unknown zones are rejected', () => {
+  assert.equal(zonedTimeToUtc('2026-06-01 09:00', 'Asia/Kolkata'), null);
+  assert.equal(zonedTimeToUtc('2026-06-01T09:00', 'Mars/Olympus'), null);
+});
+
+test('quiet hours can run past midnight', () => {
+  assert.equal(isInQuietHours(new Date('2026-06-01T17:00:00Z'), NIGHT, 'Asia/Kolkata'), true);  // 22:30
+  assert.equal(isInQuietHours(new Date('2026-06-01T02:00:00Z'), NIGHT, 'Asia/Kolkata'), true);  // 07:30
+  assert.equal(isInQuietHours(new Date('2026-06-01T06:30:00Z'), NIGHT, 'Asia/Kolkata'), false); // 12:00
+  assert.equal(isInQuietHours(new Date('2026-06-01T06:30:00Z'), { start: '09:00', end: '09:00' }, 'Asia/Kolkata'), false);
+});
+
+test('sends in quiet hours move to the moment they end', () => {
+  assert.equal(
+    deferPastQuietHours(new Date('2026-06-01T17:00:00Z'), NIGHT, 'Asia/Kolkata').toISOString(),
+    '2026-06-02T03:30:00.000Z'
+  );
+  assert.equal(
+    deferPastQuietHours(new Date('2026-06-01T02:45:30Z'), NIGHT, 'Asia/Kolkata').toISOString(),
+    '2026-06-01T03:30:00.000Z'
+  );
+
+  const midday = new Date('2026-06-01T06:30:00Z');
+  assert.equal(deferPastQuietHours(midday, NIGHT, 'Asia/Kolkata'), midday);
+  assert.equal(deferPastQuietHours(midday, null, 'Asia/Kolkata'), midday);
+});
+
+test('a DST change during quiet hours still ends them at the local end time', () => {
+  // 23:00 EST on 7 March - the clocks spring forward before 09:00 EDT next morning
+  assert.equal(
+    deferPastQuietHours(new Date('2026-03-08T04:00:00Z'), NIGHT, 'America/New_York').toISOString(),
+    '2026-03-08T13:00:00.000Z'
+  );
+});
+
+test('quiet hours must be two different valid times', () => {
+  assert.deepEqual(parseQuietHours('21:00', '09:00'), NIGHT);
+  assert.equal(parseQuietHours('21:00', '21:00'), null);
+  assert.equal(parseQuietHours('25:00', '09:00'), null);
+  assert.equal(parseQuietHours(null, '09:00'), null);
+});
+
+test('recipient-local sends use the recipient zone and never the past', () => {
+  const schedule = getCampaignSchedule({
+    scheduledAt: new Date('2026-06-01T03:30:00Z'),
+    timeZone: 'Asia/Kolkata',
+    localSendTime: '2026-06-01T10:00',
+    sendInRecipientTimeZone: true,
+    quietHoursStart: '21:00',
+    quietHoursEnd: '09:00'
+  });
+  const now = new Date('2026-06-01T00:00:00Z');
+
+  assert.equal(scheduleForRecipient(schedule, 'Europe/London', now).sendAt.toISOString(), '2026-06-01T09:00:00.000Z');
+  assert.equal(scheduleForRecipient(schedule, null, now).sendAt.toISOString(), '2026-06-01T03:30:00.000Z');
+
+  const later = new Date('2026-06-01T12:00:00Z');
+  assert.equal(scheduleForRecipient(schedule, 'Europe/London', later).sendAt, later);
+});
@@ -0,0 +1,152 @@
+// Campaign audience definitions - shared between client and server
+
+// Which customers in a segment a campaign may message
+export type CampaignConsentMode = 'sms' | 'sms_or_email' | 'transactional';
+
+export const CONSENT_MODE_OPTIONS: Array<{ label: string; value: CampaignConsentMode; helpText: string }> = [
+  {
+    label: 'SMS marketing consent',
+    value: 'sms',
+    helpText: 'Only customers subscribed to SMS marketing. Recommended - it is the consent tied to their phone number.'
+  },
+  {
+    label: 'SMS or email marketing consent',
+    value: 'sms_or_email',
+    helpText: 'Customers subscribed to SMS or email marketing.'
+  },
+  {
+    label: 'Transactional only (skip consent check)',
+    value: 'transactional',
+    helpText: 'Every customer with a phone number. Only for service messages such as delivery delays or recalls - never promotions.'
+  }
+];
+
+// Why customers in a segment didn't make it into a campaign
+export interface AudienceExclusions {
+  noPhone: number;
+  noConsent: number;
+  suppressed: number;
+}
+
+export interface AudienceSummary {
+  matched: number;    // Customers in the segment
+  recipients: number; // Customers who will get the message
+  excluded: AudienceExclusions;
+}
+
+export const EXCLUSION_LABELS: Record<keyof AudienceExclusions, string> = {
+  noPhone: 'No phone number',
+  noConsent: 'No marketing consent',
+  suppressed: 'Opted out of WhatsApp'
+};
+
+export type CampaignStatus =
+  | 'draft'
+  | 'building'   // Audience being paged into MessageQueue
+  | 'scheduled'  // Ready, waiting for the dispatcher
+  | 'processing' // Being handed to the sender
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+// Legal Campaign.status moves - anything else is rejected
+export const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ['building', 'cancelled'],
+  building: ['scheduled', 'completed', 'failed', 'paused', 'cancelled'],
+  scheduled: ['processing', 'paused', 'cancelled'],
+  processing: ['completed', 'failed', 'paused', 'cancelled'],
+  paused: ['building', 'scheduled', 'cancelled'],
+  completed: [],
+  failed: [],
+  cancelled: []
+};
+
+// Campaigns that can be deleted - nothing is left to send
+export const DELETABLE_CAMPAIGN_STATUSES: CampaignStatus[] = ['draft', 'completed', 'failed', 'cancelled'];
+
+export function canTransition(from: string, to: CampaignStatus): boolean {
+  return CAMPAIGN_TRANSITIONS[from as CampaignStatus]?.includes(to) ?? false;
+}
+
+// Statuses a campaign can reach the given status from
+export function allowedFrom(to: CampaignStatus): CampaignStatus[] {
+  return (Object.keys(CAMPAIGN_TRANSITIONS) as CampaignStatus[]).filter(from => CAMPAIGN_TRANSITIONS[from].includes(to));
+}
+
+export const CAMPAIGN_STATUS_META: Record<CampaignStatus, { label: string; tone?: 'info' | 'success' | 'attention' | 'warning' | 'critical' }> = {
+  draft: { label: 'Draft' },
+  building: { label: 'Finding recipients', tone: 'info' },
+  scheduled: { label: 'Scheduled', tone: 'info' },
+  processing: { label: 'Sending', tone: 'attention' },
+  paused: { label: 'Paused', tone: 'warning' },
+  completed: { label: 'Completed', tone: 'success' },
+  failed: { label: 'Failed', tone: 'critical' },
+  cancelled: { label: 'Cancelled' }
+};
+
+// Suggested quiet hours for new campaigns, in the recipient's local time
+export const DEFAULT_QUIET_HOURS = { start: '21:00', end: '09:00' };
+
+// A/B tests - each variant gets an equal share of the test group
+export const MAX_CAMPAIGN_VARIANTS = 4;
+
+export type AbTestMetric = 'read' | 'click' | 'order';
+
+export const AB_TEST_METRIC_OPTIONS: Array<{ label: string; value: AbTestMetric }> = [
+  { label: 'Read rate', value: 'read' },
+  { label: 'Click-through rate', value: 'click' },
+  { label: 'Orders per message', value: 'order' }
+];
+
+export const DEFAULT_AB_TEST = {
+  percent: 20,
+  metric: 'click' as AbTestMetric,
+  durationHours: 4,
+  autoWinner: true
+};
+
+// A variant needs this many sent messages before the test can be decided on its own
+export const MIN_AB_TEST_SENDS = 50;
+
+// How long an undecided test keeps running while its messages are still going out
+export const AB_TEST_EXTENSION_HOURS = 1;
+
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export interface VariantResult {
+  variantId: string;
+  label: string;
+  message: string;
+  sent: number;
+  delivered: number;
+  read: number;
+  clickedMessages: number;
+  orders: number;
+  revenue: number;
+  readRate: number;
+  clickRate: number;
+  conversionRate: number;
+}
+
+/**
+ * The best variant by the test metric
+ * Null when a variant has too few sends to judge or the top score is tied.
+ */
+export function pickWinner(results: VariantResult[], metric: AbTestMetric): VariantResult | null {
+  if (results.length === 0 || results.some(result => result.sent < MIN_AB_TEST_SENDS)) {
+    return null;
+  }
+
+  const score = (result: VariantResult) =>
+    metric === 'read' ? result.readRate : metric === 'order' ? result.conversionRate : result.clickRate;
+
+  const ranked = [...results].sort((a, b) => score(b) - score(a));
+  if (ranked.length > 1 && score(ranked[0]) === score(ranked[1])) {
+    return null;
+  }
+
+  return ranked[0];
+}
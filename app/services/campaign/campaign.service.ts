@@ -1,7 +1,11 @@
 import prisma from "../../db.server";
 import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
 import type { Campaign } from "@prisma/client";
-import { canSendMessages, incrementMessageCount } from "../billing/billing.service";
+import { canSendMessages } from "../billing/billing.service";
+import { isShopMedia } from "../media/media.service";
+import { countSegmentCustomers } from "./campaign-audience.service";
+import { type QuietHours, isValidTimeZone, zonedTimeToUtc } from "./campaign-schedule.service";
+import { type AbTestMetric, type CampaignConsentMode, MAX_CAMPAIGN_VARIANTS, variantLabel } from "./campaign.constants";
 
 export interface CustomerSegment {
   id: string;
@@ -9,6 +13,48 @@ export interface CustomerSegment {
   query: string;
 }
 
+// Who signed off on messaging customers without checking consent, and why
+export interface ConsentOverride {
+  reason: string;
+  approvedBy: string;
+}
+
+export interface CampaignScheduleInput {
+  sendAt?: string;                  // "YYYY-MM-DDTHH:mm" wall-clock time; empty sends now
+  timeZone: string;                 // Shop's IANA time zone
+  sendInRecipientTimeZone: boolean; // Read sendAt in each recipient's zone instead
+  quietHours: QuietHours | null;
+}
+
+// How the test group is split and the winner decided - only with several variants
+export interface AbTestInput {
+  percent: number;       // Share of recipients in the test group
+  metric: AbTestMetric;
+  durationHours: number; // Measured from the last test message
+  autoWinner: boolean;   // false waits for the merchant to pick
+}
+
+/**
+ * The shop's IANA time zone from its Shopify settings
+ */
+export async function getShopTimeZone(graphql: AdminApiContext["graphql"]): Promise<string> {
+  try {
+    const response = await graphql(`
+      query shopTimeZone {
+        shop {
+          ianaTimezone
+        }
+      }
+    `);
+    const result = await response.json();
+    const timeZone = result.data?.shop?.ianaTimezone;
+    return isValidTimeZone(timeZone) ? timeZone : "UTC";
+  } catch (error) {
+    console.error("Failed to load shop time zone:", error);
+    return "UTC";
+  }
+}
+
 /**
  * Fetch segments from Shopify Admin API
  */
@@ -42,7 +88,9 @@ export async function getSegments(
 }
 
 /**
- * Create a campaign and queue messages
+ * Create a campaign and hand its audience to the background builder
+ * Messaging customers without marketing consent needs an explicit override,
+ * which is stored on the campaign for audit.
  */
 export async function createCampaign(
   shopId: string,
@@ -51,111 +99,171 @@ export async function createCampaign(
     name: string;
     segmentId: string;
     segmentQuery: string;
-    message: string;
+    messages: string[];    // One per variant, in label order
+    abTest?: AbTestInput;
+    mediaId?: string;      // Attachment from the shop's media library
+    consentMode: CampaignConsentMode;
+    consentOverride?: ConsentOverride;
+    schedule: CampaignScheduleInput;
   },
   graphql: AdminApiContext["graphql"],
 ): Promise<{ success: boolean; campaign?: Campaign; error?: string }> {
+  if (campaignData.consentMode === 'transactional' && !campaignData.consentOverride?.reason.trim()) {
+    return { success: false, error: "Give a reason for sending without marketing consent" };
+  }
+
+  const messages = campaignData.messages.map(message => message.trim());
+  if (messages.length === 0 || messages.some(message => !message)) {
+    return { success: false, error: "Every message variant needs content" };
+  }
+  if (messages.length > MAX_CAMPAIGN_VARIANTS) {
+    return { success: false, error: `A campaign can have at most ${MAX_CAMPAIGN_VARIANTS} variants` };
+  }
+
+  const abTest = messages.length > 1 ? campaignData.abTest : undefined;
+  if (messages.length > 1) {
+    if (!abTest || !Number.isInteger(abTest.percent) || abTest.percent < 1 || abTest.percent > 100) {
+      return { success: false, error: "The test group must be between 1% and 100% of recipients" };
+    }
+    if (!Number.isInteger(abTest.durationHours) || abTest.durationHours < 1) {
+      return { success: false, error: "The test must run for at least one hour" };
+    }
+  }
+
+  if (campaignData.mediaId && !(await isShopMedia(shopId, campaignData.mediaId))) {
+    return { success: false, error: "The attachment no longer exists" };
+  }
+
+  // Scheduled times are entered in the shop's time zone
+  const { schedule } = campaignData;
+  let scheduledAt: Date | null = null;
+  if (schedule.sendAt) {
+    scheduledAt = zonedTimeToUtc(schedule.sendAt, schedule.timeZone);
+    if (!scheduledAt) {
+      return { success: false, error: "Enter a valid date and time" };
+    }
+    if (scheduledAt.getTime() <= Date.now()) {
+      return { success: false, error: "The scheduled time has already passed" };
+    }
+  }
+
   // Check billing status before allowing campaign creation
   const billingCheck = await canSendMessages(shopDomain, 1);
   if (!billingCheck.allowed) {
     return { success: false, error: billingCheck.reason };
   }
 
-  // 1. Create Campaign Record
+  // Segment size up front so the campaign can show build progress
+  const audienceTotal = await countSegmentCustomers(graphql, campaignData.segmentQuery);
+
+  // The campaign dispatcher worker pages through the segment and queues
+  // the messages (see campaign-audience.service), then schedules it
+  const override = campaignData.consentMode === 'transactional' ? campaignData.consentOverride : undefined;
   const campaign = await prisma.campaign.create({
     data: {
       shop: { connect: { id: shopId } },
       name: campaignData.name,
       segmentId: campaignData.segmentId,
       segmentQuery: campaignData.segmentQuery,
-      message: campaignData.message,
-      status: "processing",
+      // Without a test this is what everyone gets; with one, variant A
+      message: messages[0],
+      media: campaignData.mediaId ? { connect: { id: campaignData.mediaId } } : undefined,
+      variants: abTest ? { create: messages.map((message, index) => ({ label: variantLabel(index), message })) } : undefined,
+      abTestPercent: abTest?.percent ?? null,
+      abTestMetric: abTest?.metric ?? null,
+      abTestAutoWinner: abTest?.autoWinner ?? true,
+      abTestDurationHours: abTest?.durationHours ?? null,
+      consentMode: campaignData.consentMode,
+      consentOverrideReason: override?.reason.trim(),
+      consentOverrideBy: override?.approvedBy,
+      consentOverrideAt: override ? new Date() : undefined,
+      audienceTotal,
+      scheduledAt,
+      timeZone: schedule.timeZone,
+      localSendTime: schedule.sendAt || null,
+      sendInRecipientTimeZone: !!schedule.sendAt && schedule.sendInRecipientTimeZone,
+      quietHoursStart: schedule.quietHours?.start ?? null,
+      quietHoursEnd: schedule.quietHours?.end ?? null,
+      status: "building",
     },
   });
 
-  // 2. Fetch Customers for Segment
-  // Note: segmentQuery needs to be passed to customers query.
-  // We'll fetch in batches. For MVP we'll limit to 200 to avoid timeout.
-  // In production this should be a background job.
-
-  const response = await graphql(
-    `
-      query getCustomers($query: String!) {
-        customers(first: 200, query: $query) {
-          edges {
-            node {
-              id
-              firstName
-              lastName
-              phone
-              email
-            }
-          }
-        }
-      }
-    `,
-    { variables: { query: campaignData.segmentQuery } },
-  );
-
-  const customerData = await response.json();
-  // @ts-ignore
-  const customers =
-    customerData.data?.customers?.edges.map((e: any) => e.node) || [];
-
-  // Filter customers with phone numbers
-  const validCustomers = customers.filter((c: any) => c.phone);
-
-  if (validCustomers.length === 0) {
-    await prisma.campaign.update({
-      where: { id: campaign.id },
-      data: { status: "completed", totalRecipients: 0 },
-    });
-    return { success: true, campaign };
+  if (override) {
+    console.log(`Campaign ${campaign.id} for ${shopDomain} skips the marketing consent check - approved by ${override.approvedBy}: ${override.reason}`);
   }
 
-  // 3. Create Message Queue Items
-  const messagesData = validCustomers.map((c: any) => ({
-    shopId,
-    campaignId: campaign.id,
-    recipientPhone: c.phone,
-    recipientName: `${c.firstName || ""} ${c.lastName || ""}`.trim(),
-    message: formatMessage(campaignData.message, c),
-    messageType: "campaign",
-    status: "pending",
-  }));
-
-  // Batch insert (Prisma createMany is supported in Postgres)
-  await prisma.messageQueue.createMany({
-    data: messagesData,
+  return { success: true, campaign };
+}
+
+/**
+ * A shop's campaign, or null if it belongs to another shop
+ */
+export async function getCampaign(shopId: string, campaignId: string): Promise<Campaign | null> {
+  return prisma.campaign.findFirst({
+    where: { id: campaignId, shopId },
   });
+}
 
-  // Update campaign stats
-  await prisma.campaign.update({
-    where: { id: campaign.id },
-    data: {
-      status: "scheduled",
-      totalRecipients: messagesData.length,
-    },
+/**
+ * A campaign's message variants in label order
+ */
+export async function getCampaignVariants(campaignId: string) {
+  return prisma.campaignVariant.findMany({
+    where: { campaignId },
+    orderBy: { label: "asc" },
   });
+}
 
-  // Increment message count for billing
-  await incrementMessageCount(shopDomain, messagesData.length);
+/**
+ * A shop's campaigns, newest first
+ */
+export async function listCampaigns(shopId: string, take: number = 100): Promise<Campaign[]> {
+  return prisma.campaign.findMany({
+    where: { shopId },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+}
 
-  return { success: true, campaign };
+export interface CampaignRecipientRow {
+  id: string;
+  recipientPhone: string;
+  recipientName: string | null;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  sentAt: Date | null;
 }
 
 /**
- * Replace variables in message
+ * One page of a campaign's recipients from MessageQueue
  */
-function formatMessage(template: string, customer: any): string {
-  let message = template;
-  message = message.replace(
-    /{{customer_name}}/g,
-    `${customer.firstName || ""}`.trim() || "Customer",
-  );
-  message = message.replace(
-    /{{first_name}}/g,
-    customer.firstName || "Customer",
-  );
-  return message;
+export async function getCampaignRecipients(
+  campaignId: string,
+  options: { page?: number; pageSize?: number; status?: string } = {},
+): Promise<{ rows: CampaignRecipientRow[]; total: number }> {
+  const pageSize = options.pageSize ?? 50;
+  const page = Math.max(1, options.page ?? 1);
+  const where = { campaignId, ...(options.status ? { status: options.status } : {}) };
+
+  const [rows, total] = await Promise.all([
+    prisma.messageQueue.findMany({
+      where,
+      orderBy: { createdAt: "asc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: {
+        id: true,
+        recipientPhone: true,
+        recipientName: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        sentAt: true,
+      },
+    }),
+    prisma.messageQueue.count({ where }),
+  ]);
+
+  return { rows, total };
 }
@@ -12,6 +12,7 @@ const RETENTION_PERIODS = {
   messageHistory: 30,      // Keep message history for 30 days
   connectionLogs: 7,       // Keep connection logs for 7 days
   messageQueue: 1,         // Clear completed queue items after 1 day
+  trackedLinks: 90,        // Short links stop redirecting after 90 days
 };
 
 /**
@@ -74,6 +75,25 @@ export async function cleanupMessageQueue(retentionDays: number = RETENTION_PERI
   return result.count;
 }
 
+/**
+ * Clean up expired short links and their clicks
+ */
+export async function cleanupTrackedLinks(retentionDays: number = RETENTION_PERIODS.trackedLinks): Promise<number> {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+  const result = await prisma.trackedLink.deleteMany({
+    where: {
+      createdAt: {
+        lt: cutoffDate
+      }
+    }
+  });
+
+  console.log(`Cleaned up ${result.count} expired short links (older than ${retentionDays} days)`);
+  return result.count;
+}
+
 /**
  * Run all cleanup tasks
  * This should be called daily (via cron job or scheduled task)
@@ -82,6 +102,7 @@ export async function runAllCleanupTasks(): Promise<{
   messageHistory: number;
   connectionLogs: number;
   messageQueue: number;
+  trackedLinks: number;
 }> {
   console.log('Starting data cleanup tasks...');
   
@@ -89,6 +110,7 @@ export async function runAllCleanupTasks(): Promise<{
     messageHistory: await cleanupMessageHistory(),
     connectionLogs: await cleanupConnectionLogs(),
     messageQueue: await cleanupMessageQueue(),
+    trackedLinks: await cleanupTrackedLinks(),
   };
 
   console.log('Data cleanup completed:', results);
@@ -0,0 +1,317 @@
+/**
+ * COD Confirmation Service
+ * Tracks "reply 1 to confirm, 2 to cancel" requests sent with order
+ * confirmations, applies the customer's answer to the Shopify order
+ * and sends a reminder when nobody answers
+ */
+
+import prisma from "../../db.server";
+import { unauthenticated } from "../../shopify.server";
+import {
+  type OrderConfirmationSettings,
+  getOrderConfirmationSettings
+} from "../automation/automation.constants";
+import { getAutomation } from "../automation/automation.service";
+import { type TemplateData, processTemplate } from "../automation/template.service";
+import { queueMessage } from "../queue/message-queue.service";
+import { type ConfirmationAnswer, parseConfirmationReply } from "./cod.constants";
+
+// Confirmations handed to the queue per poll
+const DISPATCH_BATCH_SIZE = 50;
+
+// Replies older than this no longer answer a pending confirmation
+const CONFIRMATION_WINDOW_DAYS = 7;
+
+export type OrderConfirmationStatus = 'pending' | 'confirmed' | 'cancelled';
+
+export interface ConfirmationStats {
+  pending: number;
+  confirmed: number;
+  cancelled: number;
+}
+
+/**
+ * Append the reply options to an order confirmation message
+ */
+export function withConfirmationOptions(message: string, settings: OrderConfirmationSettings): string {
+  const options = settings.optionsText.trim();
+  return options ? `${message}\n\n${options}` : message;
+}
+
+/**
+ * Whether an order should be asked to confirm
+ */
+export function requiresConfirmation(settings: OrderConfirmationSettings, isCod: boolean): boolean {
+  return settings.requestConfirmation && (isCod || !settings.codOnly);
+}
+
+/**
+ * Record a pending confirmation for an order and schedule its reminder
+ * Webhook retries keep the original row
+ */
+export async function createOrderConfirmation(
+  shopId: string,
+  order: {
+    orderId: string;
+    orderNumber?: string;
+    phone: string;
+    isCod: boolean;
+    templateData: TemplateData;
+  },
+  settings: OrderConfirmationSettings
+) {
+  const reminderAt = settings.reminderMinutes > 0
+    ? new Date(Date.now() + settings.reminderMinutes * 60 * 1000)
+    : null;
+
+  return prisma.orderConfirmation.upsert({
+    where: { shopId_orderId: { shopId, orderId: order.orderId } },
+    create: {
+      shopId,
+      orderId: order.orderId,
+      orderNumber: order.orderNumber,
+      phone: order.phone,
+      isCod: order.isCod,
+      templateData: order.templateData as object,
+      reminderAt
+    },
+    update: {}
+  });
+}
+
+/**
+ * Apply a customer's reply to their most recent pending confirmation
+ * Returns true when the reply was consumed, so the auto replier stays quiet
+ */
+export async function handleConfirmationReply(
+  shopDomain: string,
+  shopId: string,
+  inbound: { senderPhone: string; message: string }
+): Promise<boolean> {
+  const answer = parseConfirmationReply(inbound.message);
+  if (!answer) {
+    return false;
+  }
+
+  const since = new Date(Date.now() - CONFIRMATION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const confirmation = await prisma.orderConfirmation.findFirst({
+    where: { shopId, phone: inbound.senderPhone, status: 'pending', createdAt: { gte: since } },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  if (!confirmation) {
+    return false;
+  }
+
+  const status: OrderConfirmationStatus = answer === 'confirm' ? 'confirmed' : 'cancelled';
+
+  // Claim the confirmation so a double reply can't apply twice
+  const claimed = await prisma.orderConfirmation.updateMany({
+    where: { id: confirmation.id, status: 'pending' },
+    data: { status, respondedAt: new Date(), responseText: inbound.message.slice(0, 200), reminderAt: null }
+  });
+
+  if (claimed.count === 0) {
+    return true;
+  }
+
+  const automation = await getAutomation(shopDomain, 'order_confirmation');
+  const settings = getOrderConfirmationSettings(automation?.settings);
+
+  try {
+    await applyAnswerToOrder(shopDomain, confirmation.orderId, answer, settings);
+  } catch (error) {
+    // The customer's answer is recorded either way - the merchant can act on it manually
+    console.error(`Failed to update order ${confirmation.orderNumber || confirmation.orderId} after ${status} reply:`, error);
+  }
+
+  const replyTemplate = answer === 'confirm' ? settings.confirmedReply : settings.cancelledReply;
+  if (replyTemplate.trim()) {
+    const queued = await queueMessage({
+      shopId: shopDomain,
+      phone: confirmation.phone,
+      message: processTemplate(replyTemplate, confirmation.templateData as TemplateData),
+      messageType: 'cod_confirmation',
+      orderId: confirmation.orderId,
+      orderNumber: confirmation.orderNumber || undefined,
+      priority: 1
+    });
+    if ('skipped' in queued) {
+      console.log(`Reply to ${status} order ${confirmation.orderNumber || confirmation.orderId} not sent (${queued.skipped})`);
+    }
+  }
+
+  console.log(`Order ${confirmation.orderNumber || confirmation.orderId} ${status} by customer reply`);
+  return true;
+}
+
+/**
+ * Tag the order, add a note and optionally cancel it through the Admin API
+ */
+async function applyAnswerToOrder(
+  shopDomain: string,
+  orderId: string,
+  answer: ConfirmationAnswer,
+  settings: OrderConfirmationSettings
+): Promise<void> {
+  const { admin } = await unauthenticated.admin(shopDomain);
+  const orderGid = `gid://shopify/Order/${orderId}`;
+  const tag = (answer === 'confirm' ? settings.confirmTag : settings.cancelTag).trim();
+  const noteLine = answer === 'confirm'
+    ? `Customer confirmed this order on WhatsApp (${new Date().toISOString()})`
+    : `Customer cancelled this order on WhatsApp (${new Date().toISOString()})`;
+
+  if (tag) {
+    const response = await admin.graphql(
+      `
+        mutation tagConfirmedOrder($id: ID!, $tags: [String!]!) {
+          tagsAdd(id: $id, tags: $tags) {
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      { variables: { id: orderGid, tags: [tag] } }
+    );
+    const result = await response.json();
+    throwOnUserErrors(result.data?.tagsAdd?.userErrors);
+  }
+
+  // Append to the existing note instead of replacing the merchant's text
+  const noteResponse = await admin.graphql(
+    `
+      query orderNote($id: ID!) {
+        order(id: $id) {
+          note
+        }
+      }
+    `,
+    { variables: { id: orderGid } }
+  );
+  const noteResult = await noteResponse.json();
+  const existingNote: string = noteResult.data?.order?.note || '';
+
+  const updateResponse = await admin.graphql(
+    `
+      mutation noteConfirmedOrder($input: OrderInput!) {
+        orderUpdate(input: $input) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    { variables: { input: { id: orderGid, note: existingNote ? `${existingNote}\n${noteLine}` : noteLine } } }
+  );
+  const updateResult = await updateResponse.json();
+  throwOnUserErrors(updateResult.data?.orderUpdate?.userErrors);
+
+  if (answer === 'cancel' && settings.cancelOrder) {
+    const cancelResponse = await admin.graphql(
+      `
+        mutation cancelUnconfirmedOrder($orderId: ID!) {
+          orderCancel(orderId: $orderId, reason: CUSTOMER, refund: false, restock: true, notifyCustomer: false, staffNote: "Cancelled by customer on WhatsApp") {
+            orderCancelUserErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      { variables: { orderId: orderGid } }
+    );
+    const cancelResult = await cancelResponse.json();
+    throwOnUserErrors(cancelResult.data?.orderCancel?.orderCancelUserErrors);
+  }
+}
+
+function throwOnUserErrors(userErrors: Array<{ message: string }> | undefined): void {
+  if (userErrors && userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+}
+
+/**
+ * Queue reminders for confirmations that are still unanswered
+ * Returns the number of reminders queued
+ */
+export async function dispatchDueConfirmationReminders(now: Date = new Date()): Promise<number> {
+  const due = await prisma.orderConfirmation.findMany({
+    where: { status: 'pending', reminderAt: { lte: now } },
+    include: { shop: { select: { shopifyDomain: true } } },
+    orderBy: { reminderAt: 'asc' },
+    take: DISPATCH_BATCH_SIZE
+  });
+
+  let queued = 0;
+
+  for (const confirmation of due) {
+    // Claim the reminder so overlapping polls can't send it twice
+    const claimed = await prisma.orderConfirmation.updateMany({
+      where: { id: confirmation.id, status: 'pending', reminderAt: confirmation.reminderAt },
+      data: { reminderAt: null, reminderSentAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const shopDomain = confirmation.shop.shopifyDomain;
+    const automation = await getAutomation(shopDomain, 'order_confirmation');
+    const settings = getOrderConfirmationSettings(automation?.settings);
+
+    if (!automation?.enabled || !settings.requestConfirmation || !settings.reminderTemplate.trim()) {
+      continue;
+    }
+
+    try {
+      const result = await queueMessage({
+        shopId: shopDomain,
+        phone: confirmation.phone,
+        message: processTemplate(settings.reminderTemplate, confirmation.templateData as TemplateData),
+        messageType: 'cod_reminder',
+        orderId: confirmation.orderId,
+        orderNumber: confirmation.orderNumber || undefined,
+        priority: 2
+      });
+
+      // Not sent - the confirmation keeps waiting for a reply without a reminder on record
+      if ('skipped' in result) {
+        await prisma.orderConfirmation.update({
+          where: { id: confirmation.id },
+          data: { reminderSentAt: null }
+        });
+        console.log(`Confirmation reminder for order ${confirmation.orderNumber || confirmation.orderId} not sent (${result.skipped})`);
+        continue;
+      }
+
+      queued++;
+    } catch (error) {
+      console.error(`Failed to queue confirmation reminder for order ${confirmation.orderNumber || confirmation.orderId}:`, error);
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Confirmation outcomes for the automation editor
+ */
+export async function getConfirmationStats(shopId: string): Promise<ConfirmationStats> {
+  const groups = await prisma.orderConfirmation.groupBy({
+    by: ['status'],
+    where: { shopId },
+    _count: { _all: true }
+  });
+
+  const stats: ConfirmationStats = { pending: 0, confirmed: 0, cancelled: 0 };
+  for (const group of groups as Array<{ status: string; _count: { _all: number } }>) {
+    if (group.status in stats) {
+      stats[group.status as OrderConfirmationStatus] = group._count._all;
+    }
+  }
+  return stats;
+}
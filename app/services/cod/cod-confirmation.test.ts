@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseConfirmationReply } from './cod.constants';
+
+test('digits and yes / no words answer the confirmation', () => {
+  assert.equal(parseConfirmationReply('1'), 'confirm');
+  assert.equal(parseConfirmationReply('2'), 'cancel');
+  assert.equal(parseConfirmationReply('Yes'), 'confirm');
+  assert.equal(parseConfirmationReply('NO'), 'cancel');
+  assert.equal(parseConfirmationReply('haan'), 'confirm');
+  assert.equal(parseConfirmationReply('nahi'), 'cancel');
+});
+
+test('formatting, punctuation and keycap emoji are ignored', () => {
+  assert.equal(parseConfirmationReply(' *1* '), 'confirm');
+  assert.equal(parseConfirmationReply('ok!'), 'confirm');
+  assert.equal(parseConfirmationReply('1️⃣'), 'confirm');
+  assert.equal(parseConfirmationReply('2⃣'), 'cancel');
+  assert.equal(parseConfirmationReply('_cancel._'), 'cancel');
+});
+
+test('anything longer is left for the inbox', () => {
+  assert.equal(parseConfirmationReply('yes but change the address'), null);
+  assert.equal(parseConfirmationReply('12'), null);
+  assert.equal(parseConfirmationReply(''), null);
+});
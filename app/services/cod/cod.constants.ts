@@ -0,0 +1,27 @@
+// Customer answers to COD confirmation requests - no server imports
+
+const CONFIRM_REPLIES = ['1', 'yes', 'y', 'confirm', 'confirmed', 'ok', 'okay', 'haan', 'ha', 'si', 'sí', 'oui', 'ja'];
+const CANCEL_REPLIES = ['2', 'no', 'n', 'cancel', 'cancelled', 'canceled', 'nahi', 'nahin', 'non', 'nein'];
+
+export type ConfirmationAnswer = 'confirm' | 'cancel';
+
+/**
+ * Read "1" / "2" (or a yes / no word) from a customer's reply
+ * Anything longer than a short answer is left for the inbox
+ */
+export function parseConfirmationReply(text: string): ConfirmationAnswer | null {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[*_~.!]+/g, '')
+    .replace(/\uFE0F?\u20E3/g, '') // Keycap emoji like 1️⃣
+    .replace(/\s+/g, ' ');
+
+  if (CONFIRM_REPLIES.includes(normalized)) {
+    return 'confirm';
+  }
+  if (CANCEL_REPLIES.includes(normalized)) {
+    return 'cancel';
+  }
+  return null;
+}
@@ -0,0 +1,246 @@
+/**
+ * Inbox Service
+ * Groups outbound MessageHistory and InboundMessage rows into
+ * per-phone conversations for the shared inbox
+ */
+
+import prisma from "../../db.server";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { formatPhoneForWhatsApp } from "../automation/template.service";
+import { queueMessage } from "../queue/message-queue.service";
+
+export type ConversationStatus = 'open' | 'resolved';
+
+export interface ThreadMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  text: string;
+  messageType: string | null;
+  status: string | null;
+  at: string;
+}
+
+export interface CustomerOrderSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  financialStatus: string | null;
+  fulfillmentStatus: string | null;
+  total: string;
+}
+
+/**
+ * Create or bump the conversation for a phone number
+ * Inbound messages reopen resolved conversations
+ */
+export async function touchConversation(
+  shopId: string,
+  phone: string,
+  details: { customerName?: string | null; preview: string; inbound: boolean }
+): Promise<void> {
+  const now = new Date();
+
+  await prisma.conversation.upsert({
+    where: { shopId_phone: { shopId, phone } },
+    create: {
+      shopId,
+      phone,
+      customerName: details.customerName || null,
+      lastMessagePreview: details.preview,
+      lastMessageAt: now,
+      unreadCount: details.inbound ? 1 : 0
+    },
+    update: {
+      lastMessagePreview: details.preview,
+      lastMessageAt: now,
+      ...(details.customerName ? { customerName: details.customerName } : {}),
+      ...(details.inbound
+        ? { status: 'open', resolvedAt: null, unreadCount: { increment: 1 } }
+        : {})
+    }
+  });
+}
+
+/**
+ * List conversations for a shop, most recent first
+ */
+export async function listConversations(shopId: string, status: ConversationStatus, take: number = 50) {
+  return prisma.conversation.findMany({
+    where: { shopId, status },
+    orderBy: { lastMessageAt: 'desc' },
+    take
+  });
+}
+
+/**
+ * Get a conversation and mark it as read
+ */
+export async function openConversation(shopId: string, phone: string) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { shopId_phone: { shopId, phone } }
+  });
+
+  if (conversation && conversation.unreadCount > 0) {
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { unreadCount: 0 }
+    });
+  }
+
+  return conversation;
+}
+
+/**
+ * Merge sent and received messages for one phone number into a single timeline
+ */
+export async function getConversationThread(shopId: string, phone: string, take: number = 100): Promise<ThreadMessage[]> {
+  const [outbound, inbound] = await Promise.all([
+    prisma.messageHistory.findMany({
+      where: { shopId, recipientPhone: phone },
+      orderBy: { sentAt: 'desc' },
+      take
+    }),
+    prisma.inboundMessage.findMany({
+      where: { shopId, senderPhone: phone },
+      orderBy: { receivedAt: 'desc' },
+      take
+    })
+  ]);
+
+  const thread: ThreadMessage[] = [
+    ...outbound.map(m => ({
+      id: m.id,
+      direction: 'outbound' as const,
+      text: m.message,
+      messageType: m.messageType,
+      status: m.status,
+      at: m.sentAt.toISOString()
+    })),
+    ...inbound.map(m => ({
+      id: m.id,
+      direction: 'inbound' as const,
+      text: m.message,
+      messageType: null,
+      status: null,
+      at: m.receivedAt.toISOString()
+    }))
+  ];
+
+  return thread
+    .sort((a, b) => a.at.localeCompare(b.at))
+    .slice(-take);
+}
+
+/**
+ * Queue an agent reply for the sender worker, which owns the shop's socket
+ * and logs the message. Returns an error instead when it can't be sent.
+ */
+export async function sendInboxReply(
+  shopDomain: string,
+  shopId: string,
+  phone: string,
+  text: string
+): Promise<{ success: boolean; error?: string }> {
+  const recipient = formatPhoneForWhatsApp(phone);
+
+  const queued = await queueMessage({
+    shopId: shopDomain,
+    phone: recipient,
+    message: text,
+    messageType: 'inbox_reply',
+    priority: 1
+  });
+
+  if ('skipped' in queued) {
+    return {
+      success: false,
+      error: queued.skipped === 'quota'
+        ? "Message limit reached. Consider upgrading your plan."
+        : "This number opted out of WhatsApp messages."
+    };
+  }
+
+  await touchConversation(shopId, recipient, { preview: text, inbound: false });
+  return { success: true };
+}
+
+/**
+ * Mark a conversation as resolved or reopen it
+ */
+export async function setConversationStatus(shopId: string, phone: string, status: ConversationStatus): Promise<void> {
+  await prisma.conversation.updateMany({
+    where: { shopId, phone },
+    data: {
+      status,
+      resolvedAt: status === 'resolved' ? new Date() : null,
+      ...(status === 'resolved' ? { unreadCount: 0 } : {})
+    }
+  });
+}
+
+/**
+ * Fetch the customer's most recent Shopify orders by phone number
+ */
+export async function getRecentOrdersForPhone(
+  graphql: AdminApiContext["graphql"],
+  phone: string
+): Promise<{ customerName: string | null; orders: CustomerOrderSummary[] }> {
+  try {
+    const response = await graphql(
+      `
+        query customerOrdersByPhone($query: String!) {
+          customers(first: 1, query: $query) {
+            nodes {
+              displayName
+              orders(first: 5, sortKey: CREATED_AT, reverse: true) {
+                nodes {
+                  id
+                  name
+                  createdAt
+                  displayFinancialStatus
+                  displayFulfillmentStatus
+                  totalPriceSet {
+                    shopMoney {
+                      amount
+                      currencyCode
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+      { variables: { query: `phone:+${phone.replace(/\D/g, '')}` } }
+    );
+
+    const result = await response.json();
+    const customer = result.data?.customers?.nodes?.[0];
+
+    if (!customer) {
+      return { customerName: null, orders: [] };
+    }
+
+    return {
+      customerName: customer.displayName || null,
+      orders: (customer.orders?.nodes || []).map((order: {
+        id: string;
+        name: string;
+        createdAt: string;
+        displayFinancialStatus: string | null;
+        displayFulfillmentStatus: string | null;
+        totalPriceSet: { shopMoney: { amount: string; currencyCode: string } };
+      }) => ({
+        id: order.id,
+        name: order.name,
+        createdAt: order.createdAt,
+        financialStatus: order.displayFinancialStatus,
+        fulfillmentStatus: order.displayFulfillmentStatus,
+        total: `${order.totalPriceSet.shopMoney.amount} ${order.totalPriceSet.shopMoney.currencyCode}`
+      }))
+    };
+  } catch (error) {
+    console.error('Failed to fetch customer orders for inbox:', error);
+    return { customerName: null, orders: [] };
+  }
+}
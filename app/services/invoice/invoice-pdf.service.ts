@@ -0,0 +1,250 @@
+/**
+ * Invoice PDF
+ * Lays out an order's invoice on PDF pages. Kept apart from the invoice
+ * service so it can be drawn (and tested) without the database.
+ */
+
+import type { InvoiceLayout } from "../automation/automation.constants";
+import { type PdfColor, type PdfImage, PAGE_HEIGHT, PAGE_WIDTH, PdfPage, renderPdf, wrapText } from "./pdf.service";
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13];
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.45];
+const WHITE: PdfColor = [1, 1, 1];
+
+// Right edges of the numeric columns
+const QTY_RIGHT = MARGIN + CONTENT_WIDTH * 0.64;
+const PRICE_RIGHT = MARGIN + CONTENT_WIDTH * 0.82;
+const TOTAL_RIGHT = MARGIN + CONTENT_WIDTH;
+const ITEM_WIDTH = CONTENT_WIDTH * 0.52;
+
+interface InvoiceAddress {
+  name?: string;
+  company?: string | null;
+  address1?: string;
+  address2?: string | null;
+  city?: string;
+  province?: string | null;
+  zip?: string | null;
+  country?: string;
+  phone?: string | null;
+}
+
+// The parts of an orders/create payload that go on the invoice
+export interface InvoiceOrder {
+  id?: string | number;
+  name?: string;
+  order_number?: string | number;
+  created_at?: string;
+  currency?: string;
+  email?: string;
+  subtotal_price?: string;
+  total_price?: string;
+  total_tax?: string;
+  total_discounts?: string;
+  taxes_included?: boolean;
+  payment_gateway_names?: string[];
+  billing_address?: InvoiceAddress | null;
+  shipping_address?: InvoiceAddress | null;
+  line_items?: Array<{
+    name?: string;
+    title?: string;
+    quantity?: number;
+    price?: string;
+    variant_title?: string | null;
+    sku?: string | null;
+  }>;
+  tax_lines?: Array<{ title?: string; rate?: number; price?: string }>;
+  shipping_lines?: Array<{ title?: string; price?: string }>;
+}
+
+export interface ShopBranding {
+  name: string;
+  logo: PdfImage | null;
+}
+
+function hexToColor(hex: string): PdfColor {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) {
+    return [0.15, 0.83, 0.4];
+  }
+  return [1, 2, 3].map(index => parseInt(match[index], 16) / 255) as PdfColor;
+}
+
+// "INR 1,234.00" - currency symbols aren't in the PDF's built-in fonts
+function formatAmount(amount: string | number | undefined, currency: string): string {
+  const value = typeof amount === "number" ? amount : parseFloat(amount || "0");
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency, currencyDisplay: "code" }).format(value || 0);
+  } catch {
+    return `${currency} ${(value || 0).toFixed(2)}`;
+  }
+}
+
+function addressLines(address?: InvoiceAddress | null): string[] {
+  if (!address) {
+    return [];
+  }
+  return [
+    address.name,
+    address.company,
+    address.address1,
+    address.address2,
+    [address.city, address.province, address.zip].filter(Boolean).join(" "),
+    address.country,
+    address.phone
+  ].filter((line): line is string => !!line);
+}
+
+/**
+ * Draw the invoice for an order
+ */
+export function buildInvoicePdf(order: InvoiceOrder, layout: InvoiceLayout, branding: ShopBranding): Buffer {
+  const accent = hexToColor(layout.accentColor);
+  const currency = order.currency || "USD";
+  const orderNumber = order.name || `#${order.order_number}`;
+  const pages: PdfPage[] = [];
+  let page = new PdfPage();
+  pages.push(page);
+
+  // Header: logo or shop name, seller details, and the title on the right
+  page.rect(0, 0, PAGE_WIDTH, 6, accent);
+  let top = MARGIN;
+  if (layout.showLogo && branding.logo) {
+    const scale = Math.min(160 / branding.logo.width, 56 / branding.logo.height, 1);
+    page.image(branding.logo, MARGIN, top, branding.logo.width * scale, branding.logo.height * scale);
+    top += branding.logo.height * scale + 10;
+  } else {
+    page.text(branding.name, MARGIN, top, { size: 18, bold: true, color: TEXT_COLOR });
+    top += 28;
+  }
+  for (const line of wrapText(layout.sellerDetails, 9, CONTENT_WIDTH / 2)) {
+    page.text(line, MARGIN, top, { size: 9, color: MUTED_COLOR });
+    top += 12;
+  }
+
+  let rightTop = MARGIN;
+  page.text(layout.title || "Invoice", TOTAL_RIGHT, rightTop, { size: 22, bold: true, color: accent, align: "right" });
+  rightTop += 32;
+  const createdAt = order.created_at ? new Date(order.created_at) : new Date();
+  const details = [
+    `Order ${orderNumber}`,
+    `Date: ${createdAt.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}`,
+    ...(order.payment_gateway_names?.length ? [`Payment: ${order.payment_gateway_names.join(", ")}`] : [])
+  ];
+  for (const line of details) {
+    page.text(line, TOTAL_RIGHT, rightTop, { size: 10, color: TEXT_COLOR, align: "right" });
+    rightTop += 14;
+  }
+
+  top = Math.max(top, rightTop) + 16;
+  page.line(MARGIN, top, TOTAL_RIGHT, top);
+  top += 16;
+
+  // Addresses
+  const billTo = addressLines(order.billing_address || order.shipping_address);
+  const shipTo = addressLines(order.shipping_address);
+  const columns: Array<[string, string[]]> = [["Bill to", order.email ? [...billTo, order.email] : billTo], ["Ship to", shipTo]];
+  let addressBottom = top;
+  columns.forEach(([heading, lines], index) => {
+    if (lines.length === 0) {
+      return;
+    }
+    const x = MARGIN + index * (CONTENT_WIDTH / 2);
+    let lineTop = top;
+    page.text(heading, x, lineTop, { size: 9, bold: true, color: MUTED_COLOR });
+    lineTop += 14;
+    for (const line of lines.flatMap(line => wrapText(line, 10, CONTENT_WIDTH / 2 - 12))) {
+      page.text(line, x, lineTop, { size: 10, color: TEXT_COLOR });
+      lineTop += 13;
+    }
+    addressBottom = Math.max(addressBottom, lineTop);
+  });
+  top = addressBottom + 20;
+
+  // Line items, continuing on new pages as needed
+  const drawTableHeader = () => {
+    page.rect(MARGIN, top, CONTENT_WIDTH, 22, accent);
+    page.text("Item", MARGIN + 8, top + 6, { size: 10, bold: true, color: WHITE });
+    page.text("Qty", QTY_RIGHT, top + 6, { size: 10, bold: true, color: WHITE, align: "right" });
+    page.text("Price", PRICE_RIGHT, top + 6, { size: 10, bold: true, color: WHITE, align: "right" });
+    page.text("Total", TOTAL_RIGHT - 8, top + 6, { size: 10, bold: true, color: WHITE, align: "right" });
+    top += 30;
+  };
+  drawTableHeader();
+
+  for (const item of order.line_items || []) {
+    const quantity = item.quantity || 1;
+    const nameLines = wrapText(item.name || item.title || "Item", 10, ITEM_WIDTH);
+    const detail = [item.name ? null : item.variant_title, item.sku ? `SKU: ${item.sku}` : null].filter(Boolean).join(" · ");
+    const rowHeight = nameLines.length * 13 + (detail ? 12 : 0) + 8;
+
+    if (top + rowHeight > PAGE_HEIGHT - MARGIN - 40) {
+      page = new PdfPage();
+      pages.push(page);
+      top = MARGIN;
+      drawTableHeader();
+    }
+
+    page.text(String(quantity), QTY_RIGHT, top, { size: 10, color: TEXT_COLOR, align: "right" });
+    page.text(formatAmount(item.price, currency), PRICE_RIGHT, top, { size: 10, color: TEXT_COLOR, align: "right" });
+    page.text(formatAmount(parseFloat(item.price || "0") * quantity, currency), TOTAL_RIGHT - 8, top, { size: 10, color: TEXT_COLOR, align: "right" });
+    nameLines.forEach((line, index) => {
+      page.text(line, MARGIN + 8, top + index * 13, { size: 10, color: TEXT_COLOR });
+    });
+    if (detail) {
+      page.text(detail, MARGIN + 8, top + nameLines.length * 13, { size: 8, color: MUTED_COLOR });
+    }
+    top += rowHeight;
+    page.line(MARGIN, top - 4, TOTAL_RIGHT, top - 4, [0.9, 0.9, 0.9]);
+  }
+
+  // Totals
+  const totals: Array<[string, string]> = [["Subtotal", formatAmount(order.subtotal_price, currency)]];
+  const discounts = parseFloat(order.total_discounts || "0");
+  if (discounts > 0) {
+    totals.push(["Discounts", `-${formatAmount(discounts, currency)}`]);
+  }
+  for (const shipping of order.shipping_lines || []) {
+    totals.push([shipping.title ? `Shipping (${shipping.title})` : "Shipping", formatAmount(shipping.price, currency)]);
+  }
+  const taxPrefix = order.taxes_included ? "Includes " : "";
+  if (layout.showTaxBreakdown && order.tax_lines?.length) {
+    for (const tax of order.tax_lines) {
+      const rate = tax.rate ? ` ${Math.round(tax.rate * 10000) / 100}%` : "";
+      totals.push([`${taxPrefix}${tax.title || "Tax"}${rate}`, formatAmount(tax.price, currency)]);
+    }
+  } else if (parseFloat(order.total_tax || "0") > 0) {
+    totals.push([`${taxPrefix}Tax`, formatAmount(order.total_tax, currency)]);
+  }
+
+  if (top + totals.length * 16 + 40 > PAGE_HEIGHT - MARGIN - 40) {
+    page = new PdfPage();
+    pages.push(page);
+    top = MARGIN;
+  }
+  top += 8;
+  const labelRight = PRICE_RIGHT;
+  for (const [label, amount] of totals) {
+    page.text(label, labelRight, top, { size: 10, color: MUTED_COLOR, align: "right" });
+    page.text(amount, TOTAL_RIGHT - 8, top, { size: 10, color: TEXT_COLOR, align: "right" });
+    top += 16;
+  }
+  page.line(labelRight - 100, top, TOTAL_RIGHT, top, accent, 1);
+  top += 8;
+  page.text("Total", labelRight, top, { size: 12, bold: true, color: accent, align: "right" });
+  page.text(formatAmount(order.total_price, currency), TOTAL_RIGHT - 8, top, { size: 12, bold: true, color: accent, align: "right" });
+
+  // Footer on every page
+  pages.forEach((footerPage, index) => {
+    if (layout.footerNote) {
+      footerPage.text(layout.footerNote, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN - 24, { size: 9, color: MUTED_COLOR, align: "center" });
+    }
+    if (pages.length > 1) {
+      footerPage.text(`Page ${index + 1} of ${pages.length}`, TOTAL_RIGHT, PAGE_HEIGHT - MARGIN, { size: 8, color: MUTED_COLOR, align: "right" });
+    }
+  });
+
+  return renderPdf(pages, { title: `${layout.title || "Invoice"} ${orderNumber}` });
+}
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ORDER_CONFIRMATION_SETTINGS } from '../automation/automation.constants';
+import { type InvoiceOrder, buildInvoicePdf } from './invoice-pdf.service';
+
+const branding = { name: 'Test Shop', logo: null };
+const layout = DEFAULT_ORDER_CONFIRMATION_SETTINGS.invoice;
+
+function pageCount(pdf: Buffer): number {
+  return Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(pdf.toString('latin1'))?.[1]);
+}
+
+function order(items: number): InvoiceOrder {
+  return {
+    id: 1,
+    name: '#1001',
+    currency: 'INR',
+    subtotal_price: '100.00',
+    total_price: '100.00',
+    line_items: Array.from({ length: items }, (_, index) => ({
+      name: `Product ${index + 1}`,
+      quantity: 1,
+      price: '1.00',
+      sku: `SKU-${index + 1}`
+    }))
+  };
+}
+
+test('a short order fits on one page', () => {
+  const pdf = buildInvoicePdf(order(3), layout, branding);
+
+  assert.ok(pdf.toString('latin1').startsWith('%PDF-1.4'));
+  assert.equal(pageCount(pdf), 1);
+});
+
+test('a long order continues on more pages', () => {
+  assert.ok(pageCount(buildInvoicePdf(order(80), layout, branding)) > 1);
+});
+
+test('the title carries the order number', () => {
+  const pdf = buildInvoicePdf(order(1), { ...layout, title: 'Tax Invoice' }, branding);
+
+  assert.match(pdf.toString('latin1'), /\/Title \(Tax Invoice #1001\)/);
+});
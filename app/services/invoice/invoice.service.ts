@@ -0,0 +1,154 @@
+/**
+ * Invoice Service
+ * PDF invoices for order confirmations, drawn from the orders/create payload
+ * and kept in the media store until the order is redacted.
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import prisma from "../../db.server";
+import type { InvoiceLayout } from "../automation/automation.constants";
+import { getMediaStore } from "../media/media-store.service";
+import { type PdfImage, readJpeg } from "./pdf.service";
+import { type InvoiceOrder, type ShopBranding, buildInvoicePdf } from "./invoice-pdf.service";
+
+export interface InvoiceAttachment {
+  mediaType: "document";
+  mimeType: string;
+  fileName: string;
+  data: Buffer;
+}
+
+/**
+ * Shop name and logo for the invoice header
+ * Shopify converts the logo to JPEG, the one image format the PDF embeds as is.
+ */
+export async function fetchShopBranding(graphql: AdminApiContext["graphql"] | undefined, fallbackName: string): Promise<ShopBranding> {
+  if (!graphql) {
+    return { name: fallbackName, logo: null };
+  }
+
+  try {
+    const response = await graphql(`
+      query shopBranding {
+        shop {
+          name
+          brand {
+            logo {
+              image {
+                url(transform: { preferredContentType: JPG, maxWidth: 400 })
+              }
+            }
+          }
+        }
+      }
+    `);
+    const result = await response.json();
+    const shop = result.data?.shop;
+    const logoUrl: string | undefined = shop?.brand?.logo?.image?.url;
+
+    let logo: PdfImage | null = null;
+    if (logoUrl) {
+      const logoResponse = await fetch(logoUrl);
+      if (logoResponse.ok) {
+        logo = readJpeg(Buffer.from(await logoResponse.arrayBuffer()));
+      }
+    }
+
+    return { name: shop?.name || fallbackName, logo };
+  } catch (error) {
+    console.error("Failed to load shop branding:", error);
+    return { name: fallbackName, logo: null };
+  }
+}
+
+/**
+ * Generate and store the invoice for an order
+ * A retried webhook replaces the earlier file instead of adding another.
+ */
+export async function createOrderInvoice(
+  shopId: string,
+  order: InvoiceOrder,
+  phone: string,
+  layout: InvoiceLayout,
+  branding: ShopBranding
+): Promise<{ id: string }> {
+  const orderId = String(order.id);
+  const orderNumber = order.name || `#${order.order_number}`;
+  const pdf = buildInvoicePdf(order, layout, branding);
+  const fileName = `${(layout.title || "Invoice").replace(/[^\w-]+/g, "_")}-${orderNumber.replace(/[^\w-]+/g, "")}.pdf`;
+  const storageKey = `invoices/${shopId}/${orderId}.pdf`;
+
+  await getMediaStore().put(storageKey, pdf, "application/pdf");
+
+  return prisma.orderInvoice.upsert({
+    where: { shopId_orderId: { shopId, orderId } },
+    create: { shopId, orderId, orderNumber, phone, storageKey, fileName, sizeBytes: pdf.length },
+    update: { orderNumber, phone, fileName, sizeBytes: pdf.length, createdAt: new Date() },
+    select: { id: true }
+  });
+}
+
+/**
+ * An invoice ready to send, or null when it was redacted
+ */
+export async function loadInvoiceAttachment(invoiceId: string): Promise<InvoiceAttachment | null> {
+  const invoice = await prisma.orderInvoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice) {
+    return null;
+  }
+
+  return {
+    mediaType: "document",
+    mimeType: "application/pdf",
+    fileName: invoice.fileName,
+    data: await getMediaStore().get(invoice.storageKey)
+  };
+}
+
+/**
+ * Delete invoices matching a filter, files first
+ */
+async function deleteInvoices(where: { shopId: string; id?: string; orderId?: { in: string[] }; phone?: { contains: string } }): Promise<number> {
+  const invoices = await prisma.orderInvoice.findMany({ where, select: { id: true, storageKey: true } });
+
+  const store = getMediaStore();
+  for (const invoice of invoices) {
+    await store.delete(invoice.storageKey);
+  }
+  await prisma.orderInvoice.deleteMany({ where: { id: { in: invoices.map((invoice: { id: string }) => invoice.id) } } });
+  return invoices.length;
+}
+
+/**
+ * Remove one invoice, e.g. when the message it was made for wasn't sent
+ */
+export async function deleteOrderInvoice(shopId: string, invoiceId: string): Promise<void> {
+  await deleteInvoices({ shopId, id: invoiceId });
+}
+
+/**
+ * Remove a customer's invoices - by their orders, their phone number, or both
+ */
+export async function deleteCustomerInvoices(shopId: string, orderIds: string[], phonePattern?: string): Promise<number> {
+  let deleted = 0;
+  if (orderIds.length > 0) {
+    deleted += await deleteInvoices({ shopId, orderId: { in: orderIds } });
+  }
+  if (phonePattern) {
+    deleted += await deleteInvoices({ shopId, phone: { contains: phonePattern } });
+  }
+  return deleted;
+}
+
+/**
+ * Remove every stored invoice of a shop - rows go with the shop itself
+ */
+export async function deleteShopInvoices(shopId: string): Promise<number> {
+  const invoices = await prisma.orderInvoice.findMany({ where: { shopId }, select: { storageKey: true } });
+
+  const store = getMediaStore();
+  for (const invoice of invoices) {
+    await store.delete(invoice.storageKey);
+  }
+  return invoices.length;
+}
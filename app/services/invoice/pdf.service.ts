@@ -0,0 +1,239 @@
+/**
+ * PDF Service
+ * A small PDF writer for generated documents such as invoices: text in the
+ * built-in Helvetica fonts, lines, filled boxes and JPEG images.
+ * The built-in fonts only cover Latin text (WinAnsi) - anything else prints
+ * as "?", so amounts use currency codes rather than symbols.
+ */
+
+import { deflateSync } from "node:zlib";
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: "left" | "right" | "center";
+}
+
+export interface PdfImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  colorSpace: "DeviceGray" | "DeviceRGB" | "DeviceCMYK";
+}
+
+// Glyph widths (1/1000 em) of the printable ASCII range 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// WinAnsi codes of the characters outside Latin-1 that it can still print
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99
+};
+
+function toWinAnsi(text: string): number[] {
+  return Array.from(text).map(char => {
+    const code = char.codePointAt(0) || 63;
+    if (WIN_ANSI_EXTRAS[char]) {
+      return WIN_ANSI_EXTRAS[char];
+    }
+    return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63;
+  });
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = toWinAnsi(text).reduce((sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556), 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth
+ */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  return text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return [...lines, line];
+  });
+}
+
+function pdfString(text: string): string {
+  return "(" + toWinAnsi(text).map(code => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      return "\\" + String.fromCharCode(code);
+    }
+    return code < 128 ? String.fromCharCode(code) : "\\" + code.toString(8).padStart(3, "0");
+  }).join("") + ")";
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = (color: PdfColor) => color.map(num).join(" ");
+
+/**
+ * Width, height and color space of a baseline or progressive JPEG
+ */
+export function readJpeg(data: Buffer): PdfImage | null {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = data[offset + 9];
+      return {
+        data,
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        colorSpace: components === 1 ? "DeviceGray" : components === 4 ? "DeviceCMYK" : "DeviceRGB"
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * One page's drawing operations, in PDF coordinates measured from the top
+ */
+export class PdfPage {
+  readonly operations: string[] = [];
+  readonly images: PdfImage[] = [];
+
+  text(value: string, x: number, top: number, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = !!options.bold;
+    const width = measureText(value, size, bold);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+
+    this.operations.push(
+      `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(options.color ?? [0, 0, 0])} rg ` +
+      `${num(left)} ${num(PAGE_HEIGHT - top - size)} Td ${pdfString(value)} Tj ET`
+    );
+  }
+
+  line(x1: number, top1: number, x2: number, top2: number, color: PdfColor = [0.8, 0.8, 0.8], width = 0.75): void {
+    this.operations.push(
+      `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - top1)} m ${num(x2)} ${num(PAGE_HEIGHT - top2)} l S`
+    );
+  }
+
+  rect(x: number, top: number, width: number, height: number, color: PdfColor): void {
+    this.operations.push(`${rgb(color)} rg ${num(x)} ${num(PAGE_HEIGHT - top - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  image(image: PdfImage, x: number, top: number, width: number, height: number): void {
+    this.images.push(image);
+    this.operations.push(
+      `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - top - height)} cm /Im${this.images.length} Do Q`
+    );
+  }
+}
+
+/**
+ * Assemble pages into a PDF file
+ */
+export function renderPdf(pages: PdfPage[], info: { title?: string } = {}): Buffer {
+  const objects: Array<string | Buffer> = [];
+  const add = (body: string | Buffer) => {
+    objects.push(body);
+    return objects.length;
+  };
+  const stream = (dictionary: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, "latin1"), data, Buffer.from("\nendstream", "latin1")]);
+
+  const catalogId = add("");
+  const pagesId = add("");
+  const regularFont = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const boldFont = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const infoId = add(`<< /Producer (WhatSend)${info.title ? ` /Title ${pdfString(info.title)}` : ""} >>`);
+
+  const pageIds = pages.map(page => {
+    const imageRefs = page.images.map((image, index) => {
+      const id = add(stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode`,
+        image.data
+      ));
+      return `/Im${index + 1} ${id} 0 R`;
+    });
+    const contentId = add(stream("/Filter /FlateDecode", deflateSync(Buffer.from(page.operations.join("\n"), "latin1"))));
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${contentId} 0 R ` +
+      `/Resources << /Font << /F1 ${regularFont} 0 R /F2 ${boldFont} 0 R >> /XObject << ${imageRefs.join(" ")} >> >> >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1")
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(offset => `${offset.toString().padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF"
+  ].join("\n");
+  chunks.push(Buffer.from(xref + "\n", "latin1"));
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PdfPage, measureText, readJpeg, renderPdf } from './pdf.service';
+
+function objectOffsets(pdf: Buffer): { offsets: number[]; startxref: number; size: number } {
+  const text = pdf.toString('latin1');
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+  const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+  const size = Number(/trailer\n<< \/Size (\d+)/.exec(text)?.[1]);
+  return { offsets, startxref, size };
+}
+
+test('xref offsets point at their objects', () => {
+  const page = new PdfPage();
+  page.text('Hello', 40, 40);
+  const pdf = renderPdf([page, new PdfPage()], { title: 'Test' });
+  const text = pdf.toString('latin1');
+  const { offsets, startxref, size } = objectOffsets(pdf);
+
+  assert.ok(text.startsWith('%PDF-1.4\n'));
+  assert.equal(text.slice(startxref, startxref + 5), 'xref\n');
+  assert.equal(size, offsets.length + 1);
+  offsets.forEach((offset, index) => {
+    assert.equal(text.slice(offset, offset + `${index + 1} 0 obj`.length), `${index + 1} 0 obj`);
+  });
+  assert.match(text, /\/Type \/Pages \/Kids \[[^\]]+\] \/Count 2/);
+});
+
+test('offsets stay right after binary image data', () => {
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x02, 0x00, 0x03, 0x03, 0xe2, 0xe3, 0xcf, 0xd3, 0x00, 0x80]);
+  const image = readJpeg(jpeg);
+  assert.ok(image);
+
+  const page = new PdfPage();
+  page.image(image, 40, 40, 30, 20);
+  const pdf = renderPdf([page]);
+  const text = pdf.toString('latin1');
+  const { offsets } = objectOffsets(pdf);
+
+  offsets.forEach((offset, index) => {
+    assert.equal(text.slice(offset, offset + `${index + 1} 0 obj`.length), `${index + 1} 0 obj`);
+  });
+});
+
+test('text outside WinAnsi prints as "?"', () => {
+  const page = new PdfPage();
+  page.text('Привет 日本 é €', 40, 40);
+
+  assert.match(page.operations[0], /\(\?\?\?\?\?\? \?\? \\351 \\200\) Tj/);
+  assert.equal(measureText('Привет', 10), measureText('??????', 10));
+});
+
+test('parentheses and backslashes are escaped', () => {
+  const page = new PdfPage();
+  page.text('a (b) \\ c', 40, 40);
+
+  assert.match(page.operations[0], /\(a \\\(b\\\) \\\\ c\) Tj/);
+});
+
+test('readJpeg reads the frame size and color space', () => {
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x20, 0x00, 0x40, 0x01, 0x00, 0x00]);
+
+  assert.deepEqual(
+    { ...readJpeg(jpeg), data: undefined },
+    { data: undefined, width: 64, height: 32, colorSpace: 'DeviceGray' }
+  );
+});
+
+test('readJpeg rejects anything that is not a JPEG', () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0, 0, 0]);
+
+  assert.equal(readJpeg(png), null);
+  assert.equal(readJpeg(Buffer.alloc(0)), null);
+  assert.equal(readJpeg(Buffer.from([0xff, 0xd8, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00])), null);
+});
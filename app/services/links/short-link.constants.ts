@@ -0,0 +1,48 @@
+// Link rewriting rules for short links - no server imports
+
+export const LINK_REGEX = /https?:\/\/[^\s<>"'*]+/g;
+
+// Link preview fetchers and crawlers aren't customers clicking
+const BOT_USER_AGENT = /bot|crawler|spider|facebookexternalhit|whatsapp|preview|slurp|curl|wget/i;
+
+// Links that open WhatsApp itself are left alone
+const UNTRACKED_LINK_HOSTS = ['wa.me', 'api.whatsapp.com', 'chat.whatsapp.com'];
+
+/**
+ * Whether a click came from a link preview or crawler rather than a customer
+ */
+export function isBotUserAgent(userAgent: string | null): boolean {
+  return !!userAgent && BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * Replace every trackable link with `${baseUrl}/l/<code>`
+ * createCode is called once per distinct link.
+ */
+export async function rewriteLinks(
+  message: string,
+  baseUrl: string,
+  createCode: (url: string) => Promise<string>
+): Promise<string> {
+  const shortened = new Map<string, string>();
+
+  for (const match of new Set(message.match(LINK_REGEX) || [])) {
+    // Trailing punctuation belongs to the sentence, not the link
+    const trailing = match.match(/[.,;:!?)\]]+$/)?.[0] || '';
+    const url = trailing ? match.slice(0, -trailing.length) : match;
+
+    let host: string;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      continue;
+    }
+    if (UNTRACKED_LINK_HOSTS.includes(host) || url.startsWith(`${baseUrl}/l/`)) {
+      continue;
+    }
+
+    shortened.set(match, `${baseUrl}/l/${await createCode(url)}${trailing}`);
+  }
+
+  return message.replace(LINK_REGEX, match => shortened.get(match) || match);
+}
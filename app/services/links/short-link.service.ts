@@ -0,0 +1,177 @@
+/**
+ * Short Link Service
+ * Rewrites links in outgoing messages to short /l/<code> redirects and
+ * records clicks per message, campaign and automation
+ */
+
+import { randomBytes } from "crypto";
+import prisma from "../../db.server";
+import { LINK_REGEX, isBotUserAgent, rewriteLinks } from "./short-link.constants";
+
+const CODE_LENGTH = 7;
+const CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface ClickStats {
+  clicks: number;          // Human clicks on any link
+  clickedMessages: number; // Messages with at least one clicked link
+}
+
+/**
+ * Public base URL for short links, or null when the app URL isn't configured
+ */
+function getShortLinkBaseUrl(): string | null {
+  const base = process.env.SHORT_LINK_BASE_URL || process.env.SHOPIFY_APP_URL;
+  if (!base) {
+    return null;
+  }
+  const withProtocol = base.startsWith('http://') || base.startsWith('https://') ? base : `https://${base}`;
+  return withProtocol.replace(/\/+$/, '');
+}
+
+function generateCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Replace every link in a message with a tracked short link
+ * Returns the message unchanged when short links aren't configured
+ */
+export async function shortenMessageLinks(
+  shopDomain: string,
+  message: string,
+  details: { messageType: string; campaignId?: string; phone: string; jobId: string }
+): Promise<string> {
+  const baseUrl = getShortLinkBaseUrl();
+  const links = message.match(LINK_REGEX);
+  if (!baseUrl || !links) {
+    return message;
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true }
+  });
+  if (!shop) {
+    return message;
+  }
+
+  return rewriteLinks(message, baseUrl, async url => (await createTrackedLink(shop.id, url, details)).code);
+}
+
+/**
+ * Store a link under a fresh code, retrying on the rare code collision
+ */
+async function createTrackedLink(
+  shopId: string,
+  url: string,
+  details: { messageType: string; campaignId?: string; phone: string; jobId: string }
+) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await prisma.trackedLink.create({
+        data: {
+          shopId,
+          code: generateCode(),
+          url,
+          messageType: details.messageType,
+          campaignId: details.campaignId,
+          recipientPhone: details.phone,
+          jobId: details.jobId
+        }
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'P2002' || attempt >= 2) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Connect a message's links to its history row once the sender has logged it
+ */
+export async function linkMessageHistory(jobId: string, messageHistoryId: string): Promise<void> {
+  await prisma.trackedLink.updateMany({
+    where: { jobId },
+    data: { messageHistoryId }
+  });
+}
+
+/**
+ * Record a click and return the destination URL, or null for unknown codes
+ */
+export async function resolveShortLink(code: string, userAgent: string | null): Promise<string | null> {
+  const link = await prisma.trackedLink.findUnique({
+    where: { code },
+    select: { id: true, url: true }
+  });
+
+  if (!link) {
+    return null;
+  }
+
+  if (!isBotUserAgent(userAgent)) {
+    const now = new Date();
+    try {
+      await prisma.$transaction([
+        prisma.linkClick.create({
+          data: { linkId: link.id, clickedAt: now, userAgent: userAgent?.slice(0, 255) }
+        }),
+        prisma.trackedLink.update({
+          where: { id: link.id },
+          data: { clickCount: { increment: 1 }, lastClickedAt: now }
+        }),
+        prisma.trackedLink.updateMany({
+          where: { id: link.id, firstClickedAt: null },
+          data: { firstClickedAt: now }
+        })
+      ]);
+    } catch (error) {
+      // Never strand the customer because a click couldn't be counted
+      console.error(`Failed to record click for short link ${code}:`, error);
+    }
+  }
+
+  return link.url;
+}
+
+/**
+ * Clicks per automation type and per campaign for links sent in a date range
+ * A message with several links counts once towards clicked messages
+ */
+export async function getClickStats(
+  shopId: string,
+  start: Date,
+  end: Date
+): Promise<{ byType: Record<string, ClickStats>; byCampaign: Record<string, ClickStats> }> {
+  const clicked = await prisma.trackedLink.findMany({
+    where: { shopId, clickCount: { gt: 0 }, createdAt: { gte: start, lte: end } },
+    select: { messageType: true, campaignId: true, jobId: true, clickCount: true }
+  });
+
+  const byType: Record<string, ClickStats> = {};
+  const byCampaign: Record<string, ClickStats> = {};
+  const seenMessages = new Set<string>();
+
+  for (const link of clicked as Array<{ messageType: string; campaignId: string | null; jobId: string | null; clickCount: number }>) {
+    const firstForMessage = !link.jobId || !seenMessages.has(link.jobId);
+    if (link.jobId) {
+      seenMessages.add(link.jobId);
+    }
+
+    const targets = [byType[link.messageType] ??= { clicks: 0, clickedMessages: 0 }];
+    if (link.campaignId) {
+      targets.push(byCampaign[link.campaignId] ??= { clicks: 0, clickedMessages: 0 });
+    }
+
+    for (const stats of targets) {
+      stats.clicks += link.clickCount;
+      if (firstForMessage) {
+        stats.clickedMessages++;
+      }
+    }
+  }
+
+  return { byType, byCampaign };
+}
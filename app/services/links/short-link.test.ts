@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isBotUserAgent, rewriteLinks } from './short-link.constants';
+
+const BASE_URL = 'https://app.example.com';
+
+function codes() {
+  const urls: string[] = [];
+  return { urls, createCode: async (url: string) => { urls.push(url); return `c${urls.length}`; } };
+}
+
+test('each distinct link gets one short code', async () => {
+  const { urls, createCode } = codes();
+  const message = 'Shop https://shop.example.com/a and again https://shop.example.com/a or https://shop.example.com/b';
+
+  assert.equal(
+    await rewriteLinks(message, BASE_URL, createCode),
+    'Shop https://app.example.com/l/c1 and again https://app.example.com/l/c1 or https://app.example.com/l/c2'
+  );
+  assert.deepEqual(urls, ['https://shop.example.com/a', 'https://shop.example.com/b']);
+});
+
+test('trailing punctuation stays outside the link', async () => {
+  const { urls, createCode } = codes();
+
+  assert.equal(
+    await rewriteLinks('See (https://shop.example.com/cart?x=1).', BASE_URL, createCode),
+    'See (https://app.example.com/l/c1).'
+  );
+  assert.deepEqual(urls, ['https://shop.example.com/cart?x=1']);
+});
+
+test('WhatsApp and existing short links are left alone', async () => {
+  const { urls, createCode } = codes();
+  const message = 'Chat https://wa.me/911234567890 or https://app.example.com/l/abc1234';
+
+  assert.equal(await rewriteLinks(message, BASE_URL, createCode), message);
+  assert.deepEqual(urls, []);
+});
+
+test('bold markers around a link are not part of it', async () => {
+  const { createCode } = codes();
+
+  assert.equal(await rewriteLinks('*https://shop.example.com*', BASE_URL, createCode), '*https://app.example.com/l/c1*');
+});
+
+test('link previews are not counted as clicks', () => {
+  assert.equal(isBotUserAgent('WhatsApp/2.23.20.0 A'), true);
+  assert.equal(isBotUserAgent('facebookexternalhit/1.1'), true);
+  assert.equal(isBotUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)'), false);
+  assert.equal(isBotUserAgent(null), false);
+});
@@ -0,0 +1,159 @@
+/**
+ * Media Store
+ * Where uploaded attachments live: a local directory, or any S3-compatible
+ * bucket (AWS S3, Cloudflare R2, MinIO...) when MEDIA_STORAGE=s3
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, readFile, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface MediaStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  // Set when files can be read in place, so senders skip the download
+  localPath?(key: string): string;
+}
+
+/**
+ * Files under a directory on this machine
+ * Only works when the web app and the workers share a disk.
+ */
+function createLocalStore(rootDir: string): MediaStore {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+    async get(key) {
+      return readFile(resolve(key));
+    },
+    async delete(key) {
+      try {
+        await unlink(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+    },
+    localPath: resolve
+  };
+}
+
+interface S3Config {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or https://<account>.r2.cloudflarestorage.com
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Objects in an S3-compatible bucket, addressed path-style and signed with SigV4
+ */
+function createS3Store(config: S3Config): MediaStore {
+  const request = async (method: "PUT" | "GET" | "DELETE", key: string, body?: Buffer, contentType?: string) => {
+    const url = new URL(`${config.endpoint.replace(/\/$/, "")}/${config.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || "");
+
+    // fetch sets Host itself, but it still has to be signed
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...(contentType ? { "content-type": contentType } : {})
+    };
+    const signed: Record<string, string> = { ...headers, host: url.host };
+    const signedHeaders = Object.keys(signed).sort().join(";");
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      Object.keys(signed).sort().map(name => `${name}:${signed[name]}\n`).join(""),
+      signedHeaders,
+      payloadHash
+    ].join("\n");
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    });
+
+    if (!response.ok && !(method === "DELETE" && response.status === 404)) {
+      throw new Error(`Media store ${method} ${key} failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    async put(key, body, contentType) {
+      await request("PUT", key, body, contentType);
+    },
+    async get(key) {
+      const response = await request("GET", key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete(key) {
+      await request("DELETE", key);
+    }
+  };
+}
+
+let store: MediaStore | null = null;
+
+/**
+ * The configured media store - local unless MEDIA_STORAGE=s3
+ */
+export function getMediaStore(): MediaStore {
+  if (store) {
+    return store;
+  }
+
+  if (process.env.MEDIA_STORAGE === "s3") {
+    const { MEDIA_S3_ENDPOINT, MEDIA_S3_REGION, MEDIA_S3_BUCKET, MEDIA_S3_ACCESS_KEY_ID, MEDIA_S3_SECRET_ACCESS_KEY } = process.env;
+    if (!MEDIA_S3_BUCKET || !MEDIA_S3_ACCESS_KEY_ID || !MEDIA_S3_SECRET_ACCESS_KEY) {
+      throw new Error("MEDIA_STORAGE=s3 needs MEDIA_S3_BUCKET, MEDIA_S3_ACCESS_KEY_ID and MEDIA_S3_SECRET_ACCESS_KEY");
+    }
+    const region = MEDIA_S3_REGION || "us-east-1";
+    store = createS3Store({
+      endpoint: MEDIA_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: MEDIA_S3_BUCKET,
+      accessKeyId: MEDIA_S3_ACCESS_KEY_ID,
+      secretAccessKey: MEDIA_S3_SECRET_ACCESS_KEY
+    });
+  } else {
+    store = createLocalStore(process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), "storage", "media"));
+  }
+
+  return store;
+}
@@ -0,0 +1,60 @@
+// Media attachment definitions - shared between client and server
+export type MediaType = 'image' | 'video' | 'audio' | 'document';
+
+// Formats WhatsApp plays or previews inline, with its size limits
+export const MEDIA_TYPES: Record<MediaType, { label: string; mimeTypes: string[]; maxBytes: number }> = {
+  image: {
+    label: 'Image',
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    maxBytes: 5 * 1024 * 1024
+  },
+  video: {
+    label: 'Video',
+    mimeTypes: ['video/mp4', 'video/3gpp'],
+    maxBytes: 16 * 1024 * 1024
+  },
+  audio: {
+    label: 'Audio',
+    mimeTypes: ['audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/amr'],
+    maxBytes: 16 * 1024 * 1024
+  },
+  document: {
+    label: 'Document',
+    mimeTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'text/plain',
+      'text/csv'
+    ],
+    maxBytes: 100 * 1024 * 1024
+  }
+};
+
+export const ACCEPTED_MIME_TYPES = Object.values(MEDIA_TYPES).flatMap(type => type.mimeTypes);
+
+export function mediaTypeForMime(mimeType: string): MediaType | null {
+  const entry = (Object.keys(MEDIA_TYPES) as MediaType[]).find(type => MEDIA_TYPES[type].mimeTypes.includes(mimeType));
+  return entry || null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// An attachment as listed in pickers and the media library
+export interface MediaAssetSummary {
+  id: string;
+  fileName: string;
+  mediaType: MediaType;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: string;
+}
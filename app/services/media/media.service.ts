@@ -0,0 +1,272 @@
+/**
+ * Media Service
+ * Uploaded attachments for campaigns and automations: validating and storing
+ * uploads, and handing senders a local copy of each file. Files in a remote
+ * store are downloaded once per worker and reused for every recipient.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, rename, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import prisma from "../../db.server";
+import { getMediaStore } from "./media-store.service";
+import { type MediaAssetSummary, type MediaType, MEDIA_TYPES, formatFileSize, mediaTypeForMime } from "./media.constants";
+
+const CACHE_DIR = process.env.MEDIA_CACHE_DIR || path.join(process.cwd(), "storage", "media-cache");
+const CACHE_MAX_BYTES = parseInt(process.env.MEDIA_CACHE_MAX_MB || "500", 10) * 1024 * 1024;
+
+// Cached files by content hash with their size, least recently used first
+const cachedFiles: Map<string, number> = new Map();
+let cachedBytes = 0;
+
+// In-flight downloads, so concurrent jobs for one file share a single fetch
+const pendingDownloads: Map<string, Promise<string>> = new Map();
+
+// Campaigns that still send their attachment
+const ACTIVE_CAMPAIGN_STATUSES = ["draft", "building", "scheduled", "processing", "paused"];
+
+export interface MediaAttachment {
+  mediaType: MediaType;
+  mimeType: string;
+  fileName: string;
+  filePath: string;
+}
+
+function toSummary(asset: {
+  id: string;
+  fileName: string;
+  mediaType: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: Date;
+}): MediaAssetSummary {
+  return {
+    id: asset.id,
+    fileName: asset.fileName,
+    mediaType: asset.mediaType as MediaType,
+    mimeType: asset.mimeType,
+    sizeBytes: asset.sizeBytes,
+    createdAt: asset.createdAt.toISOString()
+  };
+}
+
+/**
+ * A shop's uploaded files, newest first
+ */
+export async function listMedia(shopId: string): Promise<MediaAssetSummary[]> {
+  const assets = await prisma.mediaAsset.findMany({
+    where: { shopId },
+    orderBy: { createdAt: "desc" }
+  });
+  return assets.map(toSummary);
+}
+
+/**
+ * One of the shop's files, or null if it was deleted
+ */
+export async function getMediaAsset(shopId: string, mediaId: string): Promise<MediaAssetSummary | null> {
+  const asset = await prisma.mediaAsset.findFirst({ where: { id: mediaId, shopId } });
+  return asset ? toSummary(asset) : null;
+}
+
+/**
+ * Whether a media ID belongs to the shop - checked before attaching it
+ */
+export async function isShopMedia(shopId: string, mediaId: string): Promise<boolean> {
+  const count = await prisma.mediaAsset.count({ where: { id: mediaId, shopId } });
+  return count > 0;
+}
+
+/**
+ * Validate and store an uploaded file
+ * Uploading the same file again returns the existing asset.
+ */
+export async function uploadMedia(
+  shopId: string,
+  file: File
+): Promise<{ success: boolean; asset?: MediaAssetSummary; error?: string }> {
+  const mediaType = mediaTypeForMime(file.type);
+  if (!mediaType) {
+    return { success: false, error: `${file.name} isn't a supported file type` };
+  }
+  const { label, maxBytes } = MEDIA_TYPES[mediaType];
+  if (file.size === 0) {
+    return { success: false, error: `${file.name} is empty` };
+  }
+  if (file.size > maxBytes) {
+    return { success: false, error: `${label} files can be at most ${formatFileSize(maxBytes)}` };
+  }
+
+  const body = Buffer.from(await file.arrayBuffer());
+  const sha256 = createHash("sha256").update(body).digest("hex");
+
+  const existing = await prisma.mediaAsset.findUnique({ where: { shopId_sha256: { shopId, sha256 } } });
+  if (existing) {
+    return { success: true, asset: toSummary(existing) };
+  }
+
+  const fileName = path.basename(file.name).replace(/[^\w.-]+/g, "_").slice(-100) || "file";
+  const storageKey = `${shopId}/${sha256.slice(0, 16)}-${fileName}`;
+  await getMediaStore().put(storageKey, body, file.type);
+
+  try {
+    const asset = await prisma.mediaAsset.create({
+      data: {
+        shopId,
+        storageKey,
+        fileName: file.name,
+        mimeType: file.type,
+        mediaType,
+        sizeBytes: body.length,
+        sha256
+      }
+    });
+    return { success: true, asset: toSummary(asset) };
+  } catch (error) {
+    // Same file uploaded twice at once - the other request stored it
+    if ((error as { code?: string }).code === "P2002") {
+      const asset = await prisma.mediaAsset.findUnique({ where: { shopId_sha256: { shopId, sha256 } } });
+      if (asset) {
+        return { success: true, asset: toSummary(asset) };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a file that no campaign or automation still sends
+ */
+export async function deleteMedia(shopId: string, mediaId: string): Promise<{ success: boolean; error?: string }> {
+  const asset = await prisma.mediaAsset.findFirst({
+    where: { id: mediaId, shopId },
+    include: {
+      campaigns: { where: { status: { in: ACTIVE_CAMPAIGN_STATUSES } }, select: { name: true }, take: 1 },
+      automations: { select: { type: true }, take: 1 }
+    }
+  });
+  if (!asset) {
+    return { success: false, error: "File not found" };
+  }
+  if (asset.campaigns.length > 0) {
+    return { success: false, error: `Used by the campaign "${asset.campaigns[0].name}"` };
+  }
+  if (asset.automations.length > 0) {
+    return { success: false, error: `Used by the ${asset.automations[0].type.replace(/_/g, " ")} automation` };
+  }
+
+  // Checked again in the delete itself, in case a campaign or automation picked it up meanwhile
+  const deleted = await prisma.mediaAsset.deleteMany({
+    where: {
+      id: asset.id,
+      campaigns: { none: { status: { in: ACTIVE_CAMPAIGN_STATUSES } } },
+      automations: { none: {} }
+    }
+  });
+  if (deleted.count === 0) {
+    return { success: false, error: "The file was just put to use" };
+  }
+  await getMediaStore().delete(asset.storageKey);
+  return { success: true };
+}
+
+/**
+ * Remove every stored file of a shop - rows go with the shop itself
+ */
+export async function deleteShopMedia(shopId: string): Promise<number> {
+  const assets = await prisma.mediaAsset.findMany({
+    where: { shopId },
+    select: { storageKey: true }
+  });
+
+  const store = getMediaStore();
+  for (const asset of assets) {
+    await store.delete(asset.storageKey);
+  }
+  return assets.length;
+}
+
+/**
+ * Drop least recently used files until the cache fits its budget
+ * The file about to be sent stays, even when it alone is over budget.
+ */
+async function evictCachedFiles(keep: string): Promise<void> {
+  for (const [sha256, size] of cachedFiles) {
+    if (cachedBytes <= CACHE_MAX_BYTES) {
+      break;
+    }
+    if (sha256 === keep) {
+      continue;
+    }
+    cachedFiles.delete(sha256);
+    cachedBytes -= size;
+    await unlink(path.join(CACHE_DIR, sha256)).catch(() => undefined);
+  }
+}
+
+function rememberCachedFile(sha256: string, size: number): void {
+  if (!cachedFiles.has(sha256)) {
+    cachedBytes += size;
+  }
+  // Re-inserting moves it to the most recently used end
+  cachedFiles.delete(sha256);
+  cachedFiles.set(sha256, size);
+}
+
+/**
+ * Local copy of a stored file, downloaded on first use
+ */
+async function getCachedFile(asset: { storageKey: string; sha256: string; sizeBytes: number }): Promise<string> {
+  const filePath = path.join(CACHE_DIR, asset.sha256);
+
+  if (cachedFiles.has(asset.sha256)) {
+    rememberCachedFile(asset.sha256, asset.sizeBytes);
+    return filePath;
+  }
+
+  const pending = pendingDownloads.get(asset.sha256);
+  if (pending) {
+    return pending;
+  }
+
+  const download = (async () => {
+    // Left over from before a restart
+    const existing = await stat(filePath).catch(() => null);
+    if (existing?.size !== asset.sizeBytes) {
+      const body = await getMediaStore().get(asset.storageKey);
+      await mkdir(CACHE_DIR, { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, body);
+      await rename(tempPath, filePath);
+    }
+
+    rememberCachedFile(asset.sha256, asset.sizeBytes);
+    await evictCachedFiles(asset.sha256);
+    return filePath;
+  })();
+
+  pendingDownloads.set(asset.sha256, download);
+  try {
+    return await download;
+  } finally {
+    pendingDownloads.delete(asset.sha256);
+  }
+}
+
+/**
+ * An attachment ready to send, or null when it was deleted
+ */
+export async function loadMediaAttachment(mediaId: string): Promise<MediaAttachment | null> {
+  const asset = await prisma.mediaAsset.findUnique({ where: { id: mediaId } });
+  if (!asset) {
+    return null;
+  }
+
+  const store = getMediaStore();
+  return {
+    mediaType: asset.mediaType as MediaType,
+    mimeType: asset.mimeType,
+    fileName: asset.fileName,
+    filePath: store.localPath ? store.localPath(asset.storageKey) : await getCachedFile(asset)
+  };
+}
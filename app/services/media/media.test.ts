@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ACCEPTED_MIME_TYPES, MEDIA_TYPES, formatFileSize, mediaTypeForMime } from './media.constants';
+
+test('each accepted format maps to its WhatsApp media type', () => {
+  assert.equal(mediaTypeForMime('image/jpeg'), 'image');
+  assert.equal(mediaTypeForMime('video/mp4'), 'video');
+  assert.equal(mediaTypeForMime('audio/ogg'), 'audio');
+  assert.equal(mediaTypeForMime('application/pdf'), 'document');
+  assert.equal(mediaTypeForMime('text/csv'), 'document');
+});
+
+test('formats WhatsApp cannot send are rejected', () => {
+  assert.equal(mediaTypeForMime('image/gif'), null);
+  assert.equal(mediaTypeForMime('image/svg+xml'), null);
+  assert.equal(mediaTypeForMime('application/zip'), null);
+  assert.equal(mediaTypeForMime(''), null);
+});
+
+test('no format belongs to two media types', () => {
+  assert.equal(new Set(ACCEPTED_MIME_TYPES).size, ACCEPTED_MIME_TYPES.length);
+  assert.ok(MEDIA_TYPES.image.maxBytes < MEDIA_TYPES.document.maxBytes);
+});
+
+test('file sizes read in KB below a megabyte', () => {
+  assert.equal(formatFileSize(10), '1 KB');
+  assert.equal(formatFileSize(300 * 1024), '300 KB');
+  assert.equal(formatFileSize(5 * 1024 * 1024), '5.0 MB');
+});
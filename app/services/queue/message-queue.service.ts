@@ -1,5 +1,10 @@
 import { Queue } from 'bullmq';
 import IORedis from 'ioredis';
+import { tagMessageLinks, utmCampaignFor } from '../automation/template.service';
+import { shortenMessageLinks } from '../links/short-link.service';
+import { isPhoneSuppressed } from '../suppression/suppression.service';
+import { isSuppressionExempt } from '../suppression/suppression.constants';
+import { canSendMessages, recordQuotaSkip } from '../billing/billing.service';
 
 // Ensure we have a Redis connection
 const connection = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379', {
@@ -28,30 +33,99 @@ export interface QueueMessagePayload {
   message: string;
   messageType: string;       // order_confirmation, fulfillment, etc.
   imageUrl?: string;         // Product image URL (optional)
+  mediaId?: string;          // Uploaded attachment (MediaAsset) sent with the message
+  invoiceId?: string;        // Generated PDF invoice (OrderInvoice) - sent instead of mediaId
   orderId?: string;          // For tracking
   orderNumber?: string;      // For tracking
+  campaignId?: string;       // Set when sent on behalf of a campaign
+  variantId?: string;        // Campaign A/B test variant
+  queueItemId?: string;      // MessageQueue row to update after sending
   scheduledAt?: Date;        // For delayed messages (abandoned checkout)
   priority?: number;
+  jobKey?: string;           // Stable key (e.g. checkout token and step) - a newer message with the same key replaces the pending one
+}
+
+// What happened to a message handed to queueMessage
+export type QueueMessageResult =
+  | { jobId: string }
+  | { skipped: 'suppressed' | 'quota' };
+
+// States in which a job hasn't been picked up by the worker yet
+const REPLACEABLE_STATES = ['delayed', 'waiting', 'prioritized', 'waiting-children', 'failed', 'completed'];
+
+/**
+ * Job ID for messages that should exist at most once per key
+ * BullMQ custom IDs may not contain ":"
+ */
+function keyedJobId(shopId: string, messageType: string, jobKey: string): string {
+  return `${shopId}-${messageType}-${jobKey}`.replace(/:/g, '_');
 }
 
 /**
  * Adds a WhatsApp message to the processing queue
+ * Skips it when the number opted out or the shop is out of quota - the
+ * sender worker checks quota again when it sends
  */
-export async function queueMessage(payload: QueueMessagePayload) {
+export async function queueMessage(payload: QueueMessagePayload): Promise<QueueMessageResult> {
   const { 
     shopId, 
     phone, 
     message, 
     messageType,
     imageUrl,
+    mediaId,
+    invoiceId,
     orderId,
     orderNumber,
+    campaignId,
+    variantId,
+    queueItemId,
     scheduledAt,
-    priority = 10 
+    priority = 10,
+    jobKey
   } = payload;
   
+  if (!isSuppressionExempt(messageType) && await isPhoneSuppressed(shopId, phone)) {
+    console.log(`Skipping ${messageType} to ${phone} - number opted out`);
+    return { skipped: 'suppressed' };
+  }
+
+  const quota = await canSendMessages(shopId, 1);
+  if (!quota.allowed) {
+    console.log(`Skipping ${messageType} to ${phone} - ${quota.reason}`);
+    // Campaign rows stay pending and go out once the campaign resumes
+    if (!campaignId) {
+      await recordQuotaSkip(shopId, { phone, message, messageType, orderId, orderNumber });
+    }
+    return { skipped: 'quota' };
+  }
+
   // Use shopId as part of the job ID to potentially allow debouncing or tracking
-  const jobId = `${shopId}-${messageType}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const jobId = jobKey
+    ? keyedJobId(shopId, messageType, jobKey)
+    : `${shopId}-${messageType}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  // BullMQ ignores adds with an existing ID, so drop the pending job first
+  if (jobKey) {
+    const existing = await messageQueue.getJob(jobId);
+    if (existing) {
+      const state = await existing.getState();
+      if (!REPLACEABLE_STATES.includes(state)) {
+        console.log(`Job ${jobId} is already ${state}, not replacing it`);
+        return { jobId };
+      }
+      await existing.remove();
+    }
+  }
+
+  // UTM-tag store links so orders can be attributed, then swap them for tracked short links
+  const trackedMessage = messageType === 'test_message'
+    ? message
+    : await shortenMessageLinks(
+        shopId,
+        tagMessageLinks(message, utmCampaignFor(messageType, campaignId)),
+        { messageType, campaignId, phone, jobId }
+      );
 
   // Calculate delay if scheduledAt is provided
   const delay = scheduledAt ? Math.max(0, scheduledAt.getTime() - Date.now()) : undefined;
@@ -59,16 +133,40 @@ export async function queueMessage(payload: QueueMessagePayload) {
   await messageQueue.add('send-message', {
     shopId,
     phone,
-    message,
+    message: trackedMessage,
     messageType,
     imageUrl,
+    mediaId,
+    invoiceId,
     orderId,
-    orderNumber
+    orderNumber,
+    campaignId,
+    variantId,
+    queueItemId
   }, {
     priority,
     jobId,
     delay
   });
 
-  return jobId;
+  return { jobId };
+}
+
+/**
+ * Remove a pending keyed message (e.g. a checkout reminder once the order is placed)
+ * Returns true if a job was removed
+ */
+export async function cancelQueuedMessage(shopId: string, messageType: string, jobKey: string): Promise<boolean> {
+  const job = await messageQueue.getJob(keyedJobId(shopId, messageType, jobKey));
+  if (!job) {
+    return false;
+  }
+
+  const state = await job.getState();
+  if (state === 'active' || state === 'completed') {
+    return false;
+  }
+
+  await job.remove();
+  return true;
 }
@@ -0,0 +1,43 @@
+// Daily caps and pause lengths for send pacing - no Redis or database imports
+
+// Daily caps while a newly linked number warms up, by days since linking
+const DAILY_CAP_RAMP: Array<{ untilDay: number; cap: number }> = [
+  { untilDay: 3, cap: 50 },
+  { untilDay: 7, cap: 150 },
+  { untilDay: 14, cap: 400 },
+  { untilDay: 30, cap: 800 },
+];
+export const ESTABLISHED_DAILY_CAP = parseInt(process.env.WHATSAPP_DAILY_CAP || '1500', 10);
+
+export type PauseReason = 'rate_limited' | 'restricted';
+
+// First pause per reason - doubles with each repeat within a day
+const PAUSE_BASE_MS: Record<PauseReason, number> = {
+  rate_limited: 15 * 60 * 1000,
+  restricted: 2 * 60 * 60 * 1000,
+};
+const MAX_PAUSE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily cap for a number linked at the given time
+ * Numbers linked before ramp-up existed have no link date and get the full cap.
+ */
+export function dailyCapFor(linkedAt: Date | null, now: number = Date.now()): number {
+  if (!linkedAt) {
+    return ESTABLISHED_DAILY_CAP;
+  }
+  const days = (now - linkedAt.getTime()) / (24 * 60 * 60 * 1000);
+  const stage = DAILY_CAP_RAMP.find(step => days < step.untilDay);
+  return Math.min(stage?.cap ?? ESTABLISHED_DAILY_CAP, ESTABLISHED_DAILY_CAP);
+}
+
+/**
+ * Pause length for the 1st, 2nd, ... strike of a day, ending at the longest pause
+ */
+export function pauseSchedule(reason: PauseReason): number[] {
+  const schedule: number[] = [];
+  for (let pause = PAUSE_BASE_MS[reason]; schedule[schedule.length - 1] !== MAX_PAUSE_MS; pause *= 2) {
+    schedule.push(Math.min(pause, MAX_PAUSE_MS));
+  }
+  return schedule;
+}
@@ -0,0 +1,271 @@
+/**
+ * Send Pacing
+ * Per-shop throttling for the personal WhatsApp number each shop sends from:
+ * randomized gaps between messages, a rolling 24-hour cap that ramps up while
+ * a number is new, and a pause when WhatsApp signals rate limiting or a
+ * restriction. State lives in Redis so every process sending for a shop
+ * shares the same limits.
+ */
+
+import IORedis from 'ioredis';
+import prisma from '../../db.server';
+import {
+  ESTABLISHED_DAILY_CAP,
+  type PauseReason,
+  dailyCapFor,
+  pauseSchedule,
+} from './send-pacing.constants';
+
+const redis = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+// Gap between two messages of one shop, picked at random in this range
+const MIN_GAP_MS = 4000;
+const MAX_GAP_MS = 12000;
+
+// Now and then take a longer break, the way a person would
+const BREAK_CHANCE = 1 / 30;
+const MIN_BREAK_MS = 60 * 1000;
+const MAX_BREAK_MS = 3 * 60 * 1000;
+
+const CAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Campaign messages aren't handed to the sender further ahead than this
+const MAX_DISPATCH_AHEAD_MS = 5 * 60 * 1000;
+
+// Repeat pauses count as strikes for a day after the last one
+const STRIKE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+// Disconnect codes that mean WhatsApp is pushing back on the number
+const PAUSE_DISCONNECT_CODES: Record<number, PauseReason> = {
+  403: 'restricted',   // forbidden - account restricted or banned
+  429: 'rate_limited', // rate-overlimit
+};
+
+// Caps change only as a number ages, so each process looks them up rarely
+const CAP_CACHE_MS = 10 * 60 * 1000;
+const capCache: Map<string, { cap: number; expiresAt: number }> = new Map();
+
+// Keys share a hash tag so the scripts also work on Redis Cluster
+const keys = (shopDomain: string) => ({
+  next: `pacing:{${shopDomain}}:next`,
+  sent: `pacing:{${shopDomain}}:sent`,
+  pausedUntil: `pacing:{${shopDomain}}:paused-until`,
+  pauseReason: `pacing:{${shopDomain}}:pause-reason`,
+  strikes: `pacing:{${shopDomain}}:strikes`,
+});
+
+// Returns {0, now} to send now, {1, slot} for a later slot, {2, at} at the cap, {3, at} while paused
+const RESERVE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local pausedUntil = tonumber(redis.call('GET', KEYS[3]) or '0')
+if pausedUntil > now then
+  return {3, pausedUntil}
+end
+local reserved = tonumber(ARGV[6])
+if reserved > 0 and reserved <= now + 1000 then
+  return {0, now}
+end
+local window = tonumber(ARGV[4])
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now - window)
+local cap = tonumber(ARGV[3])
+if cap > 0 and redis.call('ZCARD', KEYS[2]) >= cap then
+  local oldest = redis.call('ZRANGE', KEYS[2], 0, 0, 'WITHSCORES')
+  return {2, tonumber(oldest[2]) + window}
+end
+local slot = math.max(now, tonumber(redis.call('GET', KEYS[1]) or '0'))
+local nextAt = slot + tonumber(ARGV[2])
+redis.call('SET', KEYS[1], nextAt, 'PX', nextAt - now + 60000)
+redis.call('ZADD', KEYS[2], slot, ARGV[5])
+redis.call('PEXPIRE', KEYS[2], window + slot - now)
+if slot > now then
+  return {1, slot}
+end
+return {0, now}
+`;
+
+// Returns {pausedUntil, strikes} - strikes is 0 when an earlier pause still runs
+// ARGV[4..] holds the pause for each strike, the last one repeating
+const PAUSE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+if current > now then
+  return {current, 0}
+end
+local strikes = redis.call('INCR', KEYS[3])
+redis.call('PEXPIRE', KEYS[3], ARGV[2])
+local pause = tonumber(ARGV[3 + math.min(strikes, #ARGV - 3)])
+redis.call('SET', KEYS[1], now + pause, 'PX', pause)
+redis.call('SET', KEYS[2], ARGV[3], 'PX', pause)
+return {now + pause, strikes}
+`;
+
+export interface SendSlot {
+  sendAt: number | null; // null = send now
+  reason?: 'paced' | 'daily_cap' | 'paused';
+}
+
+export interface SendingStatus {
+  dailyCap: number;
+  sentLast24h: number;
+  warmingUp: boolean;
+  pausedUntil: string | null;
+  pauseReason: PauseReason | null;
+}
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+
+function nextGapMs(): number {
+  const gap = randomBetween(MIN_GAP_MS, MAX_GAP_MS);
+  return Math.round(Math.random() < BREAK_CHANCE ? gap + randomBetween(MIN_BREAK_MS, MAX_BREAK_MS) : gap);
+}
+
+async function getDailyCap(shopDomain: string): Promise<number> {
+  const cached = capCache.get(shopDomain);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.cap;
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { whatsappLinkedAt: true },
+  });
+  const cap = dailyCapFor(shop?.whatsappLinkedAt ?? null);
+  capCache.set(shopDomain, { cap, expiresAt: Date.now() + CAP_CACHE_MS });
+  return cap;
+}
+
+/**
+ * Claim the shop's next send slot for a message
+ * Pass the slot the message already holds when it comes back from waiting
+ * for it. Only campaign messages wait out the daily cap - transactional
+ * messages still count toward it but are never held back.
+ */
+export async function reserveSendSlot(
+  shopDomain: string,
+  messageKey: string,
+  options: { reservedAt?: number; holdAtDailyCap: boolean }
+): Promise<SendSlot> {
+  const k = keys(shopDomain);
+  const cap = options.holdAtDailyCap ? await getDailyCap(shopDomain) : 0;
+  const [status, at] = await redis.eval(
+    RESERVE_SCRIPT,
+    3,
+    k.next,
+    k.sent,
+    k.pausedUntil,
+    Date.now(),
+    nextGapMs(),
+    cap,
+    CAP_WINDOW_MS,
+    messageKey,
+    options.reservedAt || 0
+  ) as [number, number];
+
+  switch (status) {
+    case 1:
+      return { sendAt: at, reason: 'paced' };
+    case 2:
+      return { sendAt: at, reason: 'daily_cap' };
+    case 3:
+      return { sendAt: at, reason: 'paused' };
+    default:
+      return { sendAt: null };
+  }
+}
+
+/**
+ * Whether to hand the shop more campaign messages now
+ * While it is paused, at its cap or already has a backlog, campaign rows stay
+ * pending in the database, where pausing and cancelling still reach them.
+ */
+export async function canDispatchCampaignMessages(shopDomain: string): Promise<boolean> {
+  const k = keys(shopDomain);
+  const now = Date.now();
+  const [pausedUntil, nextAt] = await redis.mget(k.pausedUntil, k.next);
+  if (Number(pausedUntil) > now || Number(nextAt) > now + MAX_DISPATCH_AHEAD_MS) {
+    return false;
+  }
+
+  await redis.zremrangebyscore(k.sent, '-inf', now - CAP_WINDOW_MS);
+  return (await redis.zcard(k.sent)) < await getDailyCap(shopDomain);
+}
+
+/**
+ * Stop all sending for a shop for a while
+ * Repeats within a day double the pause; reports during a pause are ignored.
+ */
+export async function pauseSending(shopDomain: string, reason: PauseReason): Promise<void> {
+  const k = keys(shopDomain);
+  const [pausedUntil, strikes] = await redis.eval(
+    PAUSE_SCRIPT,
+    3,
+    k.pausedUntil,
+    k.pauseReason,
+    k.strikes,
+    Date.now(),
+    STRIKE_MEMORY_MS,
+    reason,
+    ...pauseSchedule(reason)
+  ) as [number, number];
+
+  if (strikes === 0) {
+    return;
+  }
+
+  const details = `${reason === 'rate_limited' ? 'Rate limited' : 'Restricted'} by WhatsApp - sending paused until ${new Date(pausedUntil).toISOString()}`;
+  console.warn(`Shop ${shopDomain}: ${details}`);
+
+  const shop = await prisma.shop.findUnique({ where: { shopifyDomain: shopDomain }, select: { id: true } });
+  if (shop) {
+    await prisma.connectionLog.create({
+      data: { shopId: shop.id, event: 'sending_paused', details },
+    });
+  }
+}
+
+/**
+ * Whether a send failed because WhatsApp is rate limiting the number
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const boom = error as { message?: string; data?: unknown; output?: { statusCode?: number } } | null;
+  return boom?.output?.statusCode === 429 || boom?.data === 429 || /rate-overlimit/i.test(boom?.message || '');
+}
+
+/**
+ * Pause sending when a socket closes with a rate limit or restriction code
+ */
+export async function handleDisconnect(shopDomain: string, statusCode: number | undefined): Promise<void> {
+  const reason = statusCode ? PAUSE_DISCONNECT_CODES[statusCode] : undefined;
+  if (reason) {
+    await pauseSending(shopDomain, reason);
+  }
+}
+
+/**
+ * Current limits and usage, for the connection page
+ */
+export async function getSendingStatus(shopDomain: string): Promise<SendingStatus> {
+  const k = keys(shopDomain);
+  const now = Date.now();
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { whatsappLinkedAt: true },
+  });
+  const dailyCap = dailyCapFor(shop?.whatsappLinkedAt ?? null, now);
+
+  const [sentLast24h, [pausedUntil, pauseReason]] = await Promise.all([
+    redis.zcount(k.sent, now - CAP_WINDOW_MS, now),
+    redis.mget(k.pausedUntil, k.pauseReason),
+  ]);
+  const isPaused = Number(pausedUntil) > now;
+
+  return {
+    dailyCap,
+    sentLast24h,
+    warmingUp: dailyCap < ESTABLISHED_DAILY_CAP,
+    pausedUntil: isPaused ? new Date(Number(pausedUntil)).toISOString() : null,
+    pauseReason: isPaused ? (pauseReason as PauseReason) : null,
+  };
+}
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ESTABLISHED_DAILY_CAP, dailyCapFor, pauseSchedule } from './send-pacing.constants';
+
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+const linkedAt = new Date('2026-03-01T00:00:00Z');
+
+test('a new number ramps up its daily cap', () => {
+  assert.equal(dailyCapFor(linkedAt, linkedAt.getTime()), 50);
+  assert.equal(dailyCapFor(linkedAt, linkedAt.getTime() + 3 * DAY - 1), 50);
+  assert.equal(dailyCapFor(linkedAt, linkedAt.getTime() + 3 * DAY), 150);
+  assert.equal(dailyCapFor(linkedAt, linkedAt.getTime() + 10 * DAY), 400);
+  assert.equal(dailyCapFor(linkedAt, linkedAt.getTime() + 20 * DAY), 800);
+  assert.equal(dailyCapFor(linkedAt, linkedAt.getTime() + 30 * DAY), ESTABLISHED_DAILY_CAP);
+});
+
+test('numbers without a link date get the full cap', () => {
+  assert.equal(dailyCapFor(null), ESTABLISHED_DAILY_CAP);
+});
+
+test('repeat pauses double up to a day', () => {
+  assert.deepEqual(pauseSchedule('rate_limited').map(pause => pause / HOUR), [0.25, 0.5, 1, 2, 4, 8, 16, 24]);
+  assert.deepEqual(pauseSchedule('restricted').map(pause => pause / HOUR), [2, 4, 8, 16, 24]);
+});
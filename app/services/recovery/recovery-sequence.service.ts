@@ -0,0 +1,392 @@
+/**
+ * Recovery Sequence Service
+ * Runs multi-step abandoned checkout reminders: schedules each step,
+ * creates per-step discount codes, stops on conversion or reply and
+ * attributes recovered orders to the step that earned them
+ */
+
+import prisma from "../../db.server";
+import { unauthenticated } from "../../shopify.server";
+import {
+  type RecoveryDiscount,
+  MAX_RECOVERY_STEPS,
+  getAbandonedCheckoutSettings
+} from "../automation/automation.constants";
+import { getAutomation } from "../automation/automation.service";
+import { type TemplateData, processTemplate } from "../automation/template.service";
+import { queueMessage, cancelQueuedMessage } from "../queue/message-queue.service";
+
+// Sequences handed to the queue per poll
+const DISPATCH_BATCH_SIZE = 50;
+
+// Retry a step that failed to dispatch after this long
+const DISPATCH_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Queue key of one step - each step is its own job, so its short links and
+ * history row are never merged with another step's
+ */
+function stepJobKey(checkoutToken: string, step: number): string {
+  return `${checkoutToken}-step${step}`;
+}
+
+export type RecoverySequenceStatus = 'active' | 'recovered' | 'converted' | 'replied' | 'finished';
+
+export interface RecoveryStepStats {
+  step: number;
+  sent: number;
+  recovered: number;
+  revenue: number;
+}
+
+/**
+ * Start or refresh the sequence for an abandoned checkout
+ * Updates before the first step reset its timer, so only one reminder goes out per quiet period
+ */
+export async function startRecoverySequence(
+  shopId: string,
+  checkout: {
+    checkoutToken: string;
+    checkoutId?: string;
+    phone: string;
+    templateData: TemplateData;
+  },
+  firstStepDelayMinutes: number
+) {
+  const now = new Date();
+  const nextStepAt = new Date(now.getTime() + firstStepDelayMinutes * 60 * 1000);
+
+  const existing = await prisma.recoverySequence.findUnique({
+    where: { shopId_checkoutToken: { shopId, checkoutToken: checkout.checkoutToken } }
+  });
+
+  if (!existing) {
+    return prisma.recoverySequence.create({
+      data: {
+        shopId,
+        checkoutToken: checkout.checkoutToken,
+        checkoutId: checkout.checkoutId,
+        phone: checkout.phone,
+        templateData: checkout.templateData as object,
+        abandonedAt: now,
+        nextStepAt
+      }
+    });
+  }
+
+  // Stopped sequences never restart
+  if (existing.status !== 'active') {
+    return existing;
+  }
+
+  return prisma.recoverySequence.update({
+    where: { id: existing.id },
+    data: {
+      phone: checkout.phone,
+      templateData: checkout.templateData as object,
+      ...(existing.nextStep === 0 && existing.nextStepAt
+        ? { abandonedAt: now, nextStepAt }
+        : {})
+    }
+  });
+}
+
+/**
+ * Stop a checkout's sequence (e.g. the checkout completed)
+ */
+export async function stopRecoverySequence(
+  shopId: string,
+  checkoutToken: string,
+  status: RecoverySequenceStatus
+): Promise<void> {
+  await prisma.recoverySequence.updateMany({
+    where: { shopId, checkoutToken, status: 'active' },
+    data: { status, nextStepAt: null, stoppedAt: new Date() }
+  });
+}
+
+/**
+ * Remove a checkout's reminders that are still waiting in the queue
+ * Returns the number of reminders removed
+ */
+export async function cancelQueuedRecoverySteps(shopDomain: string, checkoutToken: string): Promise<number> {
+  const keys = Array.from({ length: MAX_RECOVERY_STEPS }, (_, step) => stepJobKey(checkoutToken, step));
+  // Reminders queued before steps had their own key
+  keys.push(checkoutToken);
+
+  let cancelled = 0;
+  for (const key of keys) {
+    if (await cancelQueuedMessage(shopDomain, 'abandoned_checkout', key)) {
+      cancelled++;
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Stop every active sequence for a customer who replied on WhatsApp
+ */
+export async function stopSequencesForReply(shopId: string, phone: string): Promise<number> {
+  const result = await prisma.recoverySequence.updateMany({
+    where: { shopId, phone, status: 'active' },
+    data: { status: 'replied', nextStepAt: null, stoppedAt: new Date() }
+  });
+  return result.count;
+}
+
+/**
+ * Credit an order placed from a sequenced checkout to the step that earned it:
+ * the step whose discount code was used, otherwise the last step sent
+ */
+export async function attributeRecoveredOrder(
+  shopId: string,
+  order: { checkoutToken: string; orderId: string; revenue: number; discountCodes: string[] }
+): Promise<void> {
+  const sequence = await prisma.recoverySequence.findUnique({
+    where: { shopId_checkoutToken: { shopId, checkoutToken: order.checkoutToken } },
+    include: { steps: { orderBy: { step: 'asc' } } }
+  });
+
+  if (!sequence || sequence.recoveredOrderId) {
+    return;
+  }
+
+  const stopped = sequence.status === 'active' ? { nextStepAt: null, stoppedAt: new Date() } : {};
+
+  // Bought before any reminder went out - not a recovery
+  if (sequence.steps.length === 0) {
+    await prisma.recoverySequence.update({
+      where: { id: sequence.id },
+      data: { status: 'converted', recoveredOrderId: order.orderId, ...stopped }
+    });
+    return;
+  }
+
+  const usedCodes = order.discountCodes.map(code => code.toUpperCase());
+  const byCode = sequence.steps.find(
+    (sent: { discountCode: string | null }) => sent.discountCode && usedCodes.includes(sent.discountCode.toUpperCase())
+  );
+  const creditedStep = byCode ? byCode.step : sequence.steps[sequence.steps.length - 1].step;
+
+  await prisma.recoverySequence.update({
+    where: { id: sequence.id },
+    data: {
+      status: 'recovered',
+      recoveredOrderId: order.orderId,
+      recoveredRevenue: order.revenue,
+      recoveredStep: creditedStep,
+      ...stopped
+    }
+  });
+
+  console.log(`Checkout ${order.checkoutToken} recovered by step ${creditedStep + 1} (${order.revenue})`);
+}
+
+/**
+ * Queue the next step for every sequence that is due
+ * Returns the number of steps queued
+ */
+export async function dispatchDueRecoverySteps(now: Date = new Date()): Promise<number> {
+  const due = await prisma.recoverySequence.findMany({
+    where: { status: 'active', nextStepAt: { lte: now } },
+    include: { shop: { select: { shopifyDomain: true } } },
+    orderBy: { nextStepAt: 'asc' },
+    take: DISPATCH_BATCH_SIZE
+  });
+
+  let queued = 0;
+
+  for (const sequence of due) {
+    // Claim the step so overlapping polls can't send it twice
+    const claimed = await prisma.recoverySequence.updateMany({
+      where: { id: sequence.id, status: 'active', nextStepAt: sequence.nextStepAt },
+      data: { nextStepAt: null }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    try {
+      if (await sendRecoveryStep(sequence.shop.shopifyDomain, sequence)) {
+        queued++;
+      }
+    } catch (error) {
+      console.error(`Failed to dispatch recovery step ${sequence.nextStep + 1} for checkout ${sequence.checkoutToken}:`, error);
+      await prisma.recoverySequence.updateMany({
+        where: { id: sequence.id, status: 'active', nextStepAt: null },
+        data: { nextStepAt: new Date(Date.now() + DISPATCH_RETRY_MS) }
+      });
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Render and queue one step, then schedule the next one
+ */
+async function sendRecoveryStep(
+  shopDomain: string,
+  sequence: {
+    id: string;
+    checkoutToken: string;
+    phone: string;
+    templateData: unknown;
+    nextStep: number;
+    abandonedAt: Date;
+  }
+): Promise<boolean> {
+  const automation = await getAutomation(shopDomain, 'abandoned_checkout');
+  const steps = automation ? getAbandonedCheckoutSettings(automation).steps : [];
+  const step = steps[sequence.nextStep];
+
+  if (!automation?.enabled || !step || !step.template) {
+    await prisma.recoverySequence.update({
+      where: { id: sequence.id },
+      data: { status: 'finished', stoppedAt: new Date() }
+    });
+    return false;
+  }
+
+  let discountCode: string | undefined;
+  if (step.discount) {
+    try {
+      discountCode = await createRecoveryDiscount(shopDomain, step.discount, sequence.nextStep);
+    } catch (error) {
+      // Still send the reminder - a missing code is better than no reminder
+      console.error(`Failed to create discount for recovery step ${sequence.nextStep + 1}:`, error);
+    }
+  }
+
+  const message = processTemplate(step.template, {
+    ...(sequence.templateData as TemplateData),
+    discountCode
+  });
+
+  const queued = await queueMessage({
+    shopId: shopDomain,
+    phone: sequence.phone,
+    message,
+    messageType: 'abandoned_checkout',
+    priority: 5, // Lower priority than order notifications
+    jobKey: stepJobKey(sequence.checkoutToken, sequence.nextStep)
+  });
+
+  // Opted out or out of quota - nothing was sent, so no step is recorded or credited
+  if ('skipped' in queued) {
+    await prisma.recoverySequence.updateMany({
+      where: { id: sequence.id, status: 'active' },
+      data: { status: 'finished', stoppedAt: new Date() }
+    });
+    console.log(`Recovery sequence for checkout ${sequence.checkoutToken} stopped - ${queued.skipped === 'quota' ? 'message limit reached' : 'number opted out'}`);
+    return false;
+  }
+
+  await prisma.recoveryStepSend.create({
+    data: { sequenceId: sequence.id, step: sequence.nextStep, discountCode }
+  });
+
+  const following = steps[sequence.nextStep + 1];
+  const followingAt = following
+    ? new Date(Math.max(Date.now(), sequence.abandonedAt.getTime() + following.delayMinutes * 60 * 1000))
+    : null;
+
+  // Only advance if nothing stopped the sequence while this step was being sent
+  await prisma.recoverySequence.updateMany({
+    where: { id: sequence.id, status: 'active' },
+    data: following
+      ? { nextStep: sequence.nextStep + 1, nextStepAt: followingAt }
+      : { nextStep: sequence.nextStep + 1, status: 'finished', stoppedAt: new Date() }
+  });
+
+  console.log(`Recovery step ${sequence.nextStep + 1} queued for checkout ${sequence.checkoutToken}`);
+  return true;
+}
+
+/**
+ * Create a single-use discount code for a recovery step through the Admin API
+ */
+async function createRecoveryDiscount(shopDomain: string, discount: RecoveryDiscount, stepIndex: number): Promise<string> {
+  const { admin } = await unauthenticated.admin(shopDomain);
+  const code = `COMEBACK-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+  const now = new Date();
+
+  const response = await admin.graphql(
+    `
+      mutation createRecoveryDiscount($basicCodeDiscount: DiscountCodeBasicInput!) {
+        discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+          codeDiscountNode {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        basicCodeDiscount: {
+          title: `WhatSend checkout recovery (step ${stepIndex + 1}) ${code}`,
+          code,
+          startsAt: now.toISOString(),
+          endsAt: new Date(now.getTime() + discount.expiresInHours * 60 * 60 * 1000).toISOString(),
+          context: { all: 'ALL' },
+          customerGets: {
+            value: discount.type === 'percentage'
+              ? { percentage: Math.min(100, discount.value) / 100 }
+              : { discountAmount: { amount: discount.value, appliesOnEachItem: false } },
+            items: { all: true }
+          },
+          appliesOncePerCustomer: true,
+          usageLimit: 1
+        }
+      }
+    }
+  );
+
+  const result = await response.json();
+  const userErrors = result.data?.discountCodeBasicCreate?.userErrors || [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  return code;
+}
+
+/**
+ * Sent and recovered counts per step for the automation editor
+ */
+export async function getRecoveryStepStats(shopId: string): Promise<RecoveryStepStats[]> {
+  const [sent, recovered] = await Promise.all([
+    prisma.recoveryStepSend.groupBy({
+      by: ['step'],
+      where: { sequence: { shopId } },
+      _count: { _all: true }
+    }),
+    prisma.recoverySequence.groupBy({
+      by: ['recoveredStep'],
+      where: { shopId, status: 'recovered' },
+      _count: { _all: true },
+      _sum: { recoveredRevenue: true }
+    })
+  ]);
+
+  const stats = new Map<number, RecoveryStepStats>();
+  for (const row of sent) {
+    stats.set(row.step, { step: row.step, sent: row._count._all, recovered: 0, revenue: 0 });
+  }
+  for (const row of recovered) {
+    if (row.recoveredStep === null) {
+      continue;
+    }
+    const entry = stats.get(row.recoveredStep) || { step: row.recoveredStep, sent: 0, recovered: 0, revenue: 0 };
+    entry.recovered = row._count._all;
+    entry.revenue = row._sum.recoveredRevenue || 0;
+    stats.set(row.recoveredStep, entry);
+  }
+
+  return [...stats.values()].sort((a, b) => a.step - b.step);
+}
@@ -0,0 +1,46 @@
+// Opt-out keywords and the message types they don't stop - no server imports
+
+// Replies that opt a number out, in the languages our merchants sell in
+const OPT_OUT_KEYWORDS = [
+  // English
+  'stop', 'stopall', 'stop all', 'unsubscribe', 'opt out', 'optout', 'opt-out', 'end', 'quit', 'remove me',
+  // Hindi / Hinglish
+  'band karo', 'band', 'बंद', 'बंद करो', 'रोकें',
+  // Spanish / Portuguese
+  'baja', 'alto', 'parar', 'cancelar suscripción', 'sair', 'descadastrar',
+  // French / German / Italian
+  'arrêt', 'arret', 'désabonner', 'desabonner', 'stopp', 'abmelden', 'disiscrivi',
+  // Indonesian / Malay
+  'berhenti',
+  // Arabic
+  'توقف', 'إلغاء الاشتراك'
+];
+
+// Replies that undo a STOP
+const OPT_IN_KEYWORDS = ['start', 'unstop', 'subscribe', 'resume'];
+
+// Message types an opted-out number still receives - answers to something they just sent
+const SUPPRESSION_EXEMPT_TYPES = ['opt_out_confirmation', 'auto_replier', 'inbox_reply', 'cod_confirmation', 'admin_notification', 'test_message'];
+
+function normalizeKeyword(text: string): string {
+  return text.trim().toLowerCase().replace(/[.!*_~]+/g, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Whether a reply is an opt-out keyword on its own
+ * Only exact replies count, so "don't stop sending offers" isn't an opt-out
+ */
+export function isOptOutMessage(text: string): boolean {
+  return OPT_OUT_KEYWORDS.includes(normalizeKeyword(text));
+}
+
+export function isOptInMessage(text: string): boolean {
+  return OPT_IN_KEYWORDS.includes(normalizeKeyword(text));
+}
+
+/**
+ * Whether a message type skips the suppression check
+ */
+export function isSuppressionExempt(messageType: string): boolean {
+  return SUPPRESSION_EXEMPT_TYPES.includes(messageType);
+}
@@ -0,0 +1,231 @@
+/**
+ * Suppression Service
+ * Per-shop list of numbers that opted out of WhatsApp messages. Filled by
+ * STOP replies or by hand, checked before anything is queued, and mirrored
+ * to the customer's SMS marketing consent in Shopify.
+ */
+
+import prisma from "../../db.server";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { formatPhoneForWhatsApp } from "../automation/template.service";
+import { isOptInMessage, isOptOutMessage } from "./suppression.constants";
+
+export type SuppressionReason = 'stop_keyword' | 'manual';
+
+const OPT_OUT_CONFIRMATION = "You've been unsubscribed and won't receive further WhatsApp messages from us. Reply START to subscribe again.";
+const OPT_IN_CONFIRMATION = "You're subscribed again. Reply STOP at any time to unsubscribe.";
+
+export interface SuppressedPhoneRow {
+  id: string;
+  phone: string;
+  reason: string;
+  keyword: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Add a number to the shop's suppression list
+ */
+export async function suppressPhone(
+  shopId: string,
+  phone: string,
+  details: { reason: SuppressionReason; keyword?: string; note?: string }
+) {
+  const normalized = formatPhoneForWhatsApp(phone);
+
+  return prisma.suppressedPhone.upsert({
+    where: { shopId_phone: { shopId, phone: normalized } },
+    create: {
+      shopId,
+      phone: normalized,
+      reason: details.reason,
+      keyword: details.keyword,
+      note: details.note
+    },
+    update: {}
+  });
+}
+
+/**
+ * Remove a number from the suppression list
+ * Returns true if the number was on it
+ */
+export async function unsuppressPhone(shopId: string, phone: string): Promise<boolean> {
+  const result = await prisma.suppressedPhone.deleteMany({
+    where: { shopId, phone: formatPhoneForWhatsApp(phone) }
+  });
+  return result.count > 0;
+}
+
+/**
+ * Whether a shop may message a number
+ */
+export async function isPhoneSuppressed(shopDomain: string, phone: string): Promise<boolean> {
+  const match = await prisma.suppressedPhone.findFirst({
+    where: { shop: { shopifyDomain: shopDomain }, phone: formatPhoneForWhatsApp(phone) },
+    select: { id: true }
+  });
+  return !!match;
+}
+
+/**
+ * The subset of phones on a shop's suppression list, normalized
+ */
+export async function getSuppressedPhones(shopId: string, phones: string[]): Promise<Set<string>> {
+  if (phones.length === 0) {
+    return new Set();
+  }
+
+  const rows = await prisma.suppressedPhone.findMany({
+    where: { shopId, phone: { in: phones.map(formatPhoneForWhatsApp) } },
+    select: { phone: true }
+  });
+  return new Set(rows.map((row: { phone: string }) => row.phone));
+}
+
+/**
+ * Suppression list for the admin page, newest first
+ */
+export async function listSuppressedPhones(shopId: string, search?: string, take: number = 100): Promise<SuppressedPhoneRow[]> {
+  const digits = search?.replace(/\D/g, '');
+
+  return prisma.suppressedPhone.findMany({
+    where: { shopId, ...(digits ? { phone: { contains: digits } } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take
+  });
+}
+
+/**
+ * Handle STOP / START replies from customers
+ * Returns true when the reply was a keyword, so nothing else answers it
+ */
+export async function handleOptOutReply(
+  shopDomain: string,
+  shopId: string,
+  inbound: { senderPhone: string; message: string }
+): Promise<boolean> {
+  // Dynamic import - the queue itself checks this list
+  const { queueMessage } = await import("../queue/message-queue.service");
+
+  if (isOptOutMessage(inbound.message)) {
+    await suppressPhone(shopId, inbound.senderPhone, {
+      reason: 'stop_keyword',
+      keyword: inbound.message.trim().slice(0, 50)
+    });
+
+    const confirmation = await queueMessage({
+      shopId: shopDomain,
+      phone: inbound.senderPhone,
+      message: OPT_OUT_CONFIRMATION,
+      messageType: 'opt_out_confirmation',
+      priority: 1
+    });
+    if ('skipped' in confirmation) {
+      console.log(`Opt-out confirmation to ${inbound.senderPhone} not sent (${confirmation.skipped})`);
+    }
+
+    await syncConsentSafely(shopDomain, inbound.senderPhone, false);
+    console.log(`${inbound.senderPhone} opted out of WhatsApp messages for ${shopDomain}`);
+    return true;
+  }
+
+  if (isOptInMessage(inbound.message)) {
+    const wasSuppressed = await unsuppressPhone(shopId, inbound.senderPhone);
+    if (!wasSuppressed) {
+      return false;
+    }
+
+    const confirmation = await queueMessage({
+      shopId: shopDomain,
+      phone: inbound.senderPhone,
+      message: OPT_IN_CONFIRMATION,
+      messageType: 'opt_out_confirmation',
+      priority: 1
+    });
+    if ('skipped' in confirmation) {
+      console.log(`Opt-in confirmation to ${inbound.senderPhone} not sent (${confirmation.skipped})`);
+    }
+
+    await syncConsentSafely(shopDomain, inbound.senderPhone, true);
+    console.log(`${inbound.senderPhone} opted back in to WhatsApp messages for ${shopDomain}`);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Consent write-back from a background path - failures are logged, not thrown
+ */
+async function syncConsentSafely(shopDomain: string, phone: string, subscribed: boolean): Promise<void> {
+  try {
+    // Dynamic import keeps the Shopify app config out of the sender worker
+    const { unauthenticated } = await import("../../shopify.server");
+    const { admin } = await unauthenticated.admin(shopDomain);
+    await updateMarketingConsent(admin.graphql, phone, subscribed);
+  } catch (error) {
+    console.error(`Failed to update Shopify marketing consent for ${phone}:`, error);
+  }
+}
+
+/**
+ * Mirror an opt-out (or opt-in) to the customer's SMS marketing consent
+ * WhatsApp has no consent field of its own in Shopify, so SMS is the closest match.
+ * Returns false when no customer has this phone number.
+ */
+export async function updateMarketingConsent(
+  graphql: AdminApiContext["graphql"],
+  phone: string,
+  subscribed: boolean
+): Promise<boolean> {
+  const lookup = await graphql(
+    `
+      query customerByPhone($query: String!) {
+        customers(first: 1, query: $query) {
+          nodes {
+            id
+          }
+        }
+      }
+    `,
+    { variables: { query: `phone:+${formatPhoneForWhatsApp(phone)}` } }
+  );
+  const lookupResult = await lookup.json();
+  const customerId = lookupResult.data?.customers?.nodes?.[0]?.id;
+
+  if (!customerId) {
+    return false;
+  }
+
+  const response = await graphql(
+    `
+      mutation updateSmsConsent($input: CustomerSmsMarketingConsentUpdateInput!) {
+        customerSmsMarketingConsentUpdate(input: $input) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        input: {
+          customerId,
+          smsMarketingConsent: subscribed
+            ? { marketingState: 'SUBSCRIBED', marketingOptInLevel: 'SINGLE_OPT_IN', consentUpdatedAt: new Date().toISOString() }
+            : { marketingState: 'UNSUBSCRIBED', consentUpdatedAt: new Date().toISOString() }
+        }
+      }
+    }
+  );
+  const result = await response.json();
+  const userErrors = result.data?.customerSmsMarketingConsentUpdate?.userErrors || [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  return true;
+}
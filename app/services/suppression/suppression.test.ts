@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isOptInMessage, isOptOutMessage, isSuppressionExempt } from './suppression.constants';
+
+test('stop keywords opt out in any case and formatting', () => {
+  assert.equal(isOptOutMessage('STOP'), true);
+  assert.equal(isOptOutMessage('  Stop! '), true);
+  assert.equal(isOptOutMessage('*unsubscribe*'), true);
+  assert.equal(isOptOutMessage('opt   out'), true);
+  assert.equal(isOptOutMessage('बंद करो'), true);
+  assert.equal(isOptOutMessage('Arrêt'), true);
+});
+
+test('a keyword inside a longer reply is not an opt-out', () => {
+  assert.equal(isOptOutMessage("don't stop sending offers"), false);
+  assert.equal(isOptOutMessage('stop please, wrong order'), false);
+  assert.equal(isOptOutMessage(''), false);
+});
+
+test('start keywords opt back in', () => {
+  assert.equal(isOptInMessage('START'), true);
+  assert.equal(isOptInMessage('resume.'), true);
+  assert.equal(isOptInMessage('start my order'), false);
+  assert.equal(isOptOutMessage('start'), false);
+});
+
+test('answers to the customer still go out after an opt-out', () => {
+  assert.equal(isSuppressionExempt('opt_out_confirmation'), true);
+  assert.equal(isSuppressionExempt('inbox_reply'), true);
+  assert.equal(isSuppressionExempt('campaign'), false);
+  assert.equal(isSuppressionExempt('abandoned_checkout'), false);
+});
@@ -7,7 +7,10 @@ import makeWASocket, {
   AuthenticationState,
   SignalDataTypeMap,
   initAuthCreds,
-  BufferJSON
+  BufferJSON,
+  WAMessage,
+  WAMessageUpdate,
+  MessageUpsertType
 } from '@whiskeysockets/baileys';
 import pino, { Logger } from 'pino';
 import { Prisma, PrismaClient } from '@prisma/client';
@@ -121,7 +124,8 @@ async function getDatabaseAuthState(shopId: string): Promise<{
 async function updateConnectionStatus(
   shopId: string, 
   status: 'connecting' | 'awaiting_scan' | 'connected' | 'disconnected' | 'error', 
-  qrCode?: string | null
+  qrCode?: string | null,
+  newlyLinked: boolean = false
 ) {
   try {
     const prisma = getPrisma();
@@ -136,6 +140,9 @@ async function updateConnectionStatus(
       updateData.whatsappConnected = true;
       updateData.lastConnectedAt = new Date();
       updateData.qrCode = null;
+      if (newlyLinked) {
+        updateData.whatsappLinkedAt = new Date();
+      }
     } else if (status === 'disconnected' || status === 'error') {
       updateData.whatsappConnected = false;
       updateData.qrCode = null;
@@ -150,9 +157,155 @@ async function updateConnectionStatus(
   }
 }
 
+/**
+ * A text message received on the shop's WhatsApp number
+ */
+export interface IncomingMessage {
+  whatsappMessageId: string | null;
+  fromPhone: string;
+  senderName: string | null;
+  text: string;
+  receivedAt: Date;
+}
+
+export type IncomingMessageHandler = (shopId: string, message: IncomingMessage) => Promise<void>;
+
+/**
+ * A delivery or read receipt for a message we sent
+ */
+export interface MessageStatusUpdate {
+  whatsappMessageId: string;
+  status: 'delivered' | 'read';
+  at: Date;
+}
+
+export type MessageStatusHandler = (shopId: string, update: MessageStatusUpdate) => Promise<void>;
+
+// Called when WhatsApp closes the socket, with its disconnect status code
+export type DisconnectHandler = (shopId: string, statusCode: number | undefined) => Promise<void>;
+
+/**
+ * Whether a close status means the socket won't reconnect (the session was logged out)
+ */
+export function isPermanentDisconnect(statusCode: number | undefined): boolean {
+  return statusCode === DisconnectReason.loggedOut;
+}
+
+// proto.WebMessageInfo.Status values - DELIVERY_ACK, READ and PLAYED (voice notes)
+const STATUS_DELIVERY_ACK = 3;
+const STATUS_READ = 4;
+const STATUS_PLAYED = 5;
+
+/**
+ * Convert a Baileys message update into a receipt for one of our messages
+ * Returns null for incoming messages and for updates that aren't receipts
+ */
+function toMessageStatusUpdate(update: WAMessageUpdate): MessageStatusUpdate | null {
+  const status = update.update?.status;
+  if (!update.key?.fromMe || !update.key.id || status == null) {
+    return null;
+  }
+
+  if (status === STATUS_DELIVERY_ACK) {
+    return { whatsappMessageId: update.key.id, status: 'delivered', at: new Date() };
+  }
+  if (status === STATUS_READ || status === STATUS_PLAYED) {
+    return { whatsappMessageId: update.key.id, status: 'read', at: new Date() };
+  }
+  return null;
+}
+
+/**
+ * Convert a raw Baileys message into an IncomingMessage
+ * Returns null for our own messages, groups, broadcasts and non-text content
+ */
+function toIncomingMessage(msg: WAMessage): IncomingMessage | null {
+  if (!msg.key || msg.key.fromMe || !msg.message) {
+    return null;
+  }
+
+  // Newer WhatsApp clients address chats by LID - the phone JID is in the alt field
+  const key = msg.key as typeof msg.key & { remoteJidAlt?: string; senderPn?: string };
+  const jid = [key.remoteJid, key.remoteJidAlt, key.senderPn]
+    .find(candidate => candidate?.endsWith('@s.whatsapp.net'));
+
+  if (!jid) {
+    return null;
+  }
+
+  const text = msg.message.conversation
+    || msg.message.extendedTextMessage?.text
+    || msg.message.imageMessage?.caption
+    || msg.message.videoMessage?.caption
+    || '';
+
+  if (!text.trim()) {
+    return null;
+  }
+
+  const timestamp = Number(msg.messageTimestamp || 0);
+
+  return {
+    whatsappMessageId: key.id || null,
+    fromPhone: jid.split('@')[0].split(':')[0],
+    senderName: msg.pushName || null,
+    text,
+    receivedAt: timestamp ? new Date(timestamp * 1000) : new Date()
+  };
+}
+
+// How long an uploaded attachment is reused before it's uploaded to WhatsApp again
+const MEDIA_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Remembers attachments already uploaded to WhatsApp, so a campaign sending
+ * the same file to thousands of recipients uploads it once per socket.
+ * Baileys only caches media passed by `url`, keyed by that url.
+ */
+class MediaUploadCache {
+  private entries: Map<string, { value: unknown; expiresAt: number }> = new Map();
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt < Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  set<T>(key: string, value: T): void {
+    this.entries.set(key, { value, expiresAt: Date.now() + MEDIA_UPLOAD_TTL_MS });
+  }
+
+  del(key: string): void {
+    this.entries.delete(key);
+  }
+
+  flushAll(): void {
+    this.entries.clear();
+  }
+}
+
+// A file on disk, or one generated in memory such as an invoice
+export type OutgoingMedia = {
+  mediaType: 'image' | 'video' | 'audio' | 'document';
+  mimeType: string;
+  fileName: string;
+} & ({ filePath: string } | { data: Buffer });
+
 export class BaileysService {
   private socket: WASocket | null = null;
   private logger: Logger;
+  private isOpen = false;
+  private isStopped = false;
+  private openWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private messageHandlers: IncomingMessageHandler[] = [];
+  private statusHandlers: MessageStatusHandler[] = [];
+  private disconnectHandlers: DisconnectHandler[] = [];
+  // Set once a QR code is shown, so the next open records a newly linked number
+  private isLinking = false;
+  private mediaCache = new MediaUploadCache();
 
   constructor() {
     this.logger = pino({ level: 'info' });
@@ -165,6 +318,8 @@ export class BaileysService {
   async initializeConnection(shopId: string): Promise<void> {
     try {
       this.logger.info(`Initializing connection for shop: ${shopId}`);
+      this.isStopped = false;
+      this.isOpen = false;
       await updateConnectionStatus(shopId, 'connecting');
       
       // 1. Get auth state from database
@@ -183,6 +338,7 @@ export class BaileysService {
         browser: ['WhatSend', 'Chrome', '10.0'],
         connectTimeoutMs: 60000,
         keepAliveIntervalMs: 30000,
+        mediaCache: this.mediaCache,
       });
 
       // 4. Handle events
@@ -191,25 +347,93 @@ export class BaileysService {
 
         if (qr) {
           this.logger.info(`QR Code received for shop ${shopId}`);
+          this.isLinking = true;
           await updateConnectionStatus(shopId, 'awaiting_scan', qr);
         }
 
         if (connection === 'close') {
+          this.isOpen = false;
+
+          // Closed on purpose (idle eviction, logout) - don't reconnect
+          if (this.isStopped) {
+            this.logger.info(`Connection closed for shop ${shopId}`);
+            return;
+          }
+
           const statusCode = (lastDisconnect?.error as { output?: { statusCode?: number } })?.output?.statusCode;
-          const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
+          const shouldReconnect = !isPermanentDisconnect(statusCode);
+
+          for (const handler of this.disconnectHandlers) {
+            try {
+              await handler(shopId, statusCode);
+            } catch (error) {
+              this.logger.error({ err: error }, `Disconnect handler failed for shop ${shopId}`);
+            }
+          }
           
           this.logger.warn(`Connection closed for shop ${shopId}. Reconnecting: ${shouldReconnect}`);
           
           if (shouldReconnect) {
-            setTimeout(() => this.initializeConnection(shopId), 3000);
+            setTimeout(() => {
+              if (!this.isStopped) {
+                this.initializeConnection(shopId);
+              }
+            }, 3000);
           } else {
             this.logger.error(`Shop ${shopId} logged out. Marking as disconnected.`);
+            this.rejectOpenWaiters(new Error(`WhatsApp session for shop ${shopId} was logged out`));
             await updateConnectionStatus(shopId, 'disconnected');
             await this.clearSession(shopId);
           }
         } else if (connection === 'open') {
           this.logger.info(`✅ Connection opened successfully for shop ${shopId}`);
-          await updateConnectionStatus(shopId, 'connected');
+          this.isOpen = true;
+          this.resolveOpenWaiters();
+          await updateConnectionStatus(shopId, 'connected', undefined, this.isLinking);
+          this.isLinking = false;
+        }
+      });
+
+      this.socket.ev.on('messages.upsert', async ({ messages, type }: { messages: WAMessage[]; type: MessageUpsertType }) => {
+        // 'append' is history sync - only react to new messages
+        if (type !== 'notify' || this.messageHandlers.length === 0) {
+          return;
+        }
+
+        for (const msg of messages) {
+          const incoming = toIncomingMessage(msg);
+          if (!incoming) {
+            continue;
+          }
+
+          for (const handler of this.messageHandlers) {
+            try {
+              await handler(shopId, incoming);
+            } catch (error) {
+              this.logger.error({ err: error }, `Incoming message handler failed for shop ${shopId}`);
+            }
+          }
+        }
+      });
+
+      this.socket.ev.on('messages.update', async (updates: WAMessageUpdate[]) => {
+        if (this.statusHandlers.length === 0) {
+          return;
+        }
+
+        for (const update of updates) {
+          const receipt = toMessageStatusUpdate(update);
+          if (!receipt) {
+            continue;
+          }
+
+          for (const handler of this.statusHandlers) {
+            try {
+              await handler(shopId, receipt);
+            } catch (error) {
+              this.logger.error({ err: error }, `Message status handler failed for shop ${shopId}`);
+            }
+          }
         }
       });
 
@@ -225,6 +449,92 @@ export class BaileysService {
     }
   }
 
+  /**
+   * Register a handler for incoming text messages
+   * Handlers survive reconnects since they're attached to every new socket
+   */
+  onIncomingMessage(handler: IncomingMessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  /**
+   * Register a handler for delivery and read receipts of sent messages
+   */
+  onMessageStatus(handler: MessageStatusHandler): void {
+    this.statusHandlers.push(handler);
+  }
+
+  /**
+   * Register a handler for closed connections, e.g. to back off sending
+   */
+  onDisconnect(handler: DisconnectHandler): void {
+    this.disconnectHandlers.push(handler);
+  }
+
+  /**
+   * Whether the socket is currently open and able to send
+   */
+  isConnected(): boolean {
+    return this.socket !== null && this.isOpen;
+  }
+
+  /**
+   * Resolve once the socket reports `connection === 'open'`
+   * Rejects if the connection does not open within the timeout
+   */
+  waitForOpen(timeoutMs: number = 30000): Promise<void> {
+    if (this.isConnected()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        this.openWaiters = this.openWaiters.filter(w => w !== waiter);
+        reject(new Error(`Timed out after ${timeoutMs}ms waiting for WhatsApp connection to open`));
+      }, timeoutMs);
+
+      this.openWaiters.push(waiter);
+    });
+  }
+
+  private resolveOpenWaiters(): void {
+    const waiters = this.openWaiters;
+    this.openWaiters = [];
+    waiters.forEach(w => w.resolve());
+  }
+
+  private rejectOpenWaiters(error: Error): void {
+    const waiters = this.openWaiters;
+    this.openWaiters = [];
+    waiters.forEach(w => w.reject(error));
+  }
+
+  /**
+   * Close the socket without clearing the stored session
+   * The shop stays linked and can be reconnected later
+   */
+  disconnect(): void {
+    this.isStopped = true;
+    this.isOpen = false;
+    this.rejectOpenWaiters(new Error('WhatsApp connection was closed'));
+
+    if (this.socket) {
+      this.socket.end(undefined);
+      this.socket = null;
+    }
+  }
+
   /**
    * Clear session from database
    */
@@ -245,22 +555,25 @@ export class BaileysService {
 
   /**
    * Send a text message to a phone number
+   * Returns the WhatsApp message ID used to match delivery receipts
    */
-  async sendMessage(shopId: string, to: string, message: string): Promise<void> {
+  async sendMessage(shopId: string, to: string, message: string): Promise<string | null> {
     if (!this.socket) {
       throw new Error(`WhatsApp socket not initialized for shop ${shopId}`);
     }
 
     const remoteJid = to.includes('@s.whatsapp.net') ? to : `${to}@s.whatsapp.net`;
     
-    await this.socket.sendMessage(remoteJid, { text: message });
+    const sent = await this.socket.sendMessage(remoteJid, { text: message });
     this.logger.info(`Message sent to ${to}`);
+    return sent?.key?.id || null;
   }
 
   /**
    * Send an image message with caption to a phone number
+   * Returns the WhatsApp message ID used to match delivery receipts
    */
-  async sendImageMessage(shopId: string, to: string, imageUrl: string, caption: string): Promise<void> {
+  async sendImageMessage(shopId: string, to: string, imageUrl: string, caption: string): Promise<string | null> {
     if (!this.socket) {
       throw new Error(`WhatsApp socket not initialized for shop ${shopId}`);
     }
@@ -275,27 +588,65 @@ export class BaileysService {
       
       const imageBuffer = Buffer.from(await response.arrayBuffer());
       
-      await this.socket.sendMessage(remoteJid, {
+      const sent = await this.socket.sendMessage(remoteJid, {
         image: imageBuffer,
         caption: caption
       });
       
       this.logger.info(`Image message sent to ${to}`);
+      return sent?.key?.id || null;
     } catch (error) {
       this.logger.error(`Failed to send image message: ${error}`);
       this.logger.info('Falling back to text-only message');
-      await this.socket.sendMessage(remoteJid, { text: caption });
+      const sent = await this.socket.sendMessage(remoteJid, { text: caption });
+      return sent?.key?.id || null;
     }
   }
 
+  /**
+   * Send an image, video, audio file or document
+   * The caption goes with the media - audio can't carry one, so it follows
+   * as a text message. Returns the WhatsApp message ID of the caption.
+   */
+  async sendMediaMessage(shopId: string, to: string, media: OutgoingMedia, caption: string): Promise<string | null> {
+    if (!this.socket) {
+      throw new Error(`WhatsApp socket not initialized for shop ${shopId}`);
+    }
+
+    const remoteJid = to.includes('@s.whatsapp.net') ? to : `${to}@s.whatsapp.net`;
+    const source = 'data' in media ? media.data : { url: media.filePath };
+
+    let sent;
+    switch (media.mediaType) {
+      case 'image':
+        sent = await this.socket.sendMessage(remoteJid, { image: source, caption, mimetype: media.mimeType });
+        break;
+      case 'video':
+        sent = await this.socket.sendMessage(remoteJid, { video: source, caption, mimetype: media.mimeType });
+        break;
+      case 'document':
+        sent = await this.socket.sendMessage(remoteJid, {
+          document: source,
+          caption,
+          mimetype: media.mimeType,
+          fileName: media.fileName
+        });
+        break;
+      case 'audio':
+        await this.socket.sendMessage(remoteJid, { audio: source, mimetype: media.mimeType });
+        sent = caption.trim() ? await this.socket.sendMessage(remoteJid, { text: caption }) : undefined;
+        break;
+    }
+
+    this.logger.info(`${media.mediaType} message sent to ${to}`);
+    return sent?.key?.id || null;
+  }
+
   /**
    * Disconnect and clear session
    */
   async logout(shopId: string): Promise<void> {
-    if (this.socket) {
-      this.socket.end(undefined);
-      this.socket = null;
-    }
+    this.disconnect();
     
     await this.clearSession(shopId);
     
@@ -0,0 +1,197 @@
+/**
+ * Connection Manager
+ * Keeps one long-lived BaileysService socket per shop. Only the message
+ * sender worker uses it - other processes reach the sockets through the
+ * whatsapp-messages and whatsapp-connections queues, so a shop never has
+ * two sockets replacing each other's session.
+ */
+
+import { BaileysService, isPermanentDisconnect } from "./baileys.service";
+import { handleInboundMessage } from "./inbound-message.service";
+import { handleMessageStatus } from "./message-status.service";
+import { handleDisconnect } from "../queue/send-pacing.service";
+
+// How long to wait for a socket to report `connection === 'open'`
+const OPEN_TIMEOUT_MS = 30000;
+
+// Sockets unused for this long are closed by the idle sweep
+const DEFAULT_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface ManagedConnection {
+  service: BaileysService;
+  lastUsedAt: number;
+  // Pinned connections are never evicted (e.g. sessions restored when the worker starts)
+  pinned: boolean;
+}
+
+const connections: Map<string, ManagedConnection> = new Map();
+
+// In-flight connection attempts, so concurrent jobs for one shop share a single socket
+const pendingConnections: Map<string, Promise<BaileysService>> = new Map();
+
+let idleSweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Get the existing connection for a shop, if any
+ */
+export function getConnection(shopDomain: string): BaileysService | undefined {
+  return connections.get(shopDomain)?.service;
+}
+
+/**
+ * Start a connection for a shop without waiting for it to open
+ * Used when linking a new number, where the socket first has to show a QR code
+ */
+export async function startConnection(
+  shopDomain: string,
+  options: { pinned?: boolean } = {}
+): Promise<BaileysService> {
+  const existing = connections.get(shopDomain);
+  if (existing) {
+    existing.lastUsedAt = Date.now();
+    existing.pinned = existing.pinned || !!options.pinned;
+    return existing.service;
+  }
+
+  const service = new BaileysService();
+  service.onIncomingMessage(handleInboundMessage);
+  service.onMessageStatus(handleMessageStatus);
+  service.onDisconnect(handleDisconnect);
+  service.onDisconnect(async (_shopId, statusCode) => {
+    // A logged-out socket never reopens - forget it so the next job starts fresh
+    if (isPermanentDisconnect(statusCode) && connections.get(shopDomain)?.service === service) {
+      connections.delete(shopDomain);
+    }
+  });
+  connections.set(shopDomain, {
+    service,
+    lastUsedAt: Date.now(),
+    pinned: !!options.pinned
+  });
+
+  try {
+    await service.initializeConnection(shopDomain);
+  } catch (error) {
+    connections.delete(shopDomain);
+    throw error;
+  }
+
+  return service;
+}
+
+/**
+ * Get a warm, open connection for a shop, creating one if needed
+ * Waits for the `open` event instead of sleeping a fixed amount of time
+ */
+export async function ensureConnection(shopDomain: string): Promise<BaileysService> {
+  const existing = connections.get(shopDomain);
+  if (existing?.service.isConnected()) {
+    existing.lastUsedAt = Date.now();
+    return existing.service;
+  }
+
+  const pending = pendingConnections.get(shopDomain);
+  if (pending) {
+    return pending;
+  }
+
+  const attempt = (async () => {
+    const service = existing?.service ?? await startConnection(shopDomain);
+    try {
+      await service.waitForOpen(OPEN_TIMEOUT_MS);
+    } catch (error) {
+      // Drop the half-open socket so the next job starts clean
+      if (!connections.get(shopDomain)?.pinned) {
+        closeConnection(shopDomain);
+      }
+      throw error;
+    }
+
+    const managed = connections.get(shopDomain);
+    if (managed) {
+      managed.lastUsedAt = Date.now();
+    }
+    return service;
+  })();
+
+  pendingConnections.set(shopDomain, attempt);
+  try {
+    return await attempt;
+  } finally {
+    pendingConnections.delete(shopDomain);
+  }
+}
+
+/**
+ * Close and forget a shop's connection, keeping its stored session
+ */
+export function closeConnection(shopDomain: string): void {
+  const managed = connections.get(shopDomain);
+  if (managed) {
+    managed.service.disconnect();
+    connections.delete(shopDomain);
+  }
+}
+
+/**
+ * Log a shop out of WhatsApp and clear its stored session
+ */
+export async function logoutConnection(shopDomain: string): Promise<void> {
+  const managed = connections.get(shopDomain);
+  connections.delete(shopDomain);
+
+  if (managed) {
+    await managed.service.logout(shopDomain);
+  } else {
+    // No live socket in this process - clear the stored session directly
+    await new BaileysService().logout(shopDomain);
+  }
+}
+
+/**
+ * Close sockets that haven't been used within the idle timeout
+ */
+export function evictIdleConnections(idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS): number {
+  const cutoff = Date.now() - idleTimeoutMs;
+  let evicted = 0;
+
+  for (const [shopDomain, managed] of connections) {
+    if (!managed.pinned && managed.lastUsedAt < cutoff && !pendingConnections.has(shopDomain)) {
+      console.log(`Evicting idle WhatsApp connection for ${shopDomain}`);
+      closeConnection(shopDomain);
+      evicted++;
+    }
+  }
+
+  return evicted;
+}
+
+/**
+ * Periodically evict idle sockets
+ */
+export function startIdleEviction(
+  idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS,
+  intervalMs: number = 60000
+): void {
+  if (idleSweepTimer) {
+    return;
+  }
+
+  idleSweepTimer = setInterval(() => evictIdleConnections(idleTimeoutMs), intervalMs);
+  // Don't keep the process alive just for the sweep
+  idleSweepTimer.unref();
+}
+
+/**
+ * Close every socket (used on graceful shutdown)
+ */
+export function closeAllConnections(): void {
+  if (idleSweepTimer) {
+    clearInterval(idleSweepTimer);
+    idleSweepTimer = null;
+  }
+
+  for (const shopDomain of [...connections.keys()]) {
+    closeConnection(shopDomain);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Connection Queue
+ * Only the message sender worker holds WhatsApp sockets - two sockets with
+ * the same credentials keep replacing each other's session. Other processes
+ * (the web app linking or unlinking a number) ask it through this queue.
+ */
+
+import { Queue } from 'bullmq';
+import IORedis from 'ioredis';
+
+const connection = new IORedis(process.env.REDIS_URL || 'redis://localhost:6379', {
+  maxRetriesPerRequest: null,
+});
+
+export const CONNECTION_QUEUE_NAME = 'whatsapp-connections';
+
+// connect: open the socket (shows a QR code for an unlinked shop)
+// disconnect: close the socket and keep the session
+// logout: close the socket and clear the session
+export type ConnectionCommand = 'connect' | 'disconnect' | 'logout';
+
+export interface ConnectionJobData {
+  shopId: string;
+}
+
+export const connectionQueue = new Queue<ConnectionJobData, void, ConnectionCommand>(CONNECTION_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: true,
+    removeOnFail: {
+      age: 24 * 3600
+    }
+  },
+});
+
+/**
+ * Ask the worker to run a connection command for a shop
+ */
+export async function requestConnectionCommand(shopId: string, command: ConnectionCommand): Promise<void> {
+  await connectionQueue.add(command, { shopId });
+}
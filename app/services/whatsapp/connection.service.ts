@@ -1,8 +1,5 @@
 import prisma from "../../db.server";
-import { BaileysService } from "../whatsapp/baileys.service";
-
-// Store active connections per shop (singleton pattern for server)
-const activeConnections: Map<string, BaileysService> = new Map();
+import { requestConnectionCommand } from "./connection-queue.service";
 
 /**
  * Start WhatsApp connection for a shop and store QR in database
@@ -18,15 +15,8 @@ export async function startWhatsAppConnection(shopDomain: string): Promise<{ sta
       }
     });
 
-    // Create or get existing connection
-    let baileys = activeConnections.get(shopDomain);
-    if (!baileys) {
-      baileys = new BaileysService();
-      activeConnections.set(shopDomain, baileys);
-    }
-
-    // Initialize connection (this will generate QR code)
-    await baileys.initializeConnection(shopDomain);
+    // The message sender worker opens the connection (this will generate QR code)
+    await requestConnectionCommand(shopDomain, 'connect');
 
     return { status: 'connecting' };
   } catch (error) {
@@ -119,19 +109,22 @@ export async function markAsDisconnected(shopDomain: string): Promise<void> {
     }
   });
 
-  // Remove from active connections
-  activeConnections.delete(shopDomain);
+  // Close the worker's socket
+  await requestConnectionCommand(shopDomain, 'disconnect');
 }
 
 /**
  * Disconnect WhatsApp for a shop
  */
 export async function disconnectWhatsApp(shopDomain: string): Promise<void> {
-  const baileys = activeConnections.get(shopDomain);
-  if (baileys) {
-    await baileys.logout(shopDomain);
-    activeConnections.delete(shopDomain);
-  }
+  await requestConnectionCommand(shopDomain, 'logout');
 
-  await markAsDisconnected(shopDomain);
+  await prisma.shop.update({
+    where: { shopifyDomain: shopDomain },
+    data: { 
+      whatsappConnected: false,
+      connectionStatus: 'disconnected',
+      qrCode: null
+    }
+  });
 }
@@ -0,0 +1,95 @@
+/**
+ * Inbound Message Service
+ * Stores messages customers send to the shop's WhatsApp number
+ * and runs the automations that react to them
+ */
+
+import prisma from "../../db.server";
+import type { IncomingMessage } from "./baileys.service";
+import { handleAutoReply } from "../automation/auto-replier.service";
+import { touchConversation } from "../inbox/inbox.service";
+import { stopSequencesForReply } from "../recovery/recovery-sequence.service";
+import { handleConfirmationReply } from "../cod/cod-confirmation.service";
+import { handleOptOutReply } from "../suppression/suppression.service";
+
+/**
+ * Handle a message received on a shop's connected number
+ * Registered on every managed connection by the connection manager
+ */
+export async function handleInboundMessage(shopDomain: string, incoming: IncomingMessage): Promise<void> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true }
+  });
+
+  if (!shop) {
+    console.warn(`Inbound message for unknown shop ${shopDomain} ignored`);
+    return;
+  }
+
+  let inbound;
+  try {
+    inbound = await prisma.inboundMessage.create({
+      data: {
+        shopId: shop.id,
+        senderPhone: incoming.fromPhone,
+        senderName: incoming.senderName,
+        message: incoming.text,
+        whatsappMessageId: incoming.whatsappMessageId,
+        receivedAt: incoming.receivedAt
+      }
+    });
+  } catch (error) {
+    // Unique (shopId, whatsappMessageId) - another socket already stored this message
+    if ((error as { code?: string }).code === 'P2002') {
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`📩 Inbound message from ${incoming.fromPhone} for ${shopDomain}`);
+
+  try {
+    await touchConversation(shop.id, incoming.fromPhone, {
+      customerName: incoming.senderName,
+      preview: incoming.text,
+      inbound: true
+    });
+  } catch (error) {
+    console.error(`Failed to update conversation for inbound message ${inbound.id}:`, error);
+  }
+
+  // A reply ends any abandoned checkout reminders for this customer
+  try {
+    const stopped = await stopSequencesForReply(shop.id, incoming.fromPhone);
+    if (stopped > 0) {
+      console.log(`Stopped ${stopped} recovery sequence(s) for ${incoming.fromPhone} after reply`);
+    }
+  } catch (error) {
+    console.error(`Failed to stop recovery sequences for inbound message ${inbound.id}:`, error);
+  }
+
+  // STOP / START replies update the suppression list and get nothing else
+  try {
+    if (await handleOptOutReply(shopDomain, shop.id, inbound)) {
+      return;
+    }
+  } catch (error) {
+    console.error(`Failed to handle opt-out reply ${inbound.id}:`, error);
+  }
+
+  // "1" / "2" answers to a pending order confirmation don't get an auto reply
+  try {
+    if (await handleConfirmationReply(shopDomain, shop.id, inbound)) {
+      return;
+    }
+  } catch (error) {
+    console.error(`Failed to apply order confirmation reply ${inbound.id}:`, error);
+  }
+
+  try {
+    await handleAutoReply(shopDomain, inbound);
+  } catch (error) {
+    console.error(`Auto reply failed for inbound message ${inbound.id}:`, error);
+  }
+}
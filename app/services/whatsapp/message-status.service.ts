@@ -0,0 +1,121 @@
+/**
+ * Message Status Service
+ * Moves MessageHistory rows through sent -> delivered -> read as
+ * WhatsApp receipts arrive and reports delivery and read rates
+ */
+
+import prisma from "../../db.server";
+import type { MessageStatusUpdate } from "./baileys.service";
+
+// Receipts can arrive before the sender has written the history row
+const UNMATCHED_RECEIPT_RETRY_MS = 3000;
+
+export interface DeliveryStats {
+  messageType: string;
+  sent: number;      // Everything that left the socket (sent, delivered or read)
+  delivered: number; // Delivered or read
+  read: number;
+  failed: number;
+  deliveryRate: number;
+  readRate: number;
+}
+
+/**
+ * Apply a delivery or read receipt to the matching MessageHistory row
+ * Registered on every managed connection by the connection manager
+ */
+export async function handleMessageStatus(shopDomain: string, update: MessageStatusUpdate): Promise<void> {
+  const matched = await applyMessageStatus(shopDomain, update);
+
+  if (!matched) {
+    setTimeout(() => {
+      applyMessageStatus(shopDomain, update).catch(error => {
+        console.error(`Failed to apply ${update.status} receipt for ${update.whatsappMessageId}:`, error);
+      });
+    }, UNMATCHED_RECEIPT_RETRY_MS);
+  }
+}
+
+/**
+ * Returns false when no history row has this message ID yet
+ */
+async function applyMessageStatus(shopDomain: string, update: MessageStatusUpdate): Promise<boolean> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true }
+  });
+
+  if (!shop) {
+    return true;
+  }
+
+  const where = { shopId: shop.id, whatsappMessageId: update.whatsappMessageId };
+
+  if (update.status === 'delivered') {
+    // Status only moves forward - a late delivery receipt must not undo a read
+    const result = await prisma.messageHistory.updateMany({
+      where: { ...where, status: 'sent' },
+      data: { status: 'delivered', deliveredAt: update.at }
+    });
+    return result.count > 0 || await prisma.messageHistory.count({ where }) > 0;
+  }
+
+  // A read receipt implies delivery, even if that receipt never came
+  await prisma.messageHistory.updateMany({
+    where: { ...where, deliveredAt: null },
+    data: { deliveredAt: update.at }
+  });
+  const result = await prisma.messageHistory.updateMany({
+    where: { ...where, status: { in: ['sent', 'delivered'] } },
+    data: { status: 'read', readAt: update.at }
+  });
+  return result.count > 0 || await prisma.messageHistory.count({ where }) > 0;
+}
+
+/**
+ * Delivery and read rates per message type for a date range
+ */
+export async function getDeliveryStatsByType(shopId: string, start: Date, end: Date): Promise<DeliveryStats[]> {
+  const groups = await prisma.messageHistory.groupBy({
+    by: ['messageType', 'status'],
+    where: { shopId, sentAt: { gte: start, lte: end } },
+    _count: { _all: true }
+  });
+
+  const byType = new Map<string, DeliveryStats>();
+
+  for (const group of groups as Array<{ messageType: string; status: string; _count: { _all: number } }>) {
+    const stats = byType.get(group.messageType) || {
+      messageType: group.messageType,
+      sent: 0,
+      delivered: 0,
+      read: 0,
+      failed: 0,
+      deliveryRate: 0,
+      readRate: 0
+    };
+    const count = group._count._all;
+
+    if (group.status === 'failed') {
+      stats.failed += count;
+    } else {
+      stats.sent += count;
+      if (group.status === 'delivered' || group.status === 'read') {
+        stats.delivered += count;
+      }
+      if (group.status === 'read') {
+        stats.read += count;
+      }
+    }
+
+    byType.set(group.messageType, stats);
+  }
+
+  return [...byType.values()]
+    .map(stats => ({
+      ...stats,
+      deliveryRate: stats.sent > 0 ? stats.delivered / stats.sent : 0,
+      readRate: stats.sent > 0 ? stats.read / stats.sent : 0
+    }))
+    .sort((a, b) => b.sent - a.sent);
+}
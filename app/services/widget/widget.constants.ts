@@ -0,0 +1,75 @@
+// Widget type definitions - shared between client and server
+export type WidgetType = 'chat_button' | 'product_button';
+
+export type WidgetPosition = 'bottom-right' | 'bottom-left';
+
+// Storefront page types a widget can be limited to (matches Liquid `request.page_type`)
+export type WidgetPageType = 'index' | 'product' | 'collection' | 'cart' | 'page' | 'blog' | 'article' | 'search';
+
+export interface ChatButtonSettings {
+  phone: string;
+  position: WidgetPosition;
+  backgroundColor: string;
+  iconColor: string;
+  label: string;
+  prefilledText: string;
+  pages: WidgetPageType[]; // Empty = every page
+  showOnMobile: boolean;
+  showOnDesktop: boolean;
+}
+
+export interface ProductButtonSettings {
+  phone: string;
+  buttonText: string;
+  backgroundColor: string;
+  textColor: string;
+  // Supports {product_name}, {variant_title}, {price}, {quantity} and {product_url}
+  prefilledText: string;
+}
+
+export interface WidgetSettingsMap {
+  chat_button: ChatButtonSettings;
+  product_button: ProductButtonSettings;
+}
+
+export const DEFAULT_WIDGET_SETTINGS: WidgetSettingsMap = {
+  chat_button: {
+    phone: '',
+    position: 'bottom-right',
+    backgroundColor: '#25D366',
+    iconColor: '#FFFFFF',
+    label: 'Chat with us',
+    prefilledText: 'Hi! I have a question.',
+    pages: [],
+    showOnMobile: true,
+    showOnDesktop: true,
+  },
+  product_button: {
+    phone: '',
+    buttonText: 'Order on WhatsApp',
+    backgroundColor: '#25D366',
+    textColor: '#FFFFFF',
+    prefilledText: 'Hi! I would like to order {quantity} x {product_name} ({variant_title}) - {price}\n{product_url}',
+  },
+};
+
+export const WIDGET_META: Record<WidgetType, { title: string; description: string }> = {
+  chat_button: {
+    title: 'Floating Chat Button',
+    description: 'A WhatsApp button that floats on your storefront and opens a chat with your store.',
+  },
+  product_button: {
+    title: 'Order on WhatsApp',
+    description: 'A button on product pages that starts a WhatsApp order with the selected variant.',
+  },
+};
+
+export const WIDGET_PAGE_OPTIONS: Array<{ label: string; value: WidgetPageType }> = [
+  { label: 'Home page', value: 'index' },
+  { label: 'Product pages', value: 'product' },
+  { label: 'Collection pages', value: 'collection' },
+  { label: 'Cart', value: 'cart' },
+  { label: 'Pages', value: 'page' },
+  { label: 'Blog & articles', value: 'blog' },
+  { label: 'Search', value: 'search' },
+];
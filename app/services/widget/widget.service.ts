@@ -0,0 +1,159 @@
+/**
+ * Widget Service
+ * Stores storefront widget settings and publishes them to an app
+ * installation metafield that the theme app extension reads
+ */
+
+import prisma from "../../db.server";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  type WidgetType,
+  type WidgetSettingsMap,
+  DEFAULT_WIDGET_SETTINGS,
+} from "./widget.constants";
+
+// Re-export for convenience
+export { type WidgetType, type WidgetSettingsMap, DEFAULT_WIDGET_SETTINGS };
+
+// Read in Liquid as app.metafields.whatsend.widgets
+const WIDGET_METAFIELD_NAMESPACE = 'whatsend';
+const WIDGET_METAFIELD_KEY = 'widgets';
+
+export interface WidgetConfig<T extends WidgetType = WidgetType> {
+  type: T;
+  enabled: boolean;
+  settings: WidgetSettingsMap[T];
+}
+
+/**
+ * Merge stored settings over the defaults so new fields always have a value
+ */
+function withDefaults<T extends WidgetType>(type: T, raw: unknown): WidgetSettingsMap[T] {
+  const stored = raw && typeof raw === 'object' ? raw : {};
+  return { ...DEFAULT_WIDGET_SETTINGS[type], ...stored } as WidgetSettingsMap[T];
+}
+
+/**
+ * Get every widget for a shop, falling back to disabled defaults
+ */
+export async function getWidgets(shopDomain: string): Promise<{
+  chat_button: WidgetConfig<'chat_button'>;
+  product_button: WidgetConfig<'product_button'>;
+}> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    include: { widgets: true }
+  });
+
+  const find = (type: WidgetType) => shop?.widgets.find((w: { type: string }) => w.type === type);
+  const chatButton = find('chat_button');
+  const productButton = find('product_button');
+
+  return {
+    chat_button: {
+      type: 'chat_button',
+      enabled: chatButton?.enabled ?? false,
+      settings: withDefaults('chat_button', chatButton?.settings)
+    },
+    product_button: {
+      type: 'product_button',
+      enabled: productButton?.enabled ?? false,
+      settings: withDefaults('product_button', productButton?.settings)
+    }
+  };
+}
+
+/**
+ * Create or update a widget's settings
+ */
+export async function saveWidget<T extends WidgetType>(
+  shopDomain: string,
+  type: T,
+  enabled: boolean,
+  settings: Partial<WidgetSettingsMap[T]>
+) {
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+    select: { id: true }
+  });
+
+  if (!shop) {
+    throw new Error('Shop not found');
+  }
+
+  const merged = withDefaults(type, settings);
+
+  return prisma.widget.upsert({
+    where: { shopId_type: { shopId: shop.id, type } },
+    create: { shopId: shop.id, type, enabled, settings: merged as object },
+    update: { enabled, settings: merged as object }
+  });
+}
+
+/**
+ * Publish the shop's widgets to the app installation metafield
+ * Widgets without their own number fall back to the connected WhatsApp number
+ */
+export async function syncWidgetMetafield(graphql: AdminApiContext["graphql"], shopDomain: string): Promise<void> {
+  const [widgets, shop] = await Promise.all([
+    getWidgets(shopDomain),
+    prisma.shop.findUnique({
+      where: { shopifyDomain: shopDomain },
+      select: { whatsappNumber: true }
+    })
+  ]);
+
+  const fallbackPhone = (shop?.whatsappNumber || '').replace(/\D/g, '');
+  const withPhone = <T extends WidgetType>(widget: WidgetConfig<T>) => ({
+    enabled: widget.enabled,
+    ...widget.settings,
+    phone: (widget.settings.phone || '').replace(/\D/g, '') || fallbackPhone
+  });
+
+  const installationResponse = await graphql(`
+    query currentAppInstallation {
+      currentAppInstallation {
+        id
+      }
+    }
+  `);
+  const installation = await installationResponse.json();
+  const ownerId = installation.data?.currentAppInstallation?.id;
+
+  if (!ownerId) {
+    throw new Error('Could not resolve app installation');
+  }
+
+  const response = await graphql(
+    `
+      mutation setWidgetMetafield($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        metafields: [{
+          ownerId,
+          namespace: WIDGET_METAFIELD_NAMESPACE,
+          key: WIDGET_METAFIELD_KEY,
+          type: 'json',
+          value: JSON.stringify({
+            chat_button: withPhone(widgets.chat_button),
+            product_button: withPhone(widgets.product_button)
+          })
+        }]
+      }
+    }
+  );
+
+  const result = await response.json();
+  const userErrors = result.data?.metafieldsSet?.userErrors || [];
+  if (userErrors.length > 0) {
+    throw new Error(`Failed to publish widget settings: ${userErrors[0].message}`);
+  }
+}
@@ -10,20 +10,17 @@ module.exports = {
       },
     },
     {
-      name: "reconnect",
+      name: "worker",
       script: "./node_modules/.bin/tsx",
-      args: "workers/reconnect-sessions.ts",
+      args: "workers/message-sender.ts",
       env: {
         NODE_ENV: "production",
       },
-      // Restart if it crashes, but wait 30 seconds
-      restart_delay: 30000,
-      max_restarts: 3,
     },
     {
-      name: "worker",
+      name: "campaigns",
       script: "./node_modules/.bin/tsx",
-      args: "workers/message-sender.ts",
+      args: "workers/campaign-dispatcher.ts",
       env: {
         NODE_ENV: "production",
       },
@@ -0,0 +1,50 @@
+(function () {
+  var container = document.querySelector('[data-whatsend-bis]');
+  if (!container) return;
+
+  var form = container.querySelector('[data-whatsend-bis-form]');
+  var status = container.querySelector('[data-whatsend-bis-status]');
+  var variantInput = form.querySelector('input[name="variant_id"]');
+  var variants = JSON.parse(container.dataset.variants || '[]');
+  var available = JSON.parse(container.dataset.available || '[]');
+
+  // Show the form only while the selected variant is sold out
+  function syncVariant(variantId) {
+    var index = variants.indexOf(Number(variantId));
+    if (index === -1) return;
+    variantInput.value = variantId;
+    container.hidden = available[index];
+    status.textContent = '';
+  }
+
+  // Themes keep the selected variant in the product form's "id" field
+  var productForm = document.querySelector('form[action*="/cart/add"]');
+  if (productForm) {
+    productForm.addEventListener('change', function () {
+      var idField = productForm.querySelector('[name="id"]');
+      if (idField) syncVariant(idField.value);
+    });
+  }
+
+  var urlVariant = new URLSearchParams(window.location.search).get('variant');
+  if (urlVariant) syncVariant(urlVariant);
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+
+    var body = new FormData(form);
+    body.append('product_id', container.dataset.productId);
+    body.append('product_title', container.dataset.productTitle);
+    body.append('product_url', container.dataset.productUrl + '?variant=' + variantInput.value);
+
+    fetch(container.dataset.endpoint, { method: 'POST', body: body })
+      .then(function (response) { return response.json(); })
+      .then(function (result) {
+        status.textContent = result.success ? status.dataset.success : (result.error || status.dataset.error);
+        if (result.success) form.reset();
+      })
+      .catch(function () {
+        status.textContent = status.dataset.error;
+      });
+  });
+})();
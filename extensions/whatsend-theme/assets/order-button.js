@@ -0,0 +1,41 @@
+(function () {
+  var container = document.querySelector('[data-whatsend-order]');
+  if (!container) return;
+
+  var link = container.querySelector('[data-whatsend-order-link]');
+  var variantsScript = container.querySelector('[data-whatsend-order-variants]');
+  var variants = JSON.parse(variantsScript ? variantsScript.textContent : '[]');
+  var productForm = document.querySelector('form[action*="/cart/add"]');
+
+  function currentVariantId() {
+    var idField = productForm && productForm.querySelector('[name="id"]');
+    return (idField && idField.value) || new URLSearchParams(window.location.search).get('variant') || container.dataset.variantId;
+  }
+
+  function currentQuantity() {
+    var quantityField = productForm && productForm.querySelector('[name="quantity"]');
+    var quantity = quantityField ? parseInt(quantityField.value, 10) : 1;
+    return quantity > 0 ? quantity : 1;
+  }
+
+  // Fill the prefilled text from the variant the shopper has selected right now
+  function buildMessage() {
+    var variantId = currentVariantId();
+    var variant = variants.find(function (v) { return String(v.id) === String(variantId); }) || variants[0] || {};
+    var values = {
+      product_name: container.dataset.productTitle,
+      variant_title: variant.title || '',
+      price: variant.price || '',
+      quantity: String(currentQuantity()),
+      product_url: container.dataset.productUrl + (variant.id ? '?variant=' + variant.id : '')
+    };
+
+    return container.dataset.template.replace(/\{(\w+)\}/g, function (match, key) {
+      return Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match;
+    });
+  }
+
+  link.addEventListener('click', function () {
+    link.href = 'https://wa.me/' + container.dataset.phone + '?text=' + encodeURIComponent(buildMessage());
+  });
+})();
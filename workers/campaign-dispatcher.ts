@@ -0,0 +1,112 @@
+/**
+ * Campaign Dispatcher Worker
+ *
+ * Builds the audience of new campaigns, then polls for scheduled campaigns
+ * and hands their MessageQueue rows to the whatsapp-messages queue, where
+ * the message sender worker delivers them. A/B tests that ran their course
+ * get a winner, which is then sent to the held-back recipients.
+ * Also queues due abandoned checkout sequence steps and order
+ * confirmation reminders.
+ */
+
+import { dispatchDueCampaigns } from '../app/services/campaign/campaign-dispatcher.service';
+import { buildCampaignAudiences } from '../app/services/campaign/campaign-audience.service';
+import { evaluateDueAbTests, releaseHeldRecipients } from '../app/services/campaign/campaign-ab-test.service';
+import { dispatchDueRecoverySteps } from '../app/services/recovery/recovery-sequence.service';
+import { dispatchDueConfirmationReminders } from '../app/services/cod/cod-confirmation.service';
+import prisma from '../app/db.server';
+
+const POLL_INTERVAL_MS = parseInt(process.env.CAMPAIGN_POLL_INTERVAL_MS || '15000', 10);
+
+console.log('🚀 Starting Campaign Dispatcher Worker...');
+
+let isRunning = false;
+let isBuilding = false;
+let isShuttingDown = false;
+
+async function tick(): Promise<void> {
+  // Skip if the previous tick is still going
+  if (isRunning || isShuttingDown) {
+    return;
+  }
+
+  isRunning = true;
+  try {
+    await evaluateDueAbTests();
+    const released = await releaseHeldRecipients();
+    if (released > 0) {
+      console.log(`🏆 Released ${released} held recipient(s) with the winning variant`);
+    }
+  } catch (error) {
+    console.error('❌ A/B test evaluation failed:', error);
+  }
+
+  try {
+    const dispatched = await dispatchDueCampaigns();
+    if (dispatched > 0) {
+      console.log(`📤 Dispatched ${dispatched} campaign message(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Campaign dispatch failed:', error);
+  }
+
+  try {
+    const steps = await dispatchDueRecoverySteps();
+    if (steps > 0) {
+      console.log(`🛒 Queued ${steps} abandoned checkout step(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Recovery step dispatch failed:', error);
+  }
+
+  try {
+    const reminders = await dispatchDueConfirmationReminders();
+    if (reminders > 0) {
+      console.log(`⏰ Queued ${reminders} order confirmation reminder(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Confirmation reminder dispatch failed:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Audience builds page through whole segments and can take minutes, so they
+ * run on their own loop instead of holding up message dispatch
+ */
+async function buildTick(): Promise<void> {
+  if (isBuilding || isShuttingDown) {
+    return;
+  }
+
+  isBuilding = true;
+  try {
+    const built = await buildCampaignAudiences();
+    if (built > 0) {
+      console.log(`👥 Built audience for ${built} campaign(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Campaign audience build failed:', error);
+  } finally {
+    isBuilding = false;
+  }
+}
+
+const interval = setInterval(tick, POLL_INTERVAL_MS);
+const buildInterval = setInterval(buildTick, POLL_INTERVAL_MS);
+tick();
+buildTick();
+
+// Graceful shutdown
+async function shutdown(): Promise<void> {
+  console.log('Shutting down campaign dispatcher...');
+  isShuttingDown = true;
+  clearInterval(interval);
+  clearInterval(buildInterval);
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
@@ -1,6 +1,21 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import IORedis from 'ioredis';
-import { BaileysService } from '../app/services/whatsapp/baileys.service';
+import {
+  ensureConnection,
+  startConnection,
+  closeConnection,
+  logoutConnection,
+  startIdleEviction,
+  closeAllConnections
+} from '../app/services/whatsapp/connection-manager.service';
+import { CONNECTION_QUEUE_NAME, type ConnectionCommand, type ConnectionJobData } from '../app/services/whatsapp/connection-queue.service';
+import { markQueueItemSent, markQueueItemFailed, isQueueItemCancelled, deferQueueItem } from '../app/services/campaign/campaign-dispatcher.service';
+import { claimMessageQuota, releaseMessageQuota, recordQuotaSkip } from '../app/services/billing/billing.service';
+import { linkMessageHistory } from '../app/services/links/short-link.service';
+import { loadMediaAttachment } from '../app/services/media/media.service';
+import { loadInvoiceAttachment } from '../app/services/invoice/invoice.service';
+import { reserveSendSlot, pauseSending, isRateLimitError } from '../app/services/queue/send-pacing.service';
+import { reconnectSessions } from './reconnect-sessions';
 import { PrismaClient } from '@prisma/client';
 
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
@@ -18,29 +33,74 @@ interface MessageJobData {
   message: string;
   messageType: string;
   imageUrl?: string;
+  mediaId?: string;
+  invoiceId?: string;
   orderId?: string;
   orderNumber?: string;
+  campaignId?: string;
+  variantId?: string;
+  queueItemId?: string;
+  pacedSlot?: { at: number; attempt: number }; // Send slot the job was delayed to
 }
 
-const worker = new Worker('whatsapp-messages', async (job: Job<MessageJobData>) => {
-  const { shopId, phone, message, messageType, imageUrl, orderId, orderNumber } = job.data;
+const worker = new Worker('whatsapp-messages', async (job: Job<MessageJobData>, token?: string) => {
+  const { shopId, phone, message, messageType, imageUrl, mediaId, invoiceId, orderId, orderNumber, campaignId, variantId, queueItemId } = job.data;
   console.log(`[Job ${job.id}] Processing ${messageType} message for Shop: ${shopId} -> To: ${phone}`);
 
-  try {
-    const baileys = new BaileysService();
-    
-    // 1. Initialize session/connection for this shop
-    await baileys.initializeConnection(shopId);
+  // The campaign was cancelled after this message was queued
+  if (queueItemId && await isQueueItemCancelled(queueItemId)) {
+    console.log(`[Job ${job.id}] Skipping message for cancelled campaign ${campaignId}`);
+    return { success: true, skipped: true };
+  }
+
+  // Wait for the shop's next send slot without holding up other shops
+  // A retry has to claim a new slot rather than reuse the one it failed in
+  const reservedAt = job.data.pacedSlot?.attempt === job.attemptsMade ? job.data.pacedSlot.at : undefined;
+  const slot = await reserveSendSlot(shopId, job.id || `${shopId}-${phone}`, { reservedAt, holdAtDailyCap: !!campaignId });
+  if (slot.sendAt) {
+    await job.updateData({
+      ...job.data,
+      pacedSlot: slot.reason === 'paced' ? { at: slot.sendAt, attempt: job.attemptsMade } : undefined
+    });
+    await job.moveToDelayed(slot.sendAt, token);
+    if (slot.reason !== 'paced') {
+      console.log(`[Job ${job.id}] Held until ${new Date(slot.sendAt).toISOString()} (${slot.reason})`);
+    }
+    throw new DelayedError();
+  }
+
+  // Take quota just before sending - concurrent jobs can't overshoot the plan
+  if (!(await claimMessageQuota(shopId))) {
+    console.log(`[Job ${job.id}] Skipping ${messageType} message - message limit reached`);
+    try {
+      if (queueItemId) {
+        await deferQueueItem(queueItemId, 'Message limit reached');
+      } else {
+        await recordQuotaSkip(shopId, { phone, message, messageType, orderId, orderNumber, campaignId, variantId });
+      }
+    } catch (skipError) {
+      console.error(`[Job ${job.id}] Failed to record skipped message:`, skipError);
+    }
+    return { success: true, skipped: true };
+  }
 
-    // 2. Wait a moment for connection to stabilize
-    await new Promise(resolve => setTimeout(resolve, 2000));
+  try {
+    // 1-2. Reuse the shop's warm socket (or open one and wait until it's ready)
+    const baileys = await ensureConnection(shopId);
 
-    // 3. Send Message (with or without image)
-    if (imageUrl) {
-      await baileys.sendImageMessage(shopId, phone, imageUrl, message);
+    // 3. Send Message (with an attachment, an image or as plain text)
+    // An attachment deleted since the message was queued leaves just the text
+    const invoice = invoiceId ? await loadInvoiceAttachment(invoiceId) : null;
+    const media = invoice || (mediaId ? await loadMediaAttachment(mediaId) : null);
+    let whatsappMessageId: string | null;
+    if (media) {
+      whatsappMessageId = await baileys.sendMediaMessage(shopId, phone, media, message);
+      console.log(`✅ [Job ${job.id}] ${media.mediaType} message sent successfully`);
+    } else if (imageUrl) {
+      whatsappMessageId = await baileys.sendImageMessage(shopId, phone, imageUrl, message);
       console.log(`✅ [Job ${job.id}] Image message sent successfully`);
     } else {
-      await baileys.sendMessage(shopId, phone, message);
+      whatsappMessageId = await baileys.sendMessage(shopId, phone, message);
       console.log(`✅ [Job ${job.id}] Text message sent successfully`);
     }
 
@@ -52,7 +112,7 @@ const worker = new Worker('whatsapp-messages', async (job: Job<MessageJobData>)
       });
 
       if (shop) {
-        await prisma.messageHistory.create({
+        const history = await prisma.messageHistory.create({
           data: {
             shopId: shop.id,
             recipientPhone: phone,
@@ -60,31 +120,54 @@ const worker = new Worker('whatsapp-messages', async (job: Job<MessageJobData>)
             messageType: messageType,
             orderId: orderId,
             orderNumber: orderNumber,
+            campaignId,
+            variantId,
             status: 'sent',
+            whatsappMessageId,
             sentAt: new Date()
           }
         });
+
+        // Tie the message's short links to the history row for per-message clicks
+        if (job.id) {
+          await linkMessageHistory(job.id, history.id);
+        }
       }
     } catch (historyError) {
       console.error(`[Job ${job.id}] Failed to log message history:`, historyError);
       // Don't throw - message was sent successfully
     }
 
-    // 5. Update shop message count
-    try {
-      await prisma.shop.update({
-        where: { shopifyDomain: shopId },
-        data: { messagesSent: { increment: 1 } }
-      });
-    } catch (updateError) {
-      console.error(`[Job ${job.id}] Failed to update message count:`, updateError);
+    // 5. Update campaign queue item and progress
+    if (queueItemId) {
+      try {
+        await markQueueItemSent(queueItemId);
+      } catch (queueError) {
+        console.error(`[Job ${job.id}] Failed to update campaign queue item:`, queueError);
+      }
     }
-    
+
     return { success: true, sentAt: new Date() };
 
   } catch (error) {
     console.error(`❌ [Job ${job.id}] Failed to send message:`, error);
 
+    // Nothing went out, so the quota taken for it goes back
+    try {
+      await releaseMessageQuota(shopId);
+    } catch (quotaError) {
+      console.error(`[Job ${job.id}] Failed to release message quota:`, quotaError);
+    }
+
+    // WhatsApp is throttling the number - stop the shop's sending for a while
+    if (isRateLimitError(error)) {
+      try {
+        await pauseSending(shopId, 'rate_limited');
+      } catch (pauseError) {
+        console.error(`[Job ${job.id}] Failed to pause sending:`, pauseError);
+      }
+    }
+
     // Log failed attempt to MessageHistory
     try {
       const shop = await prisma.shop.findUnique({
@@ -100,6 +183,8 @@ const worker = new Worker('whatsapp-messages', async (job: Job<MessageJobData>)
             messageType: messageType,
             orderId: orderId,
             orderNumber: orderNumber,
+            campaignId,
+            variantId,
             status: 'failed',
             errorMessage: error instanceof Error ? error.message : 'Unknown error',
             sentAt: new Date()
@@ -110,15 +195,64 @@ const worker = new Worker('whatsapp-messages', async (job: Job<MessageJobData>)
       console.error(`[Job ${job.id}] Failed to log failed message:`, historyError);
     }
 
+    // Track the attempt on the campaign queue item (only the last attempt counts as failed)
+    if (queueItemId) {
+      const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      try {
+        await markQueueItemFailed(
+          queueItemId,
+          error instanceof Error ? error.message : 'Unknown error',
+          isFinalAttempt
+        );
+      } catch (queueError) {
+        console.error(`[Job ${job.id}] Failed to update campaign queue item:`, queueError);
+      }
+    }
+
     throw error; // Triggers BullMQ retry
   }
 }, {
   connection,
-  concurrency: 5, // Process up to 5 messages in parallel
-  limiter: {
-    max: 10,  // Max 10 jobs
-    duration: 1000 // per 1 second
+  concurrency: 5 // Process up to 5 messages in parallel - each shop is paced on its own by send-pacing
+});
+
+// Link, unlink and close requests from the web app - this process owns every socket
+const connectionWorker = new Worker<ConnectionJobData, void, ConnectionCommand>(CONNECTION_QUEUE_NAME, async (job) => {
+  const { shopId } = job.data;
+  console.log(`[Connection ${job.id}] ${job.name} for Shop: ${shopId}`);
+
+  switch (job.name) {
+    case 'connect':
+      try {
+        // Pinned so the idle sweep can't close it while the merchant is scanning
+        await startConnection(shopId, { pinned: true });
+      } catch (error) {
+        console.error(`[Connection ${job.id}] Failed to start connection:`, error);
+        await prisma.shop.update({
+          where: { shopifyDomain: shopId },
+          data: { connectionStatus: 'error', qrCode: null }
+        });
+        throw error;
+      }
+      break;
+    case 'disconnect':
+      closeConnection(shopId);
+      break;
+    case 'logout':
+      await logoutConnection(shopId);
+      break;
   }
+}, {
+  connection,
+  concurrency: 1
+});
+
+// Close sockets for shops that haven't sent anything in a while
+startIdleEviction();
+
+// Bring back the sockets of shops that were connected before the restart
+reconnectSessions().catch((error) => {
+  console.error('Failed to reconnect WhatsApp sessions:', error);
 });
 
 worker.on('completed', (job) => {
@@ -132,14 +266,16 @@ worker.on('failed', (job, err) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('Shutting down worker...');
-  await worker.close();
+  await Promise.all([worker.close(), connectionWorker.close()]);
+  closeAllConnections();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('Shutting down worker...');
-  await worker.close();
+  await Promise.all([worker.close(), connectionWorker.close()]);
+  closeAllConnections();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -1,27 +1,15 @@
 /**
  * Reconnect WhatsApp Sessions on Startup
  * 
- * This script runs on app startup to restore WhatsApp connections
- * for all shops that were previously connected.
+ * Run by the message sender worker when it starts, to restore WhatsApp
+ * connections for all shops that were previously connected. The worker is
+ * the only process holding sockets, so this no longer runs on its own.
  */
 
-import { PrismaClient } from '@prisma/client';
-import { BaileysService } from '../app/services/whatsapp/baileys.service';
+import prisma from '../app/db.server';
+import { startConnection } from '../app/services/whatsapp/connection-manager.service';
 
-const prisma = new PrismaClient();
-
-// Store active connections
-const activeConnections: Map<string, BaileysService> = new Map();
-
-export function getConnection(shopDomain: string): BaileysService | undefined {
-  return activeConnections.get(shopDomain);
-}
-
-export function setConnection(shopDomain: string, service: BaileysService): void {
-  activeConnections.set(shopDomain, service);
-}
-
-async function reconnectSessions(): Promise<void> {
+export async function reconnectSessions(): Promise<void> {
   console.log('🔄 Starting WhatsApp session reconnection...');
   
   try {
@@ -56,11 +44,8 @@ async function reconnectSessions(): Promise<void> {
       try {
         console.log(`🔗 Reconnecting: ${shop.shopifyDomain} (${shop.whatsappNumber || 'unknown number'})`);
         
-        const baileys = new BaileysService();
-        await baileys.initializeConnection(shop.shopifyDomain);
-        
-        // Store the connection for later use
-        activeConnections.set(shop.shopifyDomain, baileys);
+        // Pinned so the connection manager never evicts it as idle
+        await startConnection(shop.shopifyDomain, { pinned: true });
         
         console.log(`✅ Reconnected: ${shop.shopifyDomain}`);
         
@@ -87,15 +72,3 @@ async function reconnectSessions(): Promise<void> {
     console.error('❌ Error during session reconnection:', error);
   }
 }
-
-// Run reconnection
-reconnectSessions()
-  .then(() => {
-    console.log('📡 Reconnection script finished, keeping process alive for connections...');
-    // Keep the process alive to maintain WhatsApp connections
-    // The connections will be used by the message worker
-  })
-  .catch((error) => {
-    console.error('Fatal error in reconnection script:', error);
-    process.exit(1);
-  });